@@ -0,0 +1,22 @@
+import { IncomingMessage } from 'node:http';
+import { AuthError } from '../src/lib/auth/errors';
+import { Session, SessionVerifier } from '../src/lib/auth/verifier';
+
+/** The caller's session, or `null` for anonymous requests and unknown tokens. */
+export function optionalSession(req: IncomingMessage, verifier: SessionVerifier): Session | null {
+  const header = req.headers.authorization ?? '';
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' && token ? verifier.resolve(token) : null;
+}
+
+export function requireSession(req: IncomingMessage, verifier: SessionVerifier): Session {
+  const session = optionalSession(req, verifier);
+  if (!session) {
+    throw new AuthError('unauthenticated', 'Sign in with your wallet to do this');
+  }
+  return session;
+}
+
+export function authErrorStatus(error: AuthError): number {
+  return error.code === 'forbidden' ? 403 : 401;
+}
@@ -0,0 +1,26 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { StorageBackend } from '../src/lib/data/backends';
+
+// Stores each collection as `<dir>/<key>.json`. Writes go through a temp file so
+// a crash mid-write never leaves a truncated collection behind.
+export function createFileBackend(dir: string): StorageBackend {
+  const fileFor = (key: string) => path.join(dir, `${key}.json`);
+
+  return {
+    async read(key) {
+      try {
+        return await readFile(fileFor(key), 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async write(key, value) {
+      await mkdir(dir, { recursive: true });
+      const tempFile = `${fileFor(key)}.tmp`;
+      await writeFile(tempFile, value, 'utf8');
+      await rename(tempFile, fileFor(key));
+    },
+  };
+}
@@ -0,0 +1,120 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { parse, stringify } from '../src/lib/data/serialization';
+
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface RouteContext {
+  req: IncomingMessage;
+  params: Record<string, string>;
+  body: unknown;
+}
+
+export type RouteHandler = (context: RouteContext) => Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+  status: number;
+}
+
+export interface Router {
+  add(method: string, path: string, handler: RouteHandler, status?: number): Router;
+  handle(req: IncomingMessage, res: ServerResponse): Promise<void>;
+}
+
+const MAX_BODY_BYTES = 1_000_000;
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+
+  if (chunks.length === 0) return undefined;
+
+  try {
+    return parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const payload = body === undefined ? '' : stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
+
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, 'Path is not validly encoded');
+  }
+}
+
+// Paths look like `/api/things/:id/approve`; each `:name` segment becomes a param.
+function compile(path: string): { pattern: RegExp; keys: string[] } {
+  const keys: string[] = [];
+  const source = path
+    .split('/')
+    .map((segment) => {
+      if (!segment.startsWith(':')) return segment;
+      keys.push(segment.slice(1));
+      return '([^/]+)';
+    })
+    .join('/');
+  return { pattern: new RegExp(`^${source}/?$`), keys };
+}
+
+export function createRouter(): Router {
+  const routes: Route[] = [];
+
+  const router: Router = {
+    add(method, path, handler, status = 200) {
+      routes.push({ method, handler, status, ...compile(path) });
+      return router;
+    },
+
+    async handle(req, res) {
+      const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+      let pathMatched = false;
+
+      for (const route of routes) {
+        const match = route.pattern.exec(pathname);
+        if (!match) continue;
+        pathMatched = true;
+        if (route.method !== req.method) continue;
+
+        const params = Object.fromEntries(
+          route.keys.map((key, index) => [key, decodeParam(match[index + 1])])
+        );
+        const body = await readBody(req);
+        const result = await route.handler({ req, params, body });
+        sendJson(res, result === undefined ? 204 : route.status, result);
+        return;
+      }
+
+      throw new HttpError(pathMatched ? 405 : 404, pathMatched ? 'Method not allowed' : 'Not found');
+    },
+  };
+
+  return router;
+}
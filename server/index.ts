@@ -0,0 +1,97 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createServer } from 'node:http';
+import path from 'node:path';
+import { AuthError } from '../src/lib/auth/errors';
+import { createSessionVerifier } from '../src/lib/auth/verifier';
+import { DataStore, RecordNotFoundError } from '../src/lib/data/types';
+import {
+  InvalidTransitionError,
+  RequestNotEditableError,
+  RequestNotRemovableError,
+} from '../src/lib/requestLifecycle';
+import { DEFAULT_REJECTION_COOLDOWN_MS, RequestRuleError } from '../src/lib/requestRules';
+import { TeamRuleError } from '../src/lib/team';
+import { ModerationRuleError, parseModeratorAddresses } from '../src/lib/moderation';
+import { withAuditTrail } from '../src/lib/data/auditTrail';
+import { createStoreDataStore } from '../src/lib/data/storeRepositories';
+import { createMaxBondProvidersLookup } from '../src/lib/capacity';
+import { createThornodeClient, ThornodeClient } from '../src/lib/thornode';
+import { mockNodeOperators, mockWhitelistRequests } from '../src/lib/mockData';
+import { NETWORK_IDS, NETWORKS, NetworkId } from '../src/lib/networks';
+import { authErrorStatus, optionalSession } from './auth';
+import { createFileBackend } from './fileBackend';
+import { HttpError, sendJson } from './http';
+import { createApiRouter } from './routes';
+import { publicOnlyFetch } from './webhookFetch';
+
+const port = Number(process.env.PORT ?? 8787);
+const dataDir = path.resolve(process.env.DATA_DIR ?? 'data');
+const allowHttpWebhooks = process.env.WEBHOOK_ALLOW_HTTP === 'true';
+const rejectionCooldownMs = process.env.REJECTION_COOLDOWN_DAYS
+  ? Number(process.env.REJECTION_COOLDOWN_DAYS) * 24 * 60 * 60 * 1000
+  : DEFAULT_REJECTION_COOLDOWN_MS;
+const moderators = parseModeratorAddresses(process.env.MODERATOR_ADDRESSES);
+
+// Audit events are attributed to the wallet signed in on the request that made them.
+const requestActor = new AsyncLocalStorage<string | null>();
+
+const thornodes = Object.fromEntries(
+  NETWORK_IDS.map((id) => [id, createThornodeClient({ baseUrl: NETWORKS[id].thornodeUrl })])
+) as Record<NetworkId, ThornodeClient>;
+
+// Each network keeps its records in its own subdirectory of the data dir, and
+// reads its bond provider limit from that network's THORNode.
+const stores = Object.fromEntries(
+  NETWORK_IDS.map((id) => [
+    id,
+    withAuditTrail(
+      createStoreDataStore(
+        createFileBackend(path.join(dataDir, id)),
+        NETWORKS[id].seedWithMockData
+          ? { nodeOperators: mockNodeOperators, whitelistRequests: mockWhitelistRequests }
+          : undefined,
+        {
+          maxBondProviders: createMaxBondProvidersLookup(thornodes[id]),
+          rejectionCooldownMs,
+        }
+      ),
+      () => requestActor.getStore() ?? null,
+      // Local stand-ins need the server's own network, so allowing HTTP lifts the check.
+      allowHttpWebhooks ? undefined : { fetch: publicOnlyFetch }
+    ),
+  ])
+) as Record<NetworkId, DataStore>;
+const verifier = createSessionVerifier();
+const router = createApiRouter(stores, thornodes, verifier, {
+  allowHttpWebhooks,
+  moderators,
+});
+
+const server = createServer((req, res) => {
+  const actor = optionalSession(req, verifier)?.address ?? null;
+  requestActor.run(actor, () => router.handle(req, res)).catch((error: unknown) => {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+    } else if (error instanceof AuthError) {
+      sendJson(res, authErrorStatus(error), { error: error.message });
+    } else if (error instanceof RecordNotFoundError) {
+      sendJson(res, 404, { error: error.message });
+    } else if (
+      error instanceof InvalidTransitionError ||
+      error instanceof RequestNotEditableError ||
+      error instanceof RequestNotRemovableError ||
+      error instanceof RequestRuleError ||
+      error instanceof TeamRuleError ||
+      error instanceof ModerationRuleError
+    ) {
+      sendJson(res, 409, { error: error.message });
+    } else {
+      console.error(error);
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  });
+});
+
+server.listen(port, () => {
+  console.log(`RUNEBond API listening on http://localhost:${port} (data in ${dataDir})`);
+});
@@ -0,0 +1,566 @@
+import { DataStore } from '../src/lib/data/types';
+import { NodeOperator, TeamRole, WhitelistRequest } from '../src/types';
+import {
+  assertInThread,
+  assertListingRole,
+  assertModerator,
+  assertOwnsRequest,
+  assertSessionAddress,
+} from '../src/lib/auth/guards';
+import { roleOn } from '../src/lib/team';
+import { isHidden, isModerator } from '../src/lib/moderation';
+import { AuthError } from '../src/lib/auth/errors';
+import { SessionVerifier } from '../src/lib/auth/verifier';
+import { isNetworkId, NETWORKS, NetworkId } from '../src/lib/networks';
+import { ThornodeClient, verifyNodeOwnership } from '../src/lib/thornode';
+import { optionalSession, requireSession } from './auth';
+import { createRouter, HttpError, RouteContext, Router } from './http';
+import {
+  abuseReportBodySchema,
+  blocklistEntryBodySchema,
+  challengeBodySchema,
+  createInputSchemas,
+  createWebhookSchemas,
+  InputSchemas,
+  markNotificationsReadBodySchema,
+  messageBodySchema,
+  moderationActionBodySchema,
+  rejectBodySchema,
+  requestActionBodySchema,
+  sessionBodySchema,
+  teamRoleBodySchema,
+  validate,
+} from './validation';
+
+interface NetworkApi {
+  store: DataStore;
+  schemas: InputSchemas;
+  thornode: ThornodeClient;
+}
+
+async function found<T>(record: Promise<T | null>, what: string): Promise<T> {
+  const value = await record;
+  if (value === null) throw new HttpError(404, `${what} not found`);
+  return value;
+}
+
+export interface ApiRouterOptions {
+  /** Accept `http://` webhook URLs, for local stand-ins. */
+  allowHttpWebhooks?: boolean;
+  /** Wallets that may use the moderation routes, on every network. */
+  moderators?: string[];
+}
+
+export function createApiRouter(
+  stores: Record<NetworkId, DataStore>,
+  thornodes: Record<NetworkId, ThornodeClient>,
+  verifier: SessionVerifier,
+  options: ApiRouterOptions = {}
+): Router {
+  const webhookSchemas = createWebhookSchemas(options.allowHttpWebhooks ?? false);
+  const moderators = options.moderators ?? [];
+  const apis = Object.fromEntries(
+    Object.entries(stores).map(([id, store]) => [
+      id,
+      {
+        store,
+        schemas: createInputSchemas(NETWORKS[id as NetworkId].addressPrefix),
+        thornode: thornodes[id as NetworkId],
+      },
+    ])
+  ) as Record<NetworkId, NetworkApi>;
+
+  const networkApi = (params: RouteContext['params']): NetworkApi => {
+    if (!isNetworkId(params.network)) {
+      throw new HttpError(404, `Unknown network "${params.network}"`);
+    }
+    return apis[params.network];
+  };
+
+  // A listing's node must be run by its operator wallet, as that network's THORNode reports it.
+  const assertRunsNode = async (
+    { thornode }: NetworkApi,
+    nodeAddress: string,
+    operatorAddress: string
+  ) => {
+    const verification = await verifyNodeOwnership(thornode, nodeAddress, operatorAddress);
+    if (verification.ok) return;
+    switch (verification.reason) {
+      case 'operator-mismatch':
+        throw new AuthError('forbidden', "The listing's operator wallet does not run this node");
+      case 'not-registered':
+        throw new HttpError(400, verification.message);
+      case 'unavailable':
+        throw new HttpError(503, verification.message);
+    }
+  };
+
+  // Listings are run by their operator wallet and its team; `required` is the least role allowed.
+  const teamListing = async (
+    { store }: NetworkApi,
+    id: string,
+    req: RouteContext['req'],
+    required: TeamRole
+  ) => {
+    const session = requireSession(req, verifier);
+    const listing = await found(store.nodeOperators.get(id), 'Node operator');
+    assertListingRole(session, listing, await store.team.list(id), required);
+    return { listing, session };
+  };
+
+  const ownedRequest = async ({ store }: NetworkApi, id: string, req: RouteContext['req']) => {
+    const session = requireSession(req, verifier);
+    const request = await found(store.whitelistRequests.get(id), 'Whitelist request');
+    assertOwnsRequest(session, request);
+    return request;
+  };
+
+  // Approving and rejecting is done by managers of the listing the request targets.
+  const requestForManager = async (api: NetworkApi, id: string, req: RouteContext['req']) => {
+    const request = await found(api.store.whitelistRequests.get(id), 'Whitelist request');
+    await teamListing(api, request.nodeOperatorId, req, 'manager');
+    return request;
+  };
+
+  // The signed-in wallet's own membership or invitation, when `memberId` is one.
+  const invitedMember = async (
+    { store }: NetworkApi,
+    nodeOperatorId: string,
+    memberId: string,
+    req: RouteContext['req']
+  ) => {
+    const session = requireSession(req, verifier);
+    const members = await store.team.list(nodeOperatorId);
+    const member = members.find((item) => item.id === memberId);
+    if (!member) throw new HttpError(404, 'Team member not found');
+    return member.memberAddress === session.address ? member : null;
+  };
+
+  // A request's thread is private to its bonder and its listing's managers.
+  const threadParticipant = async ({ store }: NetworkApi, id: string, req: RouteContext['req']) => {
+    const session = requireSession(req, verifier);
+    const request = await found(store.whitelistRequests.get(id), 'Whitelist request');
+    const [listing, members] = await Promise.all([
+      store.nodeOperators.get(request.nodeOperatorId),
+      store.team.list(request.nodeOperatorId),
+    ]);
+    assertInThread(session, request, listing, members);
+    return session;
+  };
+
+  const requireModerator = (req: RouteContext['req']) => {
+    const session = requireSession(req, verifier);
+    assertModerator(session, moderators);
+    return session;
+  };
+
+  // Hidden listings are only shown to moderators and the listing's own team.
+  const listingVisibility = async ({ store }: NetworkApi, req: RouteContext['req']) => {
+    const session = optionalSession(req, verifier);
+    const memberships = session ? await store.team.memberships(session.address) : [];
+    return (listing: NodeOperator): boolean =>
+      !isHidden(listing) ||
+      (!!session &&
+        (isModerator(session.address, moderators) ||
+          roleOn(session.address, listing, memberships) !== null));
+  };
+
+  // Requests carry bonders' wallets and handles, so each is only shown to its
+  // bonder, its listing's team and moderators.
+  const requestVisibility = async ({ store }: NetworkApi, req: RouteContext['req']) => {
+    const session = requireSession(req, verifier);
+    if (isModerator(session.address, moderators)) return () => true;
+    const [listings, memberships] = await Promise.all([
+      store.nodeOperators.list(),
+      store.team.memberships(session.address),
+    ]);
+    const teams = new Set(
+      listings.filter((op) => roleOn(session.address, op, memberships)).map((op) => op.id)
+    );
+    return (request: WhitelistRequest): boolean =>
+      request.walletAddress === session.address || teams.has(request.nodeOperatorId);
+  };
+
+  const visibleRequest = async (api: NetworkApi, id: string, req: RouteContext['req']) => {
+    const visible = await requestVisibility(api, req);
+    const request = await found(api.store.whitelistRequests.get(id), 'Whitelist request');
+    if (!visible(request)) throw new HttpError(404, 'Whitelist request not found');
+    return request;
+  };
+
+  // Private rejection reasons are only sent to moderators and the team of the request's listing.
+  const redactRequests = async ({ store }: NetworkApi, req: RouteContext['req']) => {
+    const session = optionalSession(req, verifier);
+    const moderator = isModerator(session?.address, moderators);
+    const [listings, memberships] = session
+      ? await Promise.all([store.nodeOperators.list(), store.team.memberships(session.address)])
+      : [[], []];
+    const owned = new Set(
+      listings.filter((op) => session && roleOn(session.address, op, memberships)).map((op) => op.id)
+    );
+    return (request: WhitelistRequest): WhitelistRequest =>
+      request.rejectionReasonPrivate && !moderator && !owned.has(request.nodeOperatorId)
+        ? { ...request, rejectionReason: undefined }
+        : request;
+  };
+
+  return createRouter()
+    .add(
+      'POST',
+      '/api/auth/challenge',
+      async ({ body }) => verifier.issueChallenge(validate(challengeBodySchema, body).address),
+      201
+    )
+    .add(
+      'POST',
+      '/api/auth/session',
+      async ({ body }) => {
+        const { nonce, ...proof } = validate(sessionBodySchema, body);
+        return verifier.verify(nonce, proof);
+      },
+      201
+    )
+
+    .add('GET', '/api/:network/node-operators', async ({ req, params }) => {
+      const api = networkApi(params);
+      const visible = await listingVisibility(api, req);
+      return (await api.store.nodeOperators.list()).filter(visible);
+    })
+    .add(
+      'POST',
+      '/api/:network/node-operators',
+      async ({ req, params, body }) => {
+        const api = networkApi(params);
+        const input = validate(api.schemas.nodeOperatorInput, body);
+        assertSessionAddress(requireSession(req, verifier), input.operatorAddress, 'publish listings');
+        await assertRunsNode(api, input.address, input.operatorAddress);
+        return api.store.nodeOperators.create(input);
+      },
+      201
+    )
+    .add('GET', '/api/:network/node-operators/:id', async ({ req, params }) => {
+      const api = networkApi(params);
+      const listing = await found(api.store.nodeOperators.get(params.id), 'Node operator');
+      if (!(await listingVisibility(api, req))(listing)) {
+        throw new HttpError(404, 'Node operator not found');
+      }
+      return listing;
+    })
+    .add('PATCH', '/api/:network/node-operators/:id', async ({ req, params, body }) => {
+      const api = networkApi(params);
+      const { operatorAddress, ...changes } = validate(api.schemas.nodeOperatorInput.partial(), body);
+      const { listing } = await teamListing(api, params.id, req, 'manager');
+      if (operatorAddress && operatorAddress !== listing.operatorAddress) {
+        throw new HttpError(400, 'The operator address of a listing cannot be changed');
+      }
+      if (changes.address && changes.address !== listing.address) {
+        await assertRunsNode(api, changes.address, listing.operatorAddress);
+      }
+      return api.store.nodeOperators.update(params.id, changes);
+    })
+    .add('DELETE', '/api/:network/node-operators/:id', async ({ req, params }) => {
+      const api = networkApi(params);
+      await teamListing(api, params.id, req, 'owner');
+      return api.store.nodeOperators.remove(params.id);
+    })
+    // Like the listing itself, its history is hidden along with it. It outlives deletion.
+    .add('GET', '/api/:network/node-operators/:id/audit', async ({ req, params }) => {
+      const api = networkApi(params);
+      const listing = await api.store.nodeOperators.get(params.id);
+      if (listing && !(await listingVisibility(api, req))(listing)) {
+        throw new HttpError(404, 'Node operator not found');
+      }
+      return api.store.auditLog.list('node-operator', params.id);
+    })
+    .add('GET', '/api/:network/node-operators/:id/blocklist', async ({ req, params }) => {
+      const api = networkApi(params);
+      await teamListing(api, params.id, req, 'manager');
+      return api.store.blocklist.list(params.id);
+    })
+    .add(
+      'POST',
+      '/api/:network/node-operators/:id/blocklist',
+      async ({ req, params, body }) => {
+        const api = networkApi(params);
+        const entry = validate(blocklistEntryBodySchema, body);
+        await teamListing(api, params.id, req, 'manager');
+        return api.store.blocklist.add({ ...entry, nodeOperatorId: params.id });
+      },
+      201
+    )
+    .add(
+      'DELETE',
+      '/api/:network/node-operators/:id/blocklist/:entryId',
+      async ({ req, params }) => {
+        const api = networkApi(params);
+        await teamListing(api, params.id, req, 'manager');
+        return api.store.blocklist.remove(params.id, params.entryId);
+      }
+    )
+    // Webhooks carry their signing secret, so only the listing's owners see them.
+    .add('GET', '/api/:network/node-operators/:id/webhooks', async ({ req, params }) => {
+      const api = networkApi(params);
+      await teamListing(api, params.id, req, 'owner');
+      return api.store.webhooks.list(params.id);
+    })
+    .add(
+      'POST',
+      '/api/:network/node-operators/:id/webhooks',
+      async ({ req, params, body }) => {
+        const api = networkApi(params);
+        const input = validate(webhookSchemas.webhookInput, body);
+        await teamListing(api, params.id, req, 'owner');
+        return api.store.webhooks.create({ ...input, nodeOperatorId: params.id });
+      },
+      201
+    )
+    .add('GET', '/api/:network/node-operators/:id/webhooks/deliveries', async ({ req, params }) => {
+      const api = networkApi(params);
+      await teamListing(api, params.id, req, 'owner');
+      return api.store.webhooks.deliveries(params.id);
+    })
+    .add(
+      'PATCH',
+      '/api/:network/node-operators/:id/webhooks/:webhookId',
+      async ({ req, params, body }) => {
+        const api = networkApi(params);
+        const changes = validate(webhookSchemas.webhookChanges, body);
+        await teamListing(api, params.id, req, 'owner');
+        const existing = (await api.store.webhooks.list(params.id)).find(
+          (webhook) => webhook.id === params.webhookId
+        );
+        if (!existing) throw new HttpError(404, 'Webhook not found');
+        validate(webhookSchemas.webhookInput, { ...existing, ...changes });
+        return api.store.webhooks.update(params.id, params.webhookId, changes);
+      }
+    )
+    .add(
+      'DELETE',
+      '/api/:network/node-operators/:id/webhooks/:webhookId',
+      async ({ req, params }) => {
+        const api = networkApi(params);
+        await teamListing(api, params.id, req, 'owner');
+        return api.store.webhooks.remove(params.id, params.webhookId);
+      }
+    )
+
+    .add('GET', '/api/:network/node-operators/:id/team', async ({ req, params }) => {
+      const api = networkApi(params);
+      await teamListing(api, params.id, req, 'viewer');
+      return api.store.team.list(params.id);
+    })
+    .add(
+      'POST',
+      '/api/:network/node-operators/:id/team',
+      async ({ req, params, body }) => {
+        const api = networkApi(params);
+        const invite = validate(api.schemas.teamInviteBody, body);
+        const { session } = await teamListing(api, params.id, req, 'owner');
+        return api.store.team.invite({
+          ...invite,
+          nodeOperatorId: params.id,
+          invitedBy: session.address,
+        });
+      },
+      201
+    )
+    .add(
+      'PATCH',
+      '/api/:network/node-operators/:id/team/:memberId',
+      async ({ req, params, body }) => {
+        const api = networkApi(params);
+        const { role } = validate(teamRoleBodySchema, body);
+        await teamListing(api, params.id, req, 'owner');
+        return api.store.team.setRole(params.id, params.memberId, role);
+      }
+    )
+    // Owners remove anyone; members can decline an invitation or leave on their own.
+    .add(
+      'DELETE',
+      '/api/:network/node-operators/:id/team/:memberId',
+      async ({ req, params }) => {
+        const api = networkApi(params);
+        const member = await invitedMember(api, params.id, params.memberId, req);
+        if (!member) await teamListing(api, params.id, req, 'owner');
+        return api.store.team.remove(params.id, params.memberId);
+      }
+    )
+    .add(
+      'POST',
+      '/api/:network/node-operators/:id/team/:memberId/accept',
+      async ({ req, params }) => {
+        const api = networkApi(params);
+        const member = await invitedMember(api, params.id, params.memberId, req);
+        if (!member) throw new AuthError('forbidden', 'Only the invited wallet can accept');
+        return api.store.team.accept(params.id, params.memberId);
+      }
+    )
+    .add('GET', '/api/:network/team/memberships', ({ req, params }) =>
+      networkApi(params).store.team.memberships(requireSession(req, verifier).address)
+    )
+
+    .add(
+      'POST',
+      '/api/:network/node-operators/:id/reports',
+      async ({ req, params, body }) => {
+        const { store } = networkApi(params);
+        const report = validate(abuseReportBodySchema, body);
+        const session = requireSession(req, verifier);
+        return store.moderation.report({
+          ...report,
+          nodeOperatorId: params.id,
+          reporterAddress: session.address,
+        });
+      },
+      201
+    )
+    .add('GET', '/api/:network/moderation/reports', ({ req, params }) => {
+      const { store } = networkApi(params);
+      requireModerator(req);
+      return store.moderation.reports();
+    })
+    .add(
+      'POST',
+      '/api/:network/moderation/actions',
+      async ({ req, params, body }) => {
+        const { store } = networkApi(params);
+        const action = validate(moderationActionBodySchema, body);
+        const session = requireModerator(req);
+        return store.moderation.act({ ...action, moderatorAddress: session.address });
+      },
+      201
+    )
+    .add('GET', '/api/:network/moderation/actions', ({ req, params }) => {
+      const { store } = networkApi(params);
+      requireModerator(req);
+      return store.moderation.log();
+    })
+
+    .add('GET', '/api/:network/whitelist-requests', async ({ req, params }) => {
+      const api = networkApi(params);
+      const [visible, redact] = await Promise.all([
+        requestVisibility(api, req),
+        redactRequests(api, req),
+      ]);
+      return (await api.store.whitelistRequests.list()).filter(visible).map(redact);
+    })
+    .add(
+      'POST',
+      '/api/:network/whitelist-requests',
+      async ({ req, params, body }) => {
+        const { store, schemas } = networkApi(params);
+        const input = validate(schemas.whitelistRequestInput, body);
+        assertSessionAddress(requireSession(req, verifier), input.walletAddress, 'file requests');
+        await found(store.nodeOperators.get(input.nodeOperatorId), 'Node operator');
+        return store.whitelistRequests.create(input);
+      },
+      201
+    )
+    .add('GET', '/api/:network/whitelist-requests/:id', async ({ req, params }) => {
+      const api = networkApi(params);
+      const redact = await redactRequests(api, req);
+      return redact(await visibleRequest(api, params.id, req));
+    })
+    .add('GET', '/api/:network/whitelist-requests/:id/audit', async ({ req, params }) => {
+      const api = networkApi(params);
+      await visibleRequest(api, params.id, req);
+      return api.store.auditLog.list('whitelist-request', params.id);
+    })
+    .add('PATCH', '/api/:network/whitelist-requests/:id', async ({ req, params, body }) => {
+      const api = networkApi(params);
+      const { walletAddress, nodeOperatorId, ...changes } = validate(
+        api.schemas.whitelistRequestInput.partial(),
+        body
+      );
+      const request = await ownedRequest(api, params.id, req);
+      if (
+        (walletAddress && walletAddress !== request.walletAddress) ||
+        (nodeOperatorId && nodeOperatorId !== request.nodeOperatorId)
+      ) {
+        throw new HttpError(400, 'The wallet and listing of a request cannot be changed');
+      }
+      return api.store.whitelistRequests.update(params.id, changes);
+    })
+    .add('DELETE', '/api/:network/whitelist-requests/:id', async ({ req, params }) => {
+      const api = networkApi(params);
+      await ownedRequest(api, params.id, req);
+      return api.store.whitelistRequests.remove(params.id);
+    })
+    .add('POST', '/api/:network/whitelist-requests/:id/approve', async ({ req, params }) => {
+      const api = networkApi(params);
+      await requestForManager(api, params.id, req);
+      return api.store.whitelistRequests.approve(params.id);
+    })
+    .add('POST', '/api/:network/whitelist-requests/:id/reject', async ({ req, params, body }) => {
+      const api = networkApi(params);
+      const rejection = validate(rejectBodySchema, body);
+      await requestForManager(api, params.id, req);
+      return api.store.whitelistRequests.reject(params.id, rejection);
+    })
+    .add('POST', '/api/:network/whitelist-requests/:id/actions', async ({ req, params, body }) => {
+      const api = networkApi(params);
+      const action = validate(requestActionBodySchema, body);
+      // Bonders record their own deposits; whitelisting and removal are the operator's.
+      if (action.kind === 'bond' || action.kind === 'unbond') {
+        await ownedRequest(api, params.id, req);
+      } else {
+        await requestForManager(api, params.id, req);
+      }
+      return api.store.whitelistRequests.recordAction(params.id, action);
+    })
+    .add('POST', '/api/:network/whitelist-requests/:id/cancel', async ({ req, params }) => {
+      const api = networkApi(params);
+      await ownedRequest(api, params.id, req);
+      return api.store.whitelistRequests.cancel(params.id);
+    })
+    .add('POST', '/api/:network/whitelist-requests/:id/withdrawal', async ({ req, params }) => {
+      const api = networkApi(params);
+      await ownedRequest(api, params.id, req);
+      return api.store.whitelistRequests.confirmWithdrawal(params.id);
+    })
+    .add('GET', '/api/:network/whitelist-requests/:id/messages', async ({ req, params }) => {
+      const api = networkApi(params);
+      await threadParticipant(api, params.id, req);
+      return api.store.messages.list(params.id);
+    })
+    .add(
+      'POST',
+      '/api/:network/whitelist-requests/:id/messages',
+      async ({ req, params, body }) => {
+        const api = networkApi(params);
+        const message = validate(messageBodySchema, body);
+        const session = await threadParticipant(api, params.id, req);
+        return api.store.messages.send({
+          requestId: params.id,
+          senderAddress: session.address,
+          body: message.body,
+        });
+      },
+      201
+    )
+    .add('POST', '/api/:network/whitelist-requests/:id/messages/read', async ({ req, params }) => {
+      const api = networkApi(params);
+      const session = await threadParticipant(api, params.id, req);
+      return api.store.messages.markRead(params.id, session.address);
+    })
+    .add('GET', '/api/:network/messages/unread', ({ req, params }) =>
+      networkApi(params).store.messages.unreadCounts(requireSession(req, verifier).address)
+    )
+    .add('GET', '/api/:network/notifications', ({ req, params }) =>
+      networkApi(params).store.notifications.list(requireSession(req, verifier).address)
+    )
+    .add('POST', '/api/:network/notifications/read', ({ req, params, body }) => {
+      const { ids } = validate(markNotificationsReadBodySchema, body);
+      return networkApi(params).store.notifications.markRead(
+        requireSession(req, verifier).address,
+        ids
+      );
+    })
+    // Expiry is rule-based, so any client may trigger it.
+    .add('GET', '/api/:network/provider-slots', ({ params }) =>
+      networkApi(params).store.whitelistRequests.providerSlotsTaken()
+    )
+    .add('POST', '/api/:network/whitelist-requests/expire', ({ params }) =>
+      networkApi(params).store.whitelistRequests.expireStale()
+    );
+}
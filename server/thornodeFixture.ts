@@ -0,0 +1,46 @@
+import { readFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ThornodeNode } from '../src/lib/thornode';
+import { createRouter, HttpError, sendJson } from './http';
+
+// Serves a fixed set of nodes on the THORNode endpoints the app uses, so the
+// client can be exercised without a live network. Point VITE_THORNODE_URL here.
+
+const port = Number(process.env.PORT ?? 1317);
+const fixtureFile =
+  process.env.FIXTURE_FILE ??
+  path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'thornode-nodes.json');
+
+const nodes = JSON.parse(readFileSync(fixtureFile, 'utf8')) as ThornodeNode[];
+
+const blockHeight = Number(process.env.BLOCK_HEIGHT ?? 18_000_000);
+
+const mimir: Record<string, number> = {
+  MAXBONDPROVIDERS: Number(process.env.MAX_BOND_PROVIDERS ?? 8),
+};
+
+const router = createRouter()
+  .add('GET', '/thorchain/lastblock', async () => [
+    { chain: 'BTC', last_observed_in: 850_000, last_signed_out: 850_000, thorchain: blockHeight },
+  ])
+  .add('GET', '/thorchain/nodes', async () => nodes)
+  .add('GET', '/thorchain/mimir/key/:key', async ({ params }) => mimir[params.key] ?? -1)
+  .add('GET', '/thorchain/node/:address', async ({ params }) => {
+    const node = nodes.find((candidate) => candidate.node_address === params.address);
+    if (!node) throw new HttpError(404, `node ${params.address} not found`);
+    return node;
+  });
+
+const server = createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  router.handle(req, res).catch((error: unknown) => {
+    const status = error instanceof HttpError ? error.status : 500;
+    sendJson(res, status, { error: (error as Error).message });
+  });
+});
+
+server.listen(port, () => {
+  console.log(`THORNode fixture server on http://localhost:${port} (${nodes.length} nodes)`);
+});
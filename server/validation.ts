@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { thorAddressRefinement, ThorAddressPrefix } from '../src/lib/address';
+import { MESSAGE_MAX_LENGTH } from '../src/lib/messages';
+import {
+  ABUSE_REPORT_CATEGORIES,
+  MODERATION_ACTION_KINDS,
+  REPORT_DETAILS_MAX_LENGTH,
+} from '../src/lib/moderation';
+import { TEAM_ROLES } from '../src/lib/team';
+import { checkWebhookUrl, WEBHOOK_EVENTS } from '../src/lib/webhooks';
+import {
+  AbuseReportCategory,
+  ModerationActionKind,
+  TeamRole,
+  WebhookEvent,
+} from '../src/types';
+import { HttpError } from './http';
+
+// Addresses are stored trimmed and lowercased, so the same wallet always compares equal.
+const thorAddress = z.string().trim().toLowerCase().superRefine(thorAddressRefinement());
+
+const teamRole = z.enum(TEAM_ROLES as [TeamRole, ...TeamRole[]]);
+
+/** Input schemas for one network; addresses must carry that network's prefix. */
+export function createInputSchemas(addressPrefix: ThorAddressPrefix) {
+  const networkAddress = z
+    .string()
+    .trim()
+    .toLowerCase()
+    .superRefine(thorAddressRefinement([addressPrefix]));
+
+  return {
+    nodeOperatorInput: z.object({
+      address: networkAddress,
+      operatorAddress: networkAddress,
+      bondingCapacity: z.bigint().positive(),
+      minimumBond: z.bigint().positive(),
+      feePercentage: z.number().min(0).max(100),
+      instantChurnAmount: z.bigint().nonnegative(),
+      maxBondProviders: z.number().int().positive().nullable().default(null),
+      rejectionTemplates: z.array(z.string().trim().min(1).max(200)).max(20).default([]),
+      description: z.string().optional(),
+      contactInfo: z.string().optional(),
+    }),
+    whitelistRequestInput: z.object({
+      nodeOperatorId: z.string().min(1),
+      discordUsername: z.string().min(1),
+      xUsername: z.string().min(1),
+      telegramUsername: z.string().min(1),
+      walletAddress: networkAddress,
+      intendedBondAmount: z.bigint().positive(),
+    }),
+    // The listing comes from the path and the inviter from the session.
+    teamInviteBody: z.object({
+      memberAddress: networkAddress,
+      role: teamRole,
+    }),
+  };
+}
+
+export type InputSchemas = ReturnType<typeof createInputSchemas>;
+
+export const rejectBodySchema = z.object({
+  reason: z.string(),
+  shareWithBonder: z.boolean().default(true),
+});
+
+export const requestActionBodySchema = z.object({
+  kind: z.enum(['whitelist', 'bond', 'unbond', 'remove-provider']),
+  memo: z.string().min(1),
+  amount: z.bigint().nonnegative(),
+  txHash: z.string().min(1).optional(),
+});
+
+// The listing comes from the path, so the body carries only the entry itself.
+export const blocklistEntryBodySchema = z.object({
+  kind: z.enum(['wallet', 'discord', 'x', 'telegram']),
+  value: z.string().trim().min(1),
+  reason: z.string().trim().min(1),
+});
+
+const webhookFields = z.object({
+  url: z.string().trim(),
+  format: z.enum(['json', 'discord', 'telegram']),
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS as [WebhookEvent, ...WebhookEvent[]]))
+    .min(1, 'Choose at least one event'),
+  telegramChatId: z.string().trim().min(1).optional(),
+  enabled: z.boolean().default(true),
+});
+
+/**
+ * Webhook bodies; the listing comes from the path. Updates are merged into the
+ * existing webhook and checked whole, since the rules span fields.
+ */
+export function createWebhookSchemas(allowHttp: boolean) {
+  const webhookInput = webhookFields.superRefine((webhook, ctx) => {
+    const url = checkWebhookUrl(webhook.url, allowHttp);
+    if (!url.valid) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['url'], message: url.reason });
+    if (webhook.format === 'telegram' && !webhook.telegramChatId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['telegramChatId'],
+        message: 'Telegram webhooks need a chat id',
+      });
+    }
+  });
+  return { webhookInput, webhookChanges: webhookFields.partial() };
+}
+
+export const teamRoleBodySchema = z.object({ role: teamRole });
+
+// The listing comes from the path and the reporter from the session.
+export const abuseReportBodySchema = z.object({
+  category: z.enum(ABUSE_REPORT_CATEGORIES as [AbuseReportCategory, ...AbuseReportCategory[]]),
+  details: z.string().trim().min(1).max(REPORT_DETAILS_MAX_LENGTH),
+});
+
+// Every action needs a reason; the moderator comes from the session.
+export const moderationActionBodySchema = z.object({
+  kind: z.enum(MODERATION_ACTION_KINDS as [ModerationActionKind, ...ModerationActionKind[]]),
+  nodeOperatorId: z.string().min(1),
+  reportId: z.string().min(1).optional(),
+  reason: z.string().trim().min(1).max(500),
+});
+
+export const messageBodySchema = z.object({
+  body: z.string().trim().min(1).max(MESSAGE_MAX_LENGTH),
+});
+
+// Without `ids`, every notification is marked read.
+export const markNotificationsReadBodySchema = z
+  .object({ ids: z.array(z.string().min(1)).optional() })
+  .default({});
+
+export const challengeBodySchema = z.object({
+  address: thorAddress,
+});
+
+export const sessionBodySchema = z.object({
+  nonce: z.string().min(1),
+  pubKey: z.string().min(1),
+  signature: z.string().min(1),
+});
+
+export function validate<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, body: unknown): T {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new HttpError(400, `${issue.path.join('.') || 'body'}: ${issue.message}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,52 @@
+import { lookup, LookupAddress } from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import { isIP, LookupFunction } from 'node:net';
+import { isPrivateAddress } from '../src/lib/webhooks';
+
+// Resolves like the default lookup, but fails when any address the name
+// resolves to is local, so webhooks cannot reach into the server's network.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error, '', 0);
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new Error(`${hostname} does not resolve to a public address`), '', 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * A `fetch` for webhook deliveries that only connects to public addresses. The
+ * check runs as the connection is made, so a name cannot resolve to a public
+ * address when the URL is saved and a local one when it is called. Responses
+ * carry their status only; deliveries never read the body.
+ */
+export const publicOnlyFetch: typeof fetch = (input, init) =>
+  new Promise<Response>((resolve, reject) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    // Addresses in the URL itself skip the lookup.
+    if (isIP(url.hostname.replace(/^\[|\]$/g, '')) && isPrivateAddress(url.hostname)) {
+      reject(new Error(`${url.hostname} is not a public address`));
+      return;
+    }
+
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.request(
+      url,
+      {
+        method: init?.method,
+        headers: init?.headers as Record<string, string> | undefined,
+        signal: init?.signal ?? undefined,
+        lookup: publicLookup,
+      },
+      (response) => {
+        response.resume();
+        response.on('end', () => resolve(new Response(null, { status: response.statusCode })));
+        response.on('error', reject);
+      }
+    );
+    request.on('error', reject);
+    request.end(typeof init?.body === 'string' ? init.body : undefined);
+  });
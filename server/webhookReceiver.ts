@@ -0,0 +1,143 @@
+import { createServer, IncomingMessage } from 'node:http';
+import {
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+} from '../src/lib/webhooks';
+import { sendJson } from './http';
+
+// Stands in for webhook endpoints, so deliveries and the Discord and Telegram
+// formatters can be exercised without real bots. Point a webhook at
+//   http://localhost:8788/json      signed JSON; checked against WEBHOOK_SECRET if set
+//   http://localhost:8788/discord   Discord's Execute Webhook
+//   http://localhost:8788/bot<token>/sendMessage   Telegram's Bot API
+// and run the API server with WEBHOOK_ALLOW_HTTP=true. FAIL_FIRST=n answers the
+// first n deliveries with 503 to exercise retries. GET /received lists what
+// arrived.
+
+const port = Number(process.env.PORT ?? 8788);
+const secret = process.env.WEBHOOK_SECRET;
+let failuresLeft = Number(process.env.FAIL_FIRST ?? 0);
+
+interface Received {
+  path: string;
+  kind: 'json' | 'discord' | 'telegram';
+  body: unknown;
+  at: string;
+}
+
+const received: Received[] = [];
+
+async function readRaw(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// The parts of each API's request shape that the real services reject without.
+function checkDiscord(body: unknown): string | null {
+  if (!isObject(body)) return 'body must be an object';
+  const embeds = body.embeds;
+  if (!body.content && !(Array.isArray(embeds) && embeds.length > 0)) {
+    return 'Cannot send an empty message';
+  }
+  if (Array.isArray(embeds) && embeds.length > 10) return 'embeds: at most 10';
+  return null;
+}
+
+function checkTelegram(body: unknown): string | null {
+  if (!isObject(body)) return 'body must be an object';
+  if (!body.chat_id) return 'Bad Request: chat_id is empty';
+  if (typeof body.text !== 'string' || body.text.trim() === '') {
+    return 'Bad Request: message text is empty';
+  }
+  if (body.text.length > 4096) return 'Bad Request: message is too long';
+  return null;
+}
+
+function kindOf(path: string): Received['kind'] | null {
+  if (path === '/json') return 'json';
+  if (path === '/discord') return 'discord';
+  if (/^\/bot[^/]+\/sendMessage$/.test(path)) return 'telegram';
+  return null;
+}
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+  // The browser stores deliver from the page, and signed JSON needs a preflight.
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Methods': 'POST',
+      'Access-Control-Allow-Headers': ['Content-Type', EVENT_HEADER, SIGNATURE_HEADER, TIMESTAMP_HEADER].join(', '),
+    });
+    res.end();
+    return;
+  }
+
+  if (req.method === 'GET' && pathname === '/received') {
+    sendJson(res, 200, received);
+    return;
+  }
+
+  const kind = kindOf(pathname);
+  if (req.method !== 'POST' || !kind) {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  const raw = await readRaw(req);
+  if (failuresLeft > 0) {
+    failuresLeft -= 1;
+    console.log(`${pathname}: failing on purpose (${failuresLeft} more)`);
+    sendJson(res, 503, { error: 'Unavailable' });
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    sendJson(res, 400, { error: 'Body is not JSON' });
+    return;
+  }
+
+  if (kind === 'json' && secret) {
+    const timestamp = String(req.headers[TIMESTAMP_HEADER.toLowerCase()] ?? '');
+    const signature = String(req.headers[SIGNATURE_HEADER.toLowerCase()] ?? '');
+    if (!verifyWebhookSignature(secret, timestamp, raw, signature)) {
+      console.log(`${pathname}: bad signature`);
+      sendJson(res, 401, { error: 'Bad signature' });
+      return;
+    }
+  }
+
+  const problem =
+    kind === 'discord' ? checkDiscord(body) : kind === 'telegram' ? checkTelegram(body) : null;
+  if (problem) {
+    console.log(`${pathname}: ${problem}`);
+    sendJson(res, 400, kind === 'telegram' ? { ok: false, description: problem } : { message: problem });
+    return;
+  }
+
+  received.push({ path: pathname, kind, body, at: new Date().toISOString() });
+  console.log(`${pathname}: received`, JSON.stringify(body));
+
+  // Discord answers 204; Telegram wraps the sent message.
+  if (kind === 'discord') {
+    res.writeHead(204).end();
+  } else if (kind === 'telegram') {
+    sendJson(res, 200, { ok: true, result: { message_id: received.length } });
+  } else {
+    sendJson(res, 200, { received: true });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver on http://localhost:${port}`);
+});
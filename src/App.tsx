@@ -1,172 +1,838 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
-import Layout from './components/layout/Layout';
+import Layout, { ActionError } from './components/layout/Layout';
 import HomePage from './pages/HomePage';
 import NodeOperatorsPage from './pages/NodeOperatorsPage';
 import OperatorDashboardPage from './pages/OperatorDashboardPage';
 import UserRequestsPage from './pages/UserRequestsPage';
-import { NodeOperator, WhitelistRequest, User } from './types';
-import { mockNodeOperators, mockWhitelistRequests, mockUsers } from './lib/mockData';
+import AdminPage from './pages/AdminPage';
+import {
+  AbuseReport,
+  AbuseReportCategory,
+  AuditLogLoader,
+  BlocklistEntry,
+  BlocklistEntryInput,
+  ModerationAction,
+  ModerationActionInput,
+  TeamMember,
+  TeamRole,
+  Webhook,
+  WebhookDelivery,
+  WebhookInput,
+  NodeOperator,
+  NodeOperatorInput,
+  RequestEvent,
+  RequestRejection,
+  WhitelistRequest,
+  User,
+} from './types';
+import { NodeOperatorFormData } from './components/node-operators/NodeOperatorForm';
+import { RequestFormData } from './components/node-operators/WhitelistRequestForm';
+import { createDataStore } from './lib/data';
+import { createThornodeClient, verifyNodeOwnership } from './lib/thornode';
+import { createNodeStatusCache } from './lib/nodeStatus';
+import { parseRune } from './lib/rune';
+import { BondTransaction } from './lib/bond';
+import { canTransition } from './lib/requestLifecycle';
+import { DEFAULT_REJECTION_COOLDOWN_MS } from './lib/requestRules';
+import { hasRole, roleOn } from './lib/team';
+import { isHidden, isModerator, parseModeratorAddresses } from './lib/moderation';
+import { useNodeStatuses } from './hooks/useNodeStatuses';
+import { useMaxBondProviders } from './hooks/useMaxBondProviders';
+import { useRequestMessaging } from './hooks/useRequestMessaging';
+import { useNotifications } from './hooks/useNotifications';
+import { createMaxBondProvidersLookup } from './lib/capacity';
+import { createWalletProviders } from './lib/wallets';
+import {
+  clearSession,
+  createAuthService,
+  loadSession,
+  saveSession,
+  Session,
+} from './lib/auth';
+import { NETWORKS, NetworkConfig, NetworkId } from './lib/networks';
+import {
+  loadNetworkPreference,
+  NetworkContext,
+  saveNetworkPreference,
+} from './lib/networkContext';
+
+const authService = createAuthService();
+
+const rejectionCooldownMs = import.meta.env.VITE_REJECTION_COOLDOWN_DAYS
+  ? Number(import.meta.env.VITE_REJECTION_COOLDOWN_DAYS) * 24 * 60 * 60 * 1000
+  : DEFAULT_REJECTION_COOLDOWN_MS;
+
+const moderators = parseModeratorAddresses(import.meta.env.VITE_MODERATOR_ADDRESSES);
+
+// Everything that talks to a specific network is rebuilt when the network changes.
+const createNetworkServices = (network: NetworkConfig) => {
+  const thornode = createThornodeClient({
+    baseUrl: import.meta.env.VITE_THORNODE_URL ?? network.thornodeUrl,
+  });
+  const maxBondProviders = createMaxBondProvidersLookup(thornode);
+
+  return {
+    dataStore: createDataStore(network, {
+      getAuthToken: () => loadSession(network.id)?.token ?? null,
+      getActor: () => loadSession(network.id)?.address ?? null,
+      maxBondProviders,
+      rejectionCooldownMs,
+    }),
+    thornode,
+    maxBondProviders,
+    nodeStatusCache: createNodeStatusCache(thornode),
+    walletProviders: createWalletProviders(network),
+  };
+};
+
+const toUser = (session: Session): User => ({
+  id: session.address,
+  walletAddress: session.address,
+});
+
+const toNodeOperatorInput = (
+  formData: NodeOperatorFormData,
+  operatorAddress: string
+): NodeOperatorInput => ({
+  address: formData.address,
+  operatorAddress,
+  bondingCapacity: parseRune(formData.bondingCapacity),
+  minimumBond: parseRune(formData.minimumBond),
+  feePercentage: Number(formData.feePercentage),
+  instantChurnAmount: parseRune(formData.instantChurnAmount),
+  maxBondProviders: formData.maxBondProviders ? Number(formData.maxBondProviders) : null,
+  rejectionTemplates: [
+    ...new Set(formData.rejectionTemplates.split('\n').map(line => line.trim()).filter(Boolean)),
+  ],
+  description: formData.description,
+  contactInfo: formData.contactInfo,
+});
 
 const App: React.FC = () => {
   // State
-  const [user, setUser] = useState<User | null>(null);
-  const [nodeOperators, setNodeOperators] = useState<NodeOperator[]>(mockNodeOperators);
-  const [whitelistRequests, setWhitelistRequests] = useState<WhitelistRequest[]>(mockWhitelistRequests);
+  const [networkId, setNetworkId] = useState<NetworkId>(loadNetworkPreference);
+  const network = NETWORKS[networkId];
+  const { dataStore, thornode, maxBondProviders, nodeStatusCache, walletProviders } = useMemo(
+    () => createNetworkServices(network),
+    [network]
+  );
+
+  const [user, setUser] = useState<User | null>(() => {
+    const session = loadSession(networkId);
+    return session ? toUser(session) : null;
+  });
+  const walletAddress = user?.walletAddress;
+  const [walletError, setWalletError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<ActionError | null>(null);
+  // The wallet used to sign in this visit; sessions restored on reload have none.
+  const [activeWalletId, setActiveWalletId] = useState<string | null>(null);
+  const [nodeOperators, setNodeOperators] = useState<NodeOperator[]>([]);
+  const [whitelistRequests, setWhitelistRequests] = useState<WhitelistRequest[]>([]);
+  const [providerSlotsTaken, setProviderSlotsTaken] = useState<Record<string, number>>({});
+  const [blocklist, setBlocklist] = useState<BlocklistEntry[]>([]);
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [webhookDeliveries, setWebhookDeliveries] = useState<WebhookDelivery[]>([]);
+  // The signed-in wallet's teams and invitations, and the selected listing's team.
+  const [memberships, setMemberships] = useState<TeamMember[]>([]);
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
+  // Loaded for moderators only.
+  const [abuseReports, setAbuseReports] = useState<AbuseReport[]>([]);
+  const [moderationLog, setModerationLog] = useState<ModerationAction[]>([]);
+  // The operator's node shown on the dashboard; `null` is the overview across nodes.
+  const [selectedNodeOperatorId, setSelectedNodeOperatorId] = useState<string | null>(null);
+  const nodeStatuses = useNodeStatuses(nodeStatusCache);
+  const networkMaxBondProviders = useMaxBondProviders(maxBondProviders);
+  const { messaging, unreadCounts } = useRequestMessaging(dataStore.messages, user?.walletAddress);
+  const { notifications, markRead: markNotificationsRead } = useNotifications(
+    dataStore.notifications,
+    user?.walletAddress
+  );
+
+  // Requests are only visible to their bonder and listing team, so they reload
+  // with the signed-in wallet; everyone sees the provider slots they take.
+  const loadRequests = useCallback(
+    () =>
+      Promise.all([
+        walletAddress ? dataStore.whitelistRequests.list() : Promise.resolve([]),
+        dataStore.whitelistRequests.providerSlotsTaken(),
+      ]),
+    [dataStore, walletAddress]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setNodeOperators([]);
+    setWhitelistRequests([]);
+
+    // Expiry is best-effort; a failure must not keep the lists from loading.
+    dataStore.whitelistRequests
+      .expireStale()
+      .catch(() => [])
+      .then(() => Promise.all([dataStore.nodeOperators.list(), loadRequests()]))
+      .then(([operators, [requests, slotsTaken]]) => {
+        if (cancelled) return;
+        setNodeOperators(operators);
+        setWhitelistRequests(requests);
+        setProviderSlotsTaken(slotsTaken);
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setActionError({ title: 'Failed to load listings', message: (error as Error).message });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataStore, loadRequests]);
+
+  const replaceRequest = (updated: WhitelistRequest) => {
+    setWhitelistRequests(prev => prev.map(req => (req.id === updated.id ? updated : req)));
+  };
+
+  // Releasing capacity can promote other requests off the waitlist, so changes
+  // that may release it reload the whole list.
+  const reloadRequests = async () => {
+    const [requests, slotsTaken] = await loadRequests();
+    setWhitelistRequests(requests);
+    setProviderSlotsTaken(slotsTaken);
+  };
+
+  const handleNetworkChange = (nextNetworkId: NetworkId) => {
+    saveNetworkPreference(nextNetworkId);
+    setNetworkId(nextNetworkId);
+    setWalletError(null);
+    setActionError(null);
+    setActiveWalletId(null);
+
+    const session = loadSession(nextNetworkId);
+    setUser(session ? toUser(session) : null);
+  };
 
   // Authentication
-  const handleConnect = () => {
-    // In a real app, this would connect to a wallet
-    // For demo purposes, we'll just use the first mock user
-    setUser(mockUsers[0]);
+  const handleConnect = async (walletId: string) => {
+    const provider = walletProviders.find(wallet => wallet.id === walletId);
+    if (!provider) return;
+
+    try {
+      // Connecting only reveals an address; signing the challenge proves ownership.
+      const { address } = await provider.connect();
+      const challenge = await authService.requestChallenge(address);
+      const proof = await provider.signArbitrary(address, challenge.message);
+      const session = await authService.signIn(challenge.nonce, proof);
+
+      saveSession(network.id, session);
+      setWalletError(null);
+      setActiveWalletId(walletId);
+      setUser(toUser(session));
+    } catch (error) {
+      setWalletError((error as Error).message);
+    }
   };
 
   const handleDisconnect = () => {
+    clearSession(network.id);
+    setActiveWalletId(null);
     setUser(null);
   };
 
+  // Bond transactions
+  const activeWallet = walletProviders.find(wallet => wallet.id === activeWalletId);
+  const signDeposit = activeWallet?.deposit?.bind(activeWallet);
+  const handleSignDeposit = signDeposit
+    ? (transaction: BondTransaction) => signDeposit(transaction.msg)
+    : undefined;
+
+  const handleRecordAction = async (
+    requestId: string,
+    transaction: BondTransaction,
+    txHash?: string
+  ) => {
+    // LEAVE concerns the whole node, so it is never recorded against a request.
+    if (transaction.kind === 'leave') return;
+
+    await dataStore.whitelistRequests.recordAction(requestId, {
+      kind: transaction.kind,
+      memo: transaction.memo,
+      amount: transaction.bondAmount,
+      txHash,
+    });
+    await reloadRequests();
+  };
+
+  const handleConfirmWithdrawal = async (requestId: string) => {
+    if (!canApplyEvent(requestId, 'withdraw')) return;
+    await dataStore.whitelistRequests.confirmWithdrawal(requestId);
+    await reloadRequests();
+  };
+
   // Node Operator functions
-  const handleCreateListing = (formData: any) => {
-    if (!user) return;
+  // Edits are checked against the listing's operator wallet, since managers edit on its behalf.
+  const handleVerifyNodeAddress = async (address: string, nodeOperatorId?: string) => {
+    if (!user) return 'Connect your wallet to verify node ownership';
 
-    const newOperator: NodeOperator = {
-      id: Date.now().toString(),
-      address: formData.address,
-      bondingCapacity: Number(formData.bondingCapacity),
-      minimumBond: Number(formData.minimumBond),
-      feePercentage: Number(formData.feePercentage),
-      instantChurnAmount: Number(formData.instantChurnAmount),
-      description: formData.description,
-      contactInfo: formData.contactInfo,
-      createdAt: new Date(),
-    };
+    const existing = nodeOperatorId
+      ? userNodeOperators.find(op => op.id === nodeOperatorId)
+      : undefined;
+    if (existing?.address === address) return null;
 
-    setNodeOperators([...nodeOperators, newOperator]);
+    const verification = await verifyNodeOwnership(
+      thornode,
+      address,
+      existing?.operatorAddress ?? user.walletAddress
+    );
+    return verification.ok ? null : verification.message;
   };
 
-  const handleUpdateListing = (formData: any) => {
+  // Handlers the pages fire without awaiting report failures above the page;
+  // the next action clears them.
+  const reportingFailure =
+    <A extends unknown[]>(title: string, action: (...args: A) => Promise<void>) =>
+    async (...args: A) => {
+      setActionError(null);
+      try {
+        await action(...args);
+      } catch (error) {
+        setActionError({ title, message: (error as Error).message });
+      }
+    };
+
+  const handleCreateListing = async (formData: NodeOperatorFormData) => {
     if (!user) return;
 
-    setNodeOperators(
-      nodeOperators.map(op => 
-        op.address === user.walletAddress
-          ? {
-              ...op,
-              address: formData.address,
-              bondingCapacity: Number(formData.bondingCapacity),
-              minimumBond: Number(formData.minimumBond),
-              feePercentage: Number(formData.feePercentage),
-              instantChurnAmount: Number(formData.instantChurnAmount),
-              description: formData.description,
-              contactInfo: formData.contactInfo,
-            }
-          : op
-      )
+    const created = await dataStore.nodeOperators.create(
+      toNodeOperatorInput(formData, user.walletAddress)
     );
+    setNodeOperators(prev => [...prev, created]);
+    setSelectedNodeOperatorId(created.id);
   };
 
-  const handleDeleteListing = () => {
-    if (!user) return;
+  const handleUpdateListing = async (nodeOperatorId: string, formData: NodeOperatorFormData) => {
+    const existing = userNodeOperators.find(op => op.id === nodeOperatorId);
+    if (!existing || !hasListingRole(existing.id, 'manager')) return;
 
-    setNodeOperators(nodeOperators.filter(op => op.address !== user.walletAddress));
+    // Managers edit on the operator wallet's behalf, so the listing keeps its operator.
+    const updated = await dataStore.nodeOperators.update(
+      existing.id,
+      toNodeOperatorInput(formData, existing.operatorAddress)
+    );
+    setNodeOperators(prev => prev.map(op => (op.id === updated.id ? updated : op)));
+    await reloadRequests();
   };
 
+  const handleDeleteListing = reportingFailure(
+    'Listing not deleted',
+    async (nodeOperatorId: string) => {
+      const existing = userNodeOperators.find(op => op.id === nodeOperatorId);
+      if (!existing || !hasListingRole(existing.id, 'owner')) return;
+
+      await dataStore.nodeOperators.remove(existing.id);
+      setNodeOperators(prev => prev.filter(op => op.id !== existing.id));
+      setSelectedNodeOperatorId(null);
+    }
+  );
+
   // Whitelist request functions
-  const handleRequestWhitelist = (nodeOperatorId: string, formData: any) => {
+  const handleRequestWhitelist = async (nodeOperatorId: string, formData: RequestFormData) => {
     if (!user) return;
 
-    const newRequest: WhitelistRequest = {
-      id: Date.now().toString(),
+    const created = await dataStore.whitelistRequests.create({
       nodeOperatorId,
       discordUsername: formData.discordUsername,
       xUsername: formData.xUsername,
       telegramUsername: formData.telegramUsername,
-      walletAddress: formData.walletAddress,
-      intendedBondAmount: Number(formData.intendedBondAmount),
-      status: 'pending',
-      createdAt: new Date(),
-    };
-
-    setWhitelistRequests([...whitelistRequests, newRequest]);
+      walletAddress: user.walletAddress,
+      intendedBondAmount: parseRune(formData.intendedBondAmount),
+    });
+    setWhitelistRequests(prev => [...prev, created]);
   };
 
-  const handleApproveRequest = (requestId: string) => {
-    setWhitelistRequests(
-      whitelistRequests.map(req =>
-        req.id === requestId ? { ...req, status: 'approved' } : req
-      )
+  const handleEditRequest = async (requestId: string, formData: RequestFormData) => {
+    replaceRequest(
+      await dataStore.whitelistRequests.update(requestId, {
+        discordUsername: formData.discordUsername,
+        xUsername: formData.xUsername,
+        telegramUsername: formData.telegramUsername,
+        intendedBondAmount: parseRune(formData.intendedBondAmount),
+      })
     );
   };
 
-  const handleRejectRequest = (requestId: string, reason: string) => {
-    setWhitelistRequests(
-      whitelistRequests.map(req =>
-        req.id === requestId ? { ...req, status: 'rejected', rejectionReason: reason } : req
-      )
+  const handleCancelRequest = reportingFailure(
+    'Request not cancelled',
+    async (requestId: string) => {
+      if (!canApplyEvent(requestId, 'cancel')) return;
+      await dataStore.whitelistRequests.cancel(requestId);
+      await reloadRequests();
+    }
+  );
+
+  // Stale buttons (e.g. a request that expired since the list loaded) are ignored
+  // here; the repository enforces the same lifecycle rules.
+  const canApplyEvent = (requestId: string, event: RequestEvent) => {
+    const request = whitelistRequests.find(req => req.id === requestId);
+    return !!request && canTransition(request.status, event);
+  };
+
+  // Approving and rejecting needs the manager role on the request's listing.
+  const canDecide = (requestId: string, event: RequestEvent) => {
+    const request = whitelistRequests.find(req => req.id === requestId);
+    return (
+      !!request &&
+      canTransition(request.status, event) &&
+      hasListingRole(request.nodeOperatorId, 'manager')
     );
   };
 
+  const handleApproveRequest = reportingFailure(
+    'Request not approved',
+    async (requestId: string) => {
+      if (!canDecide(requestId, 'approve')) return;
+      // Approving takes a provider slot, so the public counts reload too.
+      await dataStore.whitelistRequests.approve(requestId);
+      await reloadRequests();
+    }
+  );
+
+  const handleRejectRequest = reportingFailure(
+    'Request not rejected',
+    async (requestId: string, rejection: RequestRejection) => {
+      if (!canDecide(requestId, 'reject')) return;
+      await dataStore.whitelistRequests.reject(requestId, rejection);
+      await reloadRequests();
+    }
+  );
+
+  // Bulk triage runs one request at a time, in the order given, so each approval
+  // sees the capacity taken by the ones before it. A failure stops the batch, and
+  // the list reloads to show what was done.
+  const handleApproveRequests = reportingFailure(
+    'Not every request was approved',
+    async (requestIds: string[]) => {
+      try {
+        for (const requestId of requestIds) {
+          if (canDecide(requestId, 'approve')) {
+            await dataStore.whitelistRequests.approve(requestId);
+          }
+        }
+      } finally {
+        await reloadRequests();
+      }
+    }
+  );
+
+  const handleRejectRequests = reportingFailure(
+    'Not every request was rejected',
+    async (requestIds: string[], rejection: RequestRejection) => {
+      try {
+        for (const requestId of requestIds) {
+          if (canDecide(requestId, 'reject')) {
+            await dataStore.whitelistRequests.reject(requestId, rejection);
+          }
+        }
+      } finally {
+        await reloadRequests();
+      }
+    }
+  );
+
   // Filter data based on user
-  const userNodeOperator = user?.isNodeOperator
-    ? nodeOperators.find(op => op.address === user.walletAddress) || null
-    : null;
+  const nodeRoles: Record<string, TeamRole> = {};
+  for (const op of nodeOperators) {
+    const role = user ? roleOn(user.walletAddress, op, memberships) : null;
+    if (role) nodeRoles[op.id] = role;
+  }
+  const hasListingRole = (nodeOperatorId: string, required: TeamRole) =>
+    hasRole(nodeRoles[nodeOperatorId], required);
 
-  const operatorRequests = userNodeOperator
-    ? whitelistRequests.filter(req => req.nodeOperatorId === userNodeOperator.id)
-    : [];
+  const userNodeOperators = nodeOperators.filter(op => op.id in nodeRoles);
+
+  // With a single node there is nothing to aggregate, so it is always selected.
+  const selectedNodeOperator =
+    userNodeOperators.length === 1
+      ? userNodeOperators[0]
+      : userNodeOperators.find(op => op.id === selectedNodeOperatorId) ?? null;
+
+  const userNodeOperatorIds = new Set(userNodeOperators.map(op => op.id));
+  const operatorRequests = whitelistRequests.filter(req =>
+    userNodeOperatorIds.has(req.nodeOperatorId)
+  );
 
   const userRequests = user
     ? whitelistRequests.filter(req => req.walletAddress === user.walletAddress)
     : [];
 
+  const invitations = memberships.flatMap(member => {
+    const nodeOperator = nodeOperators.find(op => op.id === member.nodeOperatorId);
+    const pending = member.joinedAt === null && member.memberAddress === user?.walletAddress;
+    return pending && nodeOperator ? [{ member, nodeOperator }] : [];
+  });
+
+  // Invitations arrive as notifications, so each new one reloads the memberships.
+  const teamInviteCount = notifications.filter(item => item.type === 'team-invite').length;
+  useEffect(() => {
+    if (!walletAddress) {
+      setMemberships([]);
+      return;
+    }
+
+    let cancelled = false;
+    dataStore.team
+      .memberships(walletAddress)
+      .then((loaded) => {
+        if (!cancelled) setMemberships(loaded);
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) setActionError({ title: 'Team invitations not loaded', message: (error as Error).message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataStore, walletAddress, teamInviteCount]);
+
+  // The dashboard shows the selected node's team, blocklist and webhooks, as far as the role allows.
+  const userNodeOperatorId = selectedNodeOperator?.id;
+  const selectedRole = userNodeOperatorId ? nodeRoles[userNodeOperatorId] : undefined;
+  const canManageSelected = hasRole(selectedRole, 'manager');
+  const ownsSelected = hasRole(selectedRole, 'owner');
+
+  useEffect(() => {
+    setTeamMembers([]);
+    if (!userNodeOperatorId) return;
+
+    let cancelled = false;
+    dataStore.team
+      .list(userNodeOperatorId)
+      .then((loaded) => {
+        if (!cancelled) setTeamMembers(loaded);
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) setActionError({ title: 'Team not loaded', message: (error as Error).message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataStore, userNodeOperatorId]);
+
+  useEffect(() => {
+    setBlocklist([]);
+    if (!userNodeOperatorId || !canManageSelected) return;
+
+    let cancelled = false;
+    dataStore.blocklist
+      .list(userNodeOperatorId)
+      .then((entries) => {
+        if (!cancelled) setBlocklist(entries);
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) setActionError({ title: 'Blocklist not loaded', message: (error as Error).message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataStore, userNodeOperatorId, canManageSelected]);
+
+  const handleAddBlocklistEntry = async (entry: Omit<BlocklistEntryInput, 'nodeOperatorId'>) => {
+    if (!userNodeOperatorId || !canManageSelected) return;
+    const added = await dataStore.blocklist.add({ ...entry, nodeOperatorId: userNodeOperatorId });
+    setBlocklist(prev => [...prev, added]);
+  };
+
+  const handleRemoveBlocklistEntry = async (entryId: string) => {
+    if (!userNodeOperatorId || !canManageSelected) return;
+    await dataStore.blocklist.remove(userNodeOperatorId, entryId);
+    setBlocklist(prev => prev.filter(entry => entry.id !== entryId));
+  };
+
+  const handleMarkNotificationsRead = (ids?: string[]) => {
+    markNotificationsRead(ids).catch((error: unknown) => {
+      console.warn('Failed to mark notifications as read', error);
+    });
+  };
+
+  // Webhooks carry their signing secret, so only the listing's owners load them.
+  useEffect(() => {
+    setWebhooks([]);
+    setWebhookDeliveries([]);
+    if (!userNodeOperatorId || !ownsSelected) return;
+
+    let cancelled = false;
+    Promise.all([
+      dataStore.webhooks.list(userNodeOperatorId),
+      dataStore.webhooks.deliveries(userNodeOperatorId),
+    ])
+      .then(([loaded, deliveries]) => {
+        if (cancelled) return;
+        setWebhooks(loaded);
+        setWebhookDeliveries(deliveries);
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) setActionError({ title: 'Webhooks not loaded', message: (error as Error).message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataStore, userNodeOperatorId, ownsSelected]);
+
+  const handleAddWebhook = async (webhook: Omit<WebhookInput, 'nodeOperatorId'>) => {
+    if (!userNodeOperatorId || !ownsSelected) return;
+    const added = await dataStore.webhooks.create({ ...webhook, nodeOperatorId: userNodeOperatorId });
+    setWebhooks(prev => [...prev, added]);
+  };
+
+  const handleSetWebhookEnabled = async (webhookId: string, enabled: boolean) => {
+    if (!userNodeOperatorId || !ownsSelected) return;
+    const updated = await dataStore.webhooks.update(userNodeOperatorId, webhookId, { enabled });
+    setWebhooks(prev => prev.map(webhook => (webhook.id === updated.id ? updated : webhook)));
+  };
+
+  const handleRemoveWebhook = async (webhookId: string) => {
+    if (!userNodeOperatorId || !ownsSelected) return;
+    await dataStore.webhooks.remove(userNodeOperatorId, webhookId);
+    setWebhooks(prev => prev.filter(webhook => webhook.id !== webhookId));
+    setWebhookDeliveries(prev => prev.filter(delivery => delivery.webhookId !== webhookId));
+  };
+
+  // Deliveries finish in the background, so the log is refreshed on demand.
+  const handleRefreshWebhookDeliveries = async () => {
+    if (!userNodeOperatorId || !ownsSelected) return;
+    setWebhookDeliveries(await dataStore.webhooks.deliveries(userNodeOperatorId));
+  };
+
+  const handleInviteTeamMember = async (memberAddress: string, role: TeamRole) => {
+    if (!user || !userNodeOperatorId || !ownsSelected) return;
+    const invited = await dataStore.team.invite({
+      nodeOperatorId: userNodeOperatorId,
+      memberAddress,
+      role,
+      invitedBy: user.walletAddress,
+    });
+    setTeamMembers(prev => [...prev, invited]);
+  };
+
+  const handleSetTeamRole = async (memberId: string, role: TeamRole) => {
+    if (!userNodeOperatorId || !ownsSelected) return;
+    const updated = await dataStore.team.setRole(userNodeOperatorId, memberId, role);
+    setTeamMembers(prev => prev.map(member => (member.id === updated.id ? updated : member)));
+  };
+
+  // Owners remove anyone; everyone else can only leave.
+  const handleRemoveTeamMember = async (memberId: string) => {
+    if (!userNodeOperatorId) return;
+    const member = teamMembers.find(item => item.id === memberId);
+    if (!member || (!ownsSelected && member.memberAddress !== walletAddress)) return;
+
+    await dataStore.team.remove(userNodeOperatorId, memberId);
+    setTeamMembers(prev => prev.filter(item => item.id !== memberId));
+    setMemberships(prev => prev.filter(item => item.id !== memberId));
+    // Leaving a team hides its listing's requests.
+    if (member.memberAddress === walletAddress) await reloadRequests();
+  };
+
+  const handleAcceptInvitation = reportingFailure(
+    'Invitation not accepted',
+    async (member: TeamMember) => {
+      const accepted = await dataStore.team.accept(member.nodeOperatorId, member.id);
+      setMemberships(prev => prev.map(item => (item.id === accepted.id ? accepted : item)));
+      setSelectedNodeOperatorId(accepted.nodeOperatorId);
+      // Joining a team shows its listing's requests.
+      await reloadRequests();
+    }
+  );
+
+  const handleDeclineInvitation = reportingFailure(
+    'Invitation not declined',
+    async (member: TeamMember) => {
+      await dataStore.team.remove(member.nodeOperatorId, member.id);
+      setMemberships(prev => prev.filter(item => item.id !== member.id));
+    }
+  );
+
+  // Moderation
+  const userIsModerator = isModerator(walletAddress, moderators);
+  const publicNodeOperators = nodeOperators.filter(op => !isHidden(op));
+
+  useEffect(() => {
+    setAbuseReports([]);
+    setModerationLog([]);
+    if (!userIsModerator) return;
+
+    let cancelled = false;
+    Promise.all([dataStore.moderation.reports(), dataStore.moderation.log()])
+      .then(([reports, log]) => {
+        if (cancelled) return;
+        setAbuseReports(reports);
+        setModerationLog(log);
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) setActionError({ title: 'Moderation data not loaded', message: (error as Error).message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataStore, userIsModerator]);
+
+  const handleReportListing = async (
+    nodeOperatorId: string,
+    category: AbuseReportCategory,
+    details: string
+  ) => {
+    if (!user) return;
+    const report = await dataStore.moderation.report({
+      nodeOperatorId,
+      reporterAddress: user.walletAddress,
+      category,
+      details,
+    });
+    if (userIsModerator) setAbuseReports(prev => [report, ...prev]);
+  };
+
+  // Hiding or verifying changes the listing, so listings are reloaded with the reports and log.
+  const handleModerate = async (action: Omit<ModerationActionInput, 'moderatorAddress'>) => {
+    if (!user || !userIsModerator) return;
+    await dataStore.moderation.act({ ...action, moderatorAddress: user.walletAddress });
+    const [operators, reports, log] = await Promise.all([
+      dataStore.nodeOperators.list(),
+      dataStore.moderation.reports(),
+      dataStore.moderation.log(),
+    ]);
+    setNodeOperators(operators);
+    setAbuseReports(reports);
+    setModerationLog(log);
+  };
+
+  // Stable per store, so open timelines only reload when the network changes.
+  const loadAuditLog = useCallback<AuditLogLoader>(
+    (subjectType, subjectId) => dataStore.auditLog.list(subjectType, subjectId),
+    [dataStore]
+  );
+
   return (
-    <Router>
-      <Layout
-        isAuthenticated={!!user}
-        isNodeOperator={!!userNodeOperator}
-        onConnect={handleConnect}
-        onDisconnect={handleDisconnect}
-      >
-        <Routes>
-          <Route path="/" element={<HomePage />} />
-          <Route
-            path="/node-operators"
-            element={
-              <NodeOperatorsPage
-                nodeOperators={nodeOperators}
-                isAuthenticated={!!user}
-                onRequestWhitelist={handleRequestWhitelist}
-              />
-            }
-          />
-          <Route
-            path="/operator-dashboard"
-            element={
-              <OperatorDashboardPage
-                nodeOperator={userNodeOperator}
-                requests={operatorRequests}
-                isAuthenticated={!!user}
-                isNodeOperator={!!userNodeOperator}
-                onCreateListing={handleCreateListing}
-                onUpdateListing={handleUpdateListing}
-                onDeleteListing={handleDeleteListing}
-                onApproveRequest={handleApproveRequest}
-                onRejectRequest={handleRejectRequest}
-              />
-            }
-          />
-          <Route
-            path="/my-requests"
-            element={
-              <UserRequestsPage
-                requests={userRequests}
-                isAuthenticated={!!user}
-              />
-            }
-          />
-        </Routes>
-      </Layout>
-    </Router>
+    <NetworkContext.Provider value={network}>
+      <Router>
+        <Layout
+          isAuthenticated={!!user}
+          isNodeOperator={userNodeOperators.length > 0 || invitations.length > 0}
+          isModerator={userIsModerator}
+          walletAddress={user?.walletAddress}
+          wallets={walletProviders}
+          walletError={walletError}
+          actionError={actionError}
+          notifications={notifications}
+          onMarkNotificationsRead={handleMarkNotificationsRead}
+          onNetworkChange={handleNetworkChange}
+          onConnect={handleConnect}
+          onDisconnect={handleDisconnect}
+        >
+          <Routes>
+            <Route path="/" element={<HomePage />} />
+            <Route
+              path="/node-operators"
+              element={
+                <NodeOperatorsPage
+                  nodeOperators={publicNodeOperators}
+                  nodeStatuses={nodeStatuses}
+                  requests={userRequests}
+                  providerSlotsTaken={providerSlotsTaken}
+                  networkMaxBondProviders={networkMaxBondProviders}
+                  rejectionCooldownMs={rejectionCooldownMs}
+                  isAuthenticated={!!user}
+                  walletAddress={user?.walletAddress}
+                  onRequestWhitelist={handleRequestWhitelist}
+                  onReportListing={handleReportListing}
+                  loadAuditLog={loadAuditLog}
+                />
+              }
+            />
+            <Route
+              path="/operator-dashboard"
+              element={
+                <OperatorDashboardPage
+                  nodeOperators={userNodeOperators}
+                  roles={nodeRoles}
+                  selectedNodeOperator={selectedNodeOperator}
+                  nodeStatuses={nodeStatuses}
+                  requests={operatorRequests}
+                  networkMaxBondProviders={networkMaxBondProviders}
+                  blocklist={blocklist}
+                  webhooks={webhooks}
+                  webhookDeliveries={webhookDeliveries}
+                  isAuthenticated={!!user}
+                  walletAddress={user?.walletAddress}
+                  teamMembers={teamMembers}
+                  invitations={invitations}
+                  onSelectNodeOperator={setSelectedNodeOperatorId}
+                  onVerifyNodeAddress={handleVerifyNodeAddress}
+                  onCreateListing={handleCreateListing}
+                  onUpdateListing={handleUpdateListing}
+                  onDeleteListing={handleDeleteListing}
+                  onApproveRequest={handleApproveRequest}
+                  onRejectRequest={handleRejectRequest}
+                  onApproveRequests={handleApproveRequests}
+                  onRejectRequests={handleRejectRequests}
+                  onSignDeposit={handleSignDeposit}
+                  onRecordAction={handleRecordAction}
+                  onAddBlocklistEntry={handleAddBlocklistEntry}
+                  onRemoveBlocklistEntry={handleRemoveBlocklistEntry}
+                  onAddWebhook={handleAddWebhook}
+                  onSetWebhookEnabled={handleSetWebhookEnabled}
+                  onRemoveWebhook={handleRemoveWebhook}
+                  onRefreshWebhookDeliveries={handleRefreshWebhookDeliveries}
+                  onInviteTeamMember={handleInviteTeamMember}
+                  onSetTeamRole={handleSetTeamRole}
+                  onRemoveTeamMember={handleRemoveTeamMember}
+                  onAcceptInvitation={handleAcceptInvitation}
+                  onDeclineInvitation={handleDeclineInvitation}
+                  loadAuditLog={loadAuditLog}
+                  messaging={messaging}
+                  unreadCounts={unreadCounts}
+                />
+              }
+            />
+            <Route
+              path="/my-requests"
+              element={
+                <UserRequestsPage
+                  requests={userRequests}
+                  nodeOperators={nodeOperators}
+                  nodeStatuses={nodeStatuses}
+                  isAuthenticated={!!user}
+                  onSignDeposit={handleSignDeposit}
+                  onRecordAction={handleRecordAction}
+                  onConfirmWithdrawal={handleConfirmWithdrawal}
+                  onEditRequest={handleEditRequest}
+                  onCancelRequest={handleCancelRequest}
+                  loadAuditLog={loadAuditLog}
+                  messaging={messaging}
+                  unreadCounts={unreadCounts}
+                />
+              }
+            />
+            <Route
+              path="/admin"
+              element={
+                <AdminPage
+                  isAuthenticated={!!user}
+                  isModerator={userIsModerator}
+                  nodeOperators={nodeOperators}
+                  requests={whitelistRequests}
+                  reports={abuseReports}
+                  actions={moderationLog}
+                  onModerate={handleModerate}
+                  loadAuditLog={loadAuditLog}
+                />
+              }
+            />
+          </Routes>
+        </Layout>
+      </Router>
+    </NetworkContext.Provider>
   );
 };
 
@@ -0,0 +1,109 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { EyeOff, X } from 'lucide-react';
+import Badge from '../ui/Badge';
+import Button from '../ui/Button';
+import AddressLink from '../ui/AddressLink';
+import { AbuseReport, AbuseReportStatus, NodeOperator } from '../../types';
+import { ABUSE_REPORT_CATEGORY_LABELS, isHidden } from '../../lib/moderation';
+import { PendingModeration } from './ModerationActionDialog';
+
+interface AbuseReportListProps {
+  reports: AbuseReport[];
+  nodeOperators: NodeOperator[];
+  onModerate: (pending: PendingModeration) => void;
+}
+
+const STATUS_BADGES: Record<AbuseReportStatus, { label: string; variant: 'warning' | 'success' | 'default' }> = {
+  open: { label: 'Open', variant: 'warning' },
+  actioned: { label: 'Actioned', variant: 'success' },
+  dismissed: { label: 'Dismissed', variant: 'default' },
+};
+
+const AbuseReportList: React.FC<AbuseReportListProps> = ({ reports, nodeOperators, onModerate }) => {
+  if (reports.length === 0) {
+    return <p className="py-6 text-center text-sm text-gray-500">No reports have been filed.</p>;
+  }
+
+  // Open reports come first; each group stays newest first.
+  const sorted = [...reports].sort(
+    (a, b) => Number(b.status === 'open') - Number(a.status === 'open')
+  );
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {sorted.map((report) => {
+        const nodeOperator = nodeOperators.find((op) => op.id === report.nodeOperatorId);
+        const status = STATUS_BADGES[report.status];
+        return (
+          <li key={report.id} className="py-4 flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-gray-900 flex items-center">
+                <Badge variant="danger" className="mr-2">
+                  {ABUSE_REPORT_CATEGORY_LABELS[report.category]}
+                </Badge>
+                {nodeOperator ? (
+                  <>
+                    Node <AddressLink address={nodeOperator.address} className="ml-1" />
+                    {isHidden(nodeOperator) && (
+                      <Badge className="ml-2">Hidden</Badge>
+                    )}
+                  </>
+                ) : (
+                  <span className="text-gray-500">Deleted listing</span>
+                )}
+                <Badge variant={status.variant} className="ml-2">
+                  {status.label}
+                </Badge>
+              </p>
+              <p className="text-sm text-gray-700 whitespace-pre-line">{report.details}</p>
+              <p className="text-xs text-gray-500">
+                From <AddressLink address={report.reporterAddress} /> on{' '}
+                {format(report.createdAt, 'MMM d, yyyy HH:mm')}
+                {report.resolvedAt && ` · closed ${format(report.resolvedAt, 'MMM d, yyyy')}`}
+              </p>
+            </div>
+            {report.status === 'open' && (
+              <div className="flex flex-shrink-0 space-x-2">
+                {nodeOperator && (
+                  <Button
+                    variant="danger"
+                    size="sm"
+                    onClick={() =>
+                      onModerate({
+                        kind: 'hide',
+                        nodeOperatorId: nodeOperator.id,
+                        nodeAddress: nodeOperator.address,
+                        report,
+                      })
+                    }
+                  >
+                    <EyeOff className="h-4 w-4 mr-1" />
+                    {isHidden(nodeOperator) ? 'Keep Hidden' : 'Hide Listing'}
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    onModerate({
+                      kind: 'dismiss-report',
+                      nodeOperatorId: report.nodeOperatorId,
+                      nodeAddress: nodeOperator?.address,
+                      report,
+                    })
+                  }
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Dismiss
+                </Button>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default AbuseReportList;
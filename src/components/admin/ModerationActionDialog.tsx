@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Alert from '../ui/Alert';
+import { AbuseReport, ModerationActionKind } from '../../types';
+import { MODERATION_ACTION_LABELS } from '../../lib/moderation';
+import { shortenAddress } from '../../lib/utils';
+
+/** An action a moderator picked, waiting for its reason. */
+export interface PendingModeration {
+  kind: ModerationActionKind;
+  nodeOperatorId: string;
+  /** Unset when the listing was deleted after it was reported. */
+  nodeAddress?: string;
+  report?: AbuseReport;
+}
+
+interface ModerationActionDialogProps {
+  pending: PendingModeration;
+  onConfirm: (reason: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const CONFIRM_LABELS: Record<ModerationActionKind, string> = {
+  hide: 'Hide Listing',
+  unhide: 'Restore Listing',
+  verify: 'Verify Listing',
+  unverify: 'Remove Verification',
+  'dismiss-report': 'Dismiss Report',
+};
+
+const ModerationActionDialog: React.FC<ModerationActionDialogProps> = ({
+  pending,
+  onConfirm,
+  onClose,
+}) => {
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { kind, nodeAddress, report } = pending;
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onConfirm(reason.trim());
+      onClose();
+    } catch (confirmError) {
+      setError((confirmError as Error).message);
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen
+      title={CONFIRM_LABELS[kind]}
+      onClose={onClose}
+      footer={
+        <>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant={kind === 'hide' ? 'danger' : 'primary'}
+            disabled={!reason.trim() || isSaving}
+            onClick={handleConfirm}
+          >
+            {CONFIRM_LABELS[kind]}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          {MODERATION_ACTION_LABELS[kind]} for{' '}
+          {nodeAddress ? `node ${shortenAddress(nodeAddress)}` : 'a deleted listing'}
+          {report && kind !== 'dismiss-report' && ', closing the report it was taken on'}. The
+          reason is kept in the moderation log with your wallet address.
+        </p>
+
+        {error && (
+          <Alert variant="error" title="Action not taken">
+            {error}
+          </Alert>
+        )}
+
+        <div>
+          <label htmlFor="moderation-reason" className="block text-sm font-medium text-gray-700 mb-1">
+            Reason
+          </label>
+          <textarea
+            id="moderation-reason"
+            rows={3}
+            maxLength={500}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ModerationActionDialog;
@@ -0,0 +1,119 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { BadgeCheck, Eye, EyeOff } from 'lucide-react';
+import Badge from '../ui/Badge';
+import Button from '../ui/Button';
+import AddressLink from '../ui/AddressLink';
+import { AbuseReport, NodeOperator, WhitelistRequest } from '../../types';
+import { isHidden, isVerified } from '../../lib/moderation';
+import { PendingModeration } from './ModerationActionDialog';
+
+interface ModerationListingTableProps {
+  nodeOperators: NodeOperator[];
+  requests: WhitelistRequest[];
+  reports: AbuseReport[];
+  onModerate: (pending: PendingModeration) => void;
+}
+
+const headerClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+const ModerationListingTable: React.FC<ModerationListingTableProps> = ({
+  nodeOperators,
+  requests,
+  reports,
+  onModerate,
+}) => {
+  if (nodeOperators.length === 0) {
+    return <p className="py-6 text-center text-sm text-gray-500">No listings on this network.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th scope="col" className={headerClass}>
+              Node
+            </th>
+            <th scope="col" className={headerClass}>
+              Operator
+            </th>
+            <th scope="col" className={headerClass}>
+              Status
+            </th>
+            <th scope="col" className={headerClass}>
+              Open Reports
+            </th>
+            <th scope="col" className={headerClass}>
+              Requests
+            </th>
+            <th scope="col" className={headerClass}>
+              Listed
+            </th>
+            <th scope="col" className="px-6 py-3" />
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {nodeOperators.map((op) => {
+            const openReports = reports.filter(
+              (report) => report.nodeOperatorId === op.id && report.status === 'open'
+            ).length;
+            const requestCount = requests.filter((req) => req.nodeOperatorId === op.id).length;
+            const target = { nodeOperatorId: op.id, nodeAddress: op.address };
+            return (
+              <tr key={op.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  <AddressLink address={op.address} />
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  <AddressLink address={op.operatorAddress} />
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm space-x-1">
+                  {isHidden(op) ? <Badge variant="danger">Hidden</Badge> : <Badge>Public</Badge>}
+                  {isVerified(op) && <Badge variant="success">Verified</Badge>}
+                </td>
+                <td
+                  className={`px-6 py-4 whitespace-nowrap text-sm ${
+                    openReports > 0 ? 'font-medium text-red-600' : 'text-gray-500'
+                  }`}
+                >
+                  {openReports}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{requestCount}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {format(op.createdAt, 'MMM d, yyyy')}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      onModerate({ ...target, kind: isVerified(op) ? 'unverify' : 'verify' })
+                    }
+                  >
+                    <BadgeCheck className="h-4 w-4 mr-1" />
+                    {isVerified(op) ? 'Unverify' : 'Verify'}
+                  </Button>
+                  <Button
+                    variant={isHidden(op) ? 'outline' : 'danger'}
+                    size="sm"
+                    onClick={() => onModerate({ ...target, kind: isHidden(op) ? 'unhide' : 'hide' })}
+                  >
+                    {isHidden(op) ? (
+                      <Eye className="h-4 w-4 mr-1" />
+                    ) : (
+                      <EyeOff className="h-4 w-4 mr-1" />
+                    )}
+                    {isHidden(op) ? 'Restore' : 'Hide'}
+                  </Button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ModerationListingTable;
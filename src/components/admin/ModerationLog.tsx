@@ -0,0 +1,47 @@
+import React from 'react';
+import { format } from 'date-fns';
+import AddressLink from '../ui/AddressLink';
+import { ModerationAction, NodeOperator } from '../../types';
+import { MODERATION_ACTION_LABELS } from '../../lib/moderation';
+
+interface ModerationLogProps {
+  actions: ModerationAction[];
+  nodeOperators: NodeOperator[];
+}
+
+const ModerationLog: React.FC<ModerationLogProps> = ({ actions, nodeOperators }) => {
+  if (actions.length === 0) {
+    return <p className="py-6 text-center text-sm text-gray-500">No moderation actions yet.</p>;
+  }
+
+  return (
+    <ol className="divide-y divide-gray-200">
+      {actions.map((action) => {
+        const nodeOperator = nodeOperators.find((op) => op.id === action.nodeOperatorId);
+        return (
+          <li key={action.id} className="py-3">
+            <p className="text-sm text-gray-900">
+              <span className="font-medium">{MODERATION_ACTION_LABELS[action.kind]}</span>
+              {nodeOperator ? (
+                <>
+                  {' '}
+                  for node <AddressLink address={nodeOperator.address} />
+                </>
+              ) : (
+                ' for a deleted listing'
+              )}
+              {action.reportId && <span className="text-gray-500"> (on a report)</span>}
+            </p>
+            <p className="text-sm text-gray-700">“{action.reason}”</p>
+            <p className="text-xs text-gray-500">
+              <AddressLink address={action.moderatorAddress} /> ·{' '}
+              {format(action.at, 'MMM d, yyyy HH:mm')}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default ModerationLog;
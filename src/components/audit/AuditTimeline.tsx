@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Download } from 'lucide-react';
+import AddressLink from '../ui/AddressLink';
+import Button from '../ui/Button';
+import { AuditEvent, AuditLogLoader, AuditSubjectType } from '../../types';
+import { AUDIT_EVENT_LABELS, auditLogToCsv, auditLogToJson, fieldLabel } from '../../lib/audit';
+import { downloadFile } from '../../lib/download';
+
+interface AuditTimelineProps {
+  subjectType: AuditSubjectType;
+  subjectId: string;
+  loadAuditLog: AuditLogLoader;
+}
+
+const AuditTimeline: React.FC<AuditTimelineProps> = ({ subjectType, subjectId, loadAuditLog }) => {
+  const [events, setEvents] = useState<AuditEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAuditLog(subjectType, subjectId)
+      .then((loaded) => !cancelled && setEvents(loaded))
+      .catch((err: Error) => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [loadAuditLog, subjectType, subjectId]);
+
+  const exportName = `${subjectType}-${subjectId}-history`;
+
+  if (error) return <p className="text-sm text-red-600">Could not load history: {error}</p>;
+  if (!events) return <p className="text-sm text-gray-500">Loading history…</p>;
+  if (events.length === 0) return <p className="text-sm text-gray-500">No history recorded yet.</p>;
+
+  return (
+    <div>
+      <div className="flex justify-end gap-2 mb-3">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => downloadFile(`${exportName}.csv`, auditLogToCsv(events), 'text/csv')}
+        >
+          <Download className="h-4 w-4 mr-1" />
+          CSV
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            downloadFile(`${exportName}.json`, auditLogToJson(events), 'application/json')
+          }
+        >
+          <Download className="h-4 w-4 mr-1" />
+          JSON
+        </Button>
+      </div>
+      <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+        {events.map((event) => (
+          <li key={event.id} className="ml-4">
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-500" />
+            <div className="flex flex-wrap items-center gap-x-2 text-sm">
+              <span className="font-medium text-gray-900">{AUDIT_EVENT_LABELS[event.type]}</span>
+              <span className="text-gray-500">
+                by {event.actor ? <AddressLink address={event.actor} /> : 'system'}
+              </span>
+              <span className="text-xs text-gray-400">{format(event.at, 'MMM d, yyyy HH:mm')}</span>
+            </div>
+            {event.changes.length > 0 && (
+              <ul className="mt-1 text-xs text-gray-600">
+                {event.changes.map((change) => (
+                  <li key={change.field}>
+                    {fieldLabel(change.field)}: {change.from ?? '—'} → {change.to ?? '—'}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {event.note && <p className="mt-1 text-xs text-gray-500">{event.note}</p>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default AuditTimeline;
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Check, Copy, QrCode, Send } from 'lucide-react';
+import Button from '../ui/Button';
+import Alert from '../ui/Alert';
+import { BondTransaction } from '../../lib/bond';
+import { useNetwork } from '../../lib/networkContext';
+import { explorerTxUrl } from '../../lib/networks';
+import { formatRune } from '../../lib/rune';
+
+interface BondTransactionPanelProps {
+  title: string;
+  description: string;
+  transaction: BondTransaction;
+  /** Signs through the connected wallet; omitted when the wallet cannot deposit. */
+  onSign?: (transaction: BondTransaction) => Promise<string>;
+  /** Records the transaction against its request, with the hash when signed in-app. */
+  onRecord?: (txHash?: string) => Promise<void>;
+}
+
+const CopyButton: React.FC<{ text: string; label: string }> = ({ text, label }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleCopy}>
+      {copied ? <Check className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
+      {copied ? 'Copied' : label}
+    </Button>
+  );
+};
+
+const BondTransactionPanel: React.FC<BondTransactionPanelProps> = ({
+  title,
+  description,
+  transaction,
+  onSign,
+  onRecord,
+}) => {
+  const network = useNetwork();
+  const [showQr, setShowQr] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [isRecorded, setIsRecorded] = useState(false);
+  const [signError, setSignError] = useState<string | null>(null);
+
+  const payload = JSON.stringify(transaction.msg, null, 2);
+  const txUrl = txHash ? explorerTxUrl(network, txHash) : null;
+
+  const handleSign = async () => {
+    if (!onSign) return;
+    setIsSigning(true);
+    setSignError(null);
+    try {
+      const hash = await onSign(transaction);
+      setTxHash(hash);
+      if (onRecord) {
+        await onRecord(hash);
+        setIsRecorded(true);
+      }
+    } catch (error) {
+      setSignError((error as Error).message);
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const handleMarkSent = async () => {
+    if (!onRecord) return;
+    setSignError(null);
+    try {
+      await onRecord();
+      setIsRecorded(true);
+    } catch (error) {
+      setSignError((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-md p-4 space-y-3">
+      <div>
+        <h3 className="text-sm font-medium text-gray-900">{title}</h3>
+        <p className="mt-1 text-xs text-gray-500">{description}</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <span className="text-gray-500">Amount</span>
+        <span className="font-medium text-gray-900">{formatRune(transaction.amount, 8)} RUNE</span>
+        {transaction.bondAmount !== transaction.amount && (
+          <>
+            <span className="text-gray-500">Unbonds</span>
+            <span className="font-medium text-gray-900">
+              {formatRune(transaction.bondAmount, 8)} RUNE
+            </span>
+          </>
+        )}
+        <span className="text-gray-500">Memo</span>
+        <code className="font-mono text-xs text-gray-900 break-all">{transaction.memo}</code>
+      </div>
+
+      <details className="text-xs">
+        <summary className="cursor-pointer text-gray-500">MsgDeposit payload</summary>
+        <pre className="mt-2 p-2 bg-gray-50 rounded overflow-x-auto">{payload}</pre>
+      </details>
+
+      {showQr && (
+        <div className="flex justify-center p-2 bg-white">
+          <QRCodeSVG value={transaction.memo} size={160} />
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <CopyButton text={transaction.memo} label="Copy Memo" />
+        <CopyButton text={payload} label="Copy Payload" />
+        <Button variant="outline" size="sm" onClick={() => setShowQr((shown) => !shown)}>
+          <QrCode className="h-4 w-4 mr-1" />
+          {showQr ? 'Hide QR' : 'Show QR'}
+        </Button>
+        {onSign && (
+          <Button size="sm" onClick={handleSign} disabled={isSigning || !!txHash || isRecorded}>
+            <Send className="h-4 w-4 mr-1" />
+            {isSigning ? 'Waiting for Wallet...' : 'Sign with Wallet'}
+          </Button>
+        )}
+        {onRecord && !txHash && (
+          <Button variant="secondary" size="sm" onClick={handleMarkSent} disabled={isSigning || isRecorded}>
+            <Check className="h-4 w-4 mr-1" />
+            {isRecorded ? 'Recorded' : 'Mark as Sent'}
+          </Button>
+        )}
+      </div>
+
+      {txHash && (
+        <Alert variant="success">
+          Transaction sent:{' '}
+          {txUrl ? (
+            <a href={txUrl} target="_blank" rel="noopener noreferrer" className="underline break-all">
+              {txHash}
+            </a>
+          ) : (
+            <span className="break-all">{txHash}</span>
+          )}
+        </Alert>
+      )}
+      {signError && <Alert variant="error">{signError}</Alert>}
+    </div>
+  );
+};
+
+export default BondTransactionPanel;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import BondTransactionPanel from './BondTransactionPanel';
+import RequestActionHistory from './RequestActionHistory';
+import UnbondPanel from './UnbondPanel';
+import RequestStatusBadge from '../requests/RequestStatusBadge';
+import Button from '../ui/Button';
+import { NodeOperator, WhitelistRequest } from '../../types';
+import { NodeStatusSummary } from '../../lib/nodeStatus';
+import { BondTransaction, buildBondTransaction } from '../../lib/bond';
+import { canTransition } from '../../lib/requestLifecycle';
+import { shortenAddress } from '../../lib/utils';
+
+interface BonderTransactionsProps {
+  nodeOperator: NodeOperator;
+  request: WhitelistRequest;
+  nodeStatus?: NodeStatusSummary;
+  onSign?: (transaction: BondTransaction) => Promise<string>;
+  onRecord: (transaction: BondTransaction, txHash?: string) => Promise<void>;
+  onConfirmWithdrawal: () => Promise<void>;
+}
+
+// Everything a bonder sends for one approved request: the bond itself, later
+// withdrawals, and what has been recorded so far.
+const BonderTransactions: React.FC<BonderTransactionsProps> = ({
+  nodeOperator,
+  request,
+  nodeStatus,
+  onSign,
+  onRecord,
+  onConfirmWithdrawal,
+}) => {
+  const [showUnbond, setShowUnbond] = useState(false);
+  const bondTransaction = buildBondTransaction(nodeOperator, request);
+  const canUnbond = canTransition(request.status, 'unbond');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-sm font-medium text-gray-900">
+          Node {shortenAddress(nodeOperator.address)}
+          <RequestStatusBadge status={request.status} />
+        </h3>
+        {canUnbond && (
+          <Button variant="outline" size="sm" onClick={() => setShowUnbond((shown) => !shown)}>
+            {showUnbond ? 'Hide Unbond' : 'Unbond'}
+          </Button>
+        )}
+        {canTransition(request.status, 'withdraw') && (
+          <Button variant="outline" size="sm" onClick={onConfirmWithdrawal}>
+            Confirm Withdrawal
+          </Button>
+        )}
+      </div>
+
+      {canTransition(request.status, 'bond') && (
+        <BondTransactionPanel
+          title={request.status === 'bonded' ? 'Add Bond' : 'Bond'}
+          description={`Sends your approved bond from ${request.walletAddress}.`}
+          transaction={bondTransaction}
+          onSign={onSign}
+          onRecord={(txHash) => onRecord(bondTransaction, txHash)}
+        />
+      )}
+
+      {canUnbond && showUnbond && (
+        <UnbondPanel
+          nodeOperator={nodeOperator}
+          request={request}
+          nodeStatus={nodeStatus}
+          onSign={onSign}
+          onRecord={onRecord}
+        />
+      )}
+
+      <RequestActionHistory actions={request.actions} />
+    </div>
+  );
+};
+
+export default BonderTransactions;
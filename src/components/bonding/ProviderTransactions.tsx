@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import BondTransactionPanel from './BondTransactionPanel';
+import RequestActionHistory from './RequestActionHistory';
+import RequestStatusBadge from '../requests/RequestStatusBadge';
+import Alert from '../ui/Alert';
+import Button from '../ui/Button';
+import { NodeOperator, WhitelistRequest } from '../../types';
+import { NodeStatusSummary } from '../../lib/nodeStatus';
+import {
+  BondTransaction,
+  buildRemoveProviderTransaction,
+  buildWhitelistTransaction,
+  checkUnbondAllowed,
+  recordedBond,
+} from '../../lib/bond';
+import { canTransition } from '../../lib/requestLifecycle';
+
+interface ProviderTransactionsProps {
+  nodeOperator: NodeOperator;
+  request: WhitelistRequest;
+  nodeStatus?: NodeStatusSummary;
+  onSign?: (transaction: BondTransaction) => Promise<string>;
+  onRecord: (transaction: BondTransaction, txHash?: string) => Promise<void>;
+}
+
+// The operator's side of one approved request: whitelisting the provider and,
+// eventually, removing them again.
+const ProviderTransactions: React.FC<ProviderTransactionsProps> = ({
+  nodeOperator,
+  request,
+  nodeStatus,
+  onSign,
+  onRecord,
+}) => {
+  const [showRemove, setShowRemove] = useState(false);
+  const whitelistTransaction = buildWhitelistTransaction(nodeOperator, request);
+
+  const bonded = recordedBond(request);
+  const removeTransaction = buildRemoveProviderTransaction(
+    nodeOperator,
+    request,
+    bonded > 0n ? bonded : request.intendedBondAmount
+  );
+  const unbondCheck = checkUnbondAllowed(nodeStatus);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-sm font-medium text-gray-900">
+          {request.discordUsername}
+          <RequestStatusBadge status={request.status} />
+        </h3>
+        {canTransition(request.status, 'remove') && (
+          <Button variant="outline" size="sm" onClick={() => setShowRemove((shown) => !shown)}>
+            {showRemove ? 'Keep Provider' : 'Remove Provider'}
+          </Button>
+        )}
+      </div>
+
+      {canTransition(request.status, 'whitelist') && (
+        <BondTransactionPanel
+          title="Whitelist"
+          description={`Adds ${request.walletAddress} as a bond provider at a ${nodeOperator.feePercentage}% fee.`}
+          transaction={whitelistTransaction}
+          onSign={onSign}
+          onRecord={(txHash) => onRecord(whitelistTransaction, txHash)}
+        />
+      )}
+
+      {showRemove &&
+        canTransition(request.status, 'remove') &&
+        (unbondCheck.allowed ? (
+          <BondTransactionPanel
+            title="Remove Provider"
+            description="Returns the provider's bond and drops them from the whitelist."
+            transaction={removeTransaction}
+            onSign={onSign}
+            onRecord={(txHash) => onRecord(removeTransaction, txHash)}
+          />
+        ) : (
+          <Alert variant="warning" title="Removal unavailable">
+            {unbondCheck.reason}
+          </Alert>
+        ))}
+
+      <RequestActionHistory actions={request.actions} />
+    </div>
+  );
+};
+
+export default ProviderTransactions;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { RequestAction, RequestActionKind } from '../../types';
+import { useNetwork } from '../../lib/networkContext';
+import { explorerTxUrl } from '../../lib/networks';
+import { formatRune } from '../../lib/rune';
+
+interface RequestActionHistoryProps {
+  actions: RequestAction[];
+}
+
+const actionLabels: Record<RequestActionKind, string> = {
+  whitelist: 'Whitelisted',
+  bond: 'Bonded',
+  unbond: 'Unbonded',
+  'remove-provider': 'Provider removed',
+};
+
+const RequestActionHistory: React.FC<RequestActionHistoryProps> = ({ actions }) => {
+  const network = useNetwork();
+
+  if (actions.length === 0) return null;
+
+  return (
+    <ul className="space-y-1 text-xs text-gray-600">
+      {actions.map((action) => {
+        const txUrl = action.txHash ? explorerTxUrl(network, action.txHash) : null;
+        return (
+          <li key={action.id} className="flex flex-wrap items-center gap-x-2">
+            <span className="text-gray-400">{format(action.createdAt, 'MMM d, yyyy HH:mm')}</span>
+            <span className="font-medium text-gray-900">{actionLabels[action.kind]}</span>
+            {action.amount > 0n && <span>{formatRune(action.amount)} RUNE</span>}
+            {txUrl ? (
+              <a href={txUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                View transaction
+              </a>
+            ) : (
+              !action.txHash && <span className="text-gray-400">(sent manually)</span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default RequestActionHistory;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import BondTransactionPanel from './BondTransactionPanel';
+import Input from '../ui/Input';
+import Alert from '../ui/Alert';
+import { NodeOperator, WhitelistRequest } from '../../types';
+import { NodeStatusSummary } from '../../lib/nodeStatus';
+import { BondTransaction, buildUnbondTransaction, checkUnbondAllowed, recordedBond } from '../../lib/bond';
+import { RUNE_INPUT_STEP, toRuneString, tryParseRune } from '../../lib/rune';
+
+interface UnbondPanelProps {
+  nodeOperator: NodeOperator;
+  request: WhitelistRequest;
+  nodeStatus?: NodeStatusSummary;
+  onSign?: (transaction: BondTransaction) => Promise<string>;
+  onRecord: (transaction: BondTransaction, txHash?: string) => Promise<void>;
+}
+
+const UnbondPanel: React.FC<UnbondPanelProps> = ({
+  nodeOperator,
+  request,
+  nodeStatus,
+  onSign,
+  onRecord,
+}) => {
+  const bonded = recordedBond(request);
+  const [amountInput, setAmountInput] = useState(
+    toRuneString(bonded > 0n ? bonded : request.intendedBondAmount)
+  );
+
+  const check = checkUnbondAllowed(nodeStatus);
+  if (!check.allowed) {
+    return <Alert variant="warning" title="Unbonding unavailable">{check.reason}</Alert>;
+  }
+
+  const amount = tryParseRune(amountInput);
+  const transaction =
+    amount !== null && amount > 0n ? buildUnbondTransaction(nodeOperator, request, amount) : null;
+
+  return (
+    <div className="space-y-3">
+      <Input
+        label="Amount to Unbond (RUNE)"
+        type="number"
+        min="0"
+        step={RUNE_INPUT_STEP}
+        value={amountInput}
+        onChange={(e) => setAmountInput(e.target.value)}
+        error={transaction ? undefined : 'Enter a positive amount with at most 8 decimals'}
+        fullWidth
+      />
+      {transaction && (
+        <BondTransactionPanel
+          key={transaction.memo}
+          title="Unbond"
+          description="Withdraws bond from this node back to your wallet."
+          transaction={transaction}
+          onSign={onSign}
+          onRecord={(txHash) => onRecord(transaction, txHash)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default UnbondPanel;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Plus } from 'lucide-react';
+import Select from '../ui/Select';
+import Button from '../ui/Button';
+import { NodeOperator } from '../../types';
+import { shortenAddress } from '../../lib/utils';
+
+interface NodeSwitcherProps {
+  nodeOperators: NodeOperator[];
+  /** `null` is the overview across all nodes. */
+  selectedId: string | null;
+  onSelect: (nodeOperatorId: string | null) => void;
+  onAddNode: () => void;
+}
+
+const ALL_NODES = '';
+
+const NodeSwitcher: React.FC<NodeSwitcherProps> = ({
+  nodeOperators,
+  selectedId,
+  onSelect,
+  onAddNode,
+}) => (
+  <div className="flex items-center space-x-2">
+    {nodeOperators.length > 1 && (
+      <Select
+        aria-label="Node"
+        options={[
+          { value: ALL_NODES, label: `All nodes (${nodeOperators.length})` },
+          ...nodeOperators.map((op) => ({ value: op.id, label: shortenAddress(op.address) })),
+        ]}
+        value={selectedId ?? ALL_NODES}
+        onChange={(value) => onSelect(value === ALL_NODES ? null : value)}
+      />
+    )}
+    <Button variant="outline" onClick={onAddNode}>
+      <Plus className="h-4 w-4 mr-1" />
+      Add Node
+    </Button>
+  </div>
+);
+
+export default NodeSwitcher;
@@ -1,62 +1,237 @@
-import React from 'react';
-import { Users, DollarSign, Percent, Clock } from 'lucide-react';
+import React, { useState } from 'react';
+import { Users, DollarSign, Percent, UserPlus } from 'lucide-react';
 import { Card, CardHeader, CardContent } from '../ui/Card';
 import Tabs from '../ui/Tabs';
 import StatCard from './StatCard';
+import NodeSwitcher from './NodeSwitcher';
 import RequestList from '../requests/RequestList';
 import Button from '../ui/Button';
-import { NodeOperator, WhitelistRequest } from '../../types';
-import { formatRune } from '../../lib/utils';
+import Modal from '../ui/Modal';
+import Badge from '../ui/Badge';
+import AddressLink from '../ui/AddressLink';
+import Alert from '../ui/Alert';
+import NodeStatusBadge from '../node-operators/NodeStatusBadge';
+import BondTransactionPanel from '../bonding/BondTransactionPanel';
+import ProviderTransactions from '../bonding/ProviderTransactions';
+import BlocklistCard from '../node-operators/BlocklistCard';
+import WebhooksCard from '../node-operators/WebhooksCard';
+import TeamCard from '../node-operators/TeamCard';
+import AuditTimeline from '../audit/AuditTimeline';
+import {
+  AuditLogLoader,
+  BlocklistEntry,
+  BlocklistEntryInput,
+  NodeOperator,
+  RequestMessaging,
+  RequestRejection,
+  TeamMember,
+  TeamRole,
+  Webhook,
+  WebhookDelivery,
+  WebhookInput,
+  WhitelistRequest,
+} from '../../types';
+import { NodeStatusSummary } from '../../lib/nodeStatus';
+import { BondTransaction, buildLeaveTransaction } from '../../lib/bond';
+import { formatRune } from '../../lib/rune';
+import {
+  bondProviderLimit,
+  canAdmit,
+  committedBond,
+  planApprovals,
+  remainingCapacity,
+  remainingProviderSlots,
+  waitlist,
+} from '../../lib/capacity';
+import { CLOSED_STATUSES, IN_PROGRESS_STATUSES } from '../../lib/requestLifecycle';
+import { totalUnread } from '../../lib/messages';
+import { hasRole, TEAM_ROLE_LABELS } from '../../lib/team';
+import { isHidden, isVerified } from '../../lib/moderation';
 
 interface OperatorDashboardProps {
   nodeOperator: NodeOperator;
+  /** All of the operator's listings, for the node switcher. */
+  nodeOperators: NodeOperator[];
+  /** The signed-in wallet's role on `nodeOperator`; sections it may not use are hidden. */
+  role: TeamRole;
+  walletAddress: string;
+  teamMembers: TeamMember[];
+  nodeStatus?: NodeStatusSummary;
   requests: WhitelistRequest[];
+  networkMaxBondProviders: number;
+  blocklist: BlocklistEntry[];
+  webhooks: Webhook[];
+  webhookDeliveries: WebhookDelivery[];
   onApproveRequest: (requestId: string) => void;
-  onRejectRequest: (requestId: string, reason: string) => void;
+  onRejectRequest: (requestId: string, rejection: RequestRejection) => void;
+  onApproveRequests: (requestIds: string[]) => void;
+  onRejectRequests: (requestIds: string[], rejection: RequestRejection) => void;
+  onSignDeposit?: (transaction: BondTransaction) => Promise<string>;
+  onRecordAction: (requestId: string, transaction: BondTransaction, txHash?: string) => Promise<void>;
+  onAddBlocklistEntry: (entry: Omit<BlocklistEntryInput, 'nodeOperatorId'>) => Promise<void>;
+  onRemoveBlocklistEntry: (entryId: string) => Promise<void>;
+  onAddWebhook: (webhook: Omit<WebhookInput, 'nodeOperatorId'>) => Promise<void>;
+  onSetWebhookEnabled: (webhookId: string, enabled: boolean) => Promise<void>;
+  onRemoveWebhook: (webhookId: string) => Promise<void>;
+  onRefreshWebhookDeliveries: () => Promise<void>;
+  onInviteTeamMember: (memberAddress: string, role: TeamRole) => Promise<void>;
+  onSetTeamRole: (memberId: string, role: TeamRole) => Promise<void>;
+  onRemoveTeamMember: (memberId: string) => Promise<void>;
+  loadAuditLog: AuditLogLoader;
+  messaging?: RequestMessaging;
+  unreadCounts: Record<string, number>;
+  onSelectNodeOperator: (nodeOperatorId: string | null) => void;
+  onAddNode: () => void;
   onEditListing: () => void;
   onDeleteListing: () => void;
 }
 
 const OperatorDashboard: React.FC<OperatorDashboardProps> = ({
   nodeOperator,
+  nodeOperators,
+  role,
+  walletAddress,
+  teamMembers,
+  nodeStatus,
   requests,
+  networkMaxBondProviders,
+  blocklist,
+  webhooks,
+  webhookDeliveries,
   onApproveRequest,
   onRejectRequest,
+  onApproveRequests,
+  onRejectRequests,
+  onSignDeposit,
+  onRecordAction,
+  onAddBlocklistEntry,
+  onRemoveBlocklistEntry,
+  onAddWebhook,
+  onSetWebhookEnabled,
+  onRemoveWebhook,
+  onRefreshWebhookDeliveries,
+  onInviteTeamMember,
+  onSetTeamRole,
+  onRemoveTeamMember,
+  loadAuditLog,
+  messaging,
+  unreadCounts,
+  onSelectNodeOperator,
+  onAddNode,
   onEditListing,
   onDeleteListing,
 }) => {
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
   const pendingRequests = requests.filter(req => req.status === 'pending');
-  const approvedRequests = requests.filter(req => req.status === 'approved');
-  const rejectedRequests = requests.filter(req => req.status === 'rejected');
-  
-  const totalBonded = approvedRequests.reduce((sum, req) => sum + req.intendedBondAmount, 0);
-  const remainingCapacity = nodeOperator.bondingCapacity - totalBonded;
+  const inProgressRequests = requests.filter(req => IN_PROGRESS_STATUSES.includes(req.status));
+  const closedRequests = requests.filter(req => CLOSED_STATUSES.includes(req.status));
+  const waitlistedRequests = waitlist(nodeOperator, requests);
+
+  const totalCommitted = committedBond(nodeOperator, requests);
+  const availableCapacity = remainingCapacity(nodeOperator, requests);
+  const slotLimit = bondProviderLimit(nodeOperator, networkMaxBondProviders);
+  const slotsRemaining = remainingProviderSlots(nodeOperator, requests, networkMaxBondProviders);
+  const unreadMessages = totalUnread(unreadCounts, requests.map(req => req.id));
+  const canTriage = hasRole(role, 'manager');
+  const isOwner = hasRole(role, 'owner');
 
   return (
     <div className="space-y-6">
       <div className="flex flex-col md:flex-row md:items-center md:justify-between">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">Node Operator Dashboard</h1>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            Node Operator Dashboard
+            {walletAddress !== nodeOperator.operatorAddress && (
+              <Badge variant="info" className="ml-3">
+                {TEAM_ROLE_LABELS[role]}
+              </Badge>
+            )}
+          </h1>
           <p className="mt-1 text-sm text-gray-500">
             Manage your bonding listings and whitelist requests
           </p>
         </div>
-        <div className="mt-4 md:mt-0 flex space-x-4">
-          <Button variant="outline" onClick={onEditListing}>
-            Edit Listing
-          </Button>
-          <Button variant="danger" onClick={onDeleteListing}>
-            Delete Listing
-          </Button>
+        <div className="mt-4 md:mt-0 flex flex-wrap gap-4">
+          <NodeSwitcher
+            nodeOperators={nodeOperators}
+            selectedId={nodeOperator.id}
+            onSelect={onSelectNodeOperator}
+            onAddNode={onAddNode}
+          />
+          {canTriage && (
+            <Button variant="outline" onClick={onEditListing}>
+              Edit Listing
+            </Button>
+          )}
+          {isOwner && (
+            <Button variant="danger" onClick={() => setConfirmingDelete(true)}>
+              Delete Listing
+            </Button>
+          )}
         </div>
       </div>
+
+      {isHidden(nodeOperator) && (
+        <Alert variant="warning" title="Hidden by Moderators">
+          This listing is not shown on the Node Operators page and takes no new requests.
+          Requests already filed are unaffected.
+        </Alert>
+      )}
       
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-500 flex items-center">
+                Node <AddressLink address={nodeOperator.address} className="ml-1" />
+                {isVerified(nodeOperator) && (
+                  <Badge variant="success" className="ml-2">
+                    Verified
+                  </Badge>
+                )}
+              </p>
+              <div className="mt-1">
+                <NodeStatusBadge status={nodeStatus} />
+              </div>
+              {nodeStatus?.jailReason && (
+                <p className="mt-1 text-sm text-red-600">Jailed: {nodeStatus.jailReason}</p>
+              )}
+            </div>
+            {nodeStatus && (
+              <div className="mt-4 md:mt-0 grid grid-cols-3 gap-8 text-sm">
+                <div>
+                  <p className="text-gray-500">Current Bond</p>
+                  <p className="font-medium text-gray-900">{formatRune(nodeStatus.totalBond)} RUNE</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Slash Points</p>
+                  <p className="font-medium text-gray-900">{nodeStatus.slashPoints}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Version</p>
+                  <p className="font-medium text-gray-900">{nodeStatus.version}</p>
+                </div>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+      
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
         <StatCard
           title="Available Capacity"
-          value={`${formatRune(remainingCapacity)} RUNE`}
+          value={`${formatRune(availableCapacity)} RUNE`}
           icon={DollarSign}
-          description={`${formatRune(totalBonded)} RUNE bonded`}
+          description={`${formatRune(totalCommitted)} RUNE committed, ${waitlistedRequests.length} waitlisted`}
+        />
+        <StatCard
+          title="Slots Remaining"
+          value={Math.max(slotsRemaining, 0)}
+          icon={UserPlus}
+          description={`of ${slotLimit} bond providers${
+            nodeOperator.maxBondProviders === null ? ' (network limit)' : ''
+          }`}
         />
         <StatCard
           title="Minimum Bond"
@@ -72,13 +247,18 @@ const OperatorDashboard: React.FC<OperatorDashboardProps> = ({
           title="Pending Requests"
           value={pendingRequests.length}
           icon={Users}
-          description={`${approvedRequests.length} approved, ${rejectedRequests.length} rejected`}
+          description={`${inProgressRequests.length} in progress, ${closedRequests.length} closed`}
         />
       </div>
       
       <Card>
-        <CardHeader>
+        <CardHeader className="flex items-center justify-between">
           <h2 className="text-lg font-medium text-gray-900">Whitelist Requests</h2>
+          {unreadMessages > 0 && (
+            <Badge variant="info">
+              {unreadMessages} unread {unreadMessages === 1 ? 'message' : 'messages'}
+            </Badge>
+          )}
         </CardHeader>
         <CardContent>
           <Tabs
@@ -90,28 +270,68 @@ const OperatorDashboard: React.FC<OperatorDashboardProps> = ({
                   <RequestList
                     requests={pendingRequests}
                     isNodeOperator={true}
-                    onApprove={onApproveRequest}
-                    onReject={onRejectRequest}
+                    loadAuditLog={loadAuditLog}
+                    messaging={canTriage ? messaging : undefined}
+                    unreadCounts={unreadCounts}
+                    onApprove={canTriage ? onApproveRequest : undefined}
+                    onReject={canTriage ? onRejectRequest : undefined}
+                    rejectionTemplates={nodeOperator.rejectionTemplates}
+                    canAdmit={(request) =>
+                      canAdmit(nodeOperator, requests, request, networkMaxBondProviders)
+                    }
+                    onBulkApprove={canTriage ? onApproveRequests : undefined}
+                    onBulkReject={canTriage ? onRejectRequests : undefined}
+                    planApprovals={(selected) =>
+                      planApprovals(nodeOperator, requests, selected, networkMaxBondProviders)
+                    }
                   />
                 ),
               },
               {
-                id: 'approved',
-                label: `Approved (${approvedRequests.length})`,
+                id: 'waitlist',
+                label: `Waitlist (${waitlistedRequests.length})`,
+                content: (
+                  <div className="space-y-4">
+                    <p className="text-sm text-gray-500">
+                      Requests that exceeded your remaining capacity or provider slots, in the order
+                      they are offered a place as approved bonds are released or limits are raised.
+                    </p>
+                    <RequestList
+                      requests={waitlistedRequests}
+                      isNodeOperator={true}
+                      loadAuditLog={loadAuditLog}
+                      messaging={canTriage ? messaging : undefined}
+                      unreadCounts={unreadCounts}
+                      onReject={canTriage ? onRejectRequest : undefined}
+                      rejectionTemplates={nodeOperator.rejectionTemplates}
+                      onBulkReject={canTriage ? onRejectRequests : undefined}
+                    />
+                  </div>
+                ),
+              },
+              {
+                id: 'in-progress',
+                label: `In Progress (${inProgressRequests.length})`,
                 content: (
                   <RequestList
-                    requests={approvedRequests}
+                    requests={inProgressRequests}
                     isNodeOperator={true}
+                    loadAuditLog={loadAuditLog}
+                    messaging={canTriage ? messaging : undefined}
+                    unreadCounts={unreadCounts}
                   />
                 ),
               },
               {
-                id: 'rejected',
-                label: `Rejected (${rejectedRequests.length})`,
+                id: 'closed',
+                label: `Closed (${closedRequests.length})`,
                 content: (
                   <RequestList
-                    requests={rejectedRequests}
+                    requests={closedRequests}
                     isNodeOperator={true}
+                    loadAuditLog={loadAuditLog}
+                    messaging={canTriage ? messaging : undefined}
+                    unreadCounts={unreadCounts}
                   />
                 ),
               },
@@ -119,6 +339,124 @@ const OperatorDashboard: React.FC<OperatorDashboardProps> = ({
           />
         </CardContent>
       </Card>
+
+      {canTriage && inProgressRequests.length > 0 && (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-medium text-gray-900">Bond Providers</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Send a whitelisting transaction from your operator wallet for each approved bonder so
+              they can bond. Record each transaction so the history stays with the request.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {inProgressRequests.map((request) => (
+              <ProviderTransactions
+                key={request.id}
+                nodeOperator={nodeOperator}
+                request={request}
+                nodeStatus={nodeStatus}
+                onSign={onSignDeposit}
+                onRecord={(transaction, txHash) => onRecordAction(request.id, transaction, txHash)}
+              />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-medium text-gray-900">Listing History</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Every change to this listing, including its terms, as bonders can see it.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <AuditTimeline
+            subjectType="node-operator"
+            subjectId={nodeOperator.id}
+            loadAuditLog={loadAuditLog}
+          />
+        </CardContent>
+      </Card>
+
+      <TeamCard
+        operatorAddress={nodeOperator.operatorAddress}
+        members={teamMembers}
+        viewerAddress={walletAddress}
+        viewerRole={role}
+        onInvite={onInviteTeamMember}
+        onSetRole={onSetTeamRole}
+        onRemove={onRemoveTeamMember}
+      />
+
+      {canTriage && (
+        <BlocklistCard
+          entries={blocklist}
+          onAdd={onAddBlocklistEntry}
+          onRemove={onRemoveBlocklistEntry}
+        />
+      )}
+
+      {isOwner && (
+        <WebhooksCard
+          webhooks={webhooks}
+          deliveries={webhookDeliveries}
+          onAdd={onAddWebhook}
+          onSetEnabled={onSetWebhookEnabled}
+          onRemove={onRemoveWebhook}
+          onRefreshDeliveries={onRefreshWebhookDeliveries}
+        />
+      )}
+
+      {isOwner && (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-medium text-gray-900">Leave the Network</h2>
+          </CardHeader>
+          <CardContent>
+            <BondTransactionPanel
+              title="Leave"
+              description="Asks THORChain to churn the node out at the next churn. All bond, including providers', is returned once it leaves."
+              transaction={buildLeaveTransaction(nodeOperator)}
+              onSign={onSignDeposit}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <Modal
+        isOpen={confirmingDelete}
+        title="Delete Listing"
+        onClose={() => setConfirmingDelete(false)}
+        footer={
+          <>
+            <Button variant="outline" onClick={() => setConfirmingDelete(false)}>
+              Keep Listing
+            </Button>
+            <Button
+              variant="danger"
+              onClick={() => {
+                setConfirmingDelete(false);
+                onDeleteListing();
+              }}
+            >
+              Delete Listing
+            </Button>
+          </>
+        }
+      >
+        <p className="text-sm text-gray-600">
+          Your listing will no longer be shown to bonders and cannot accept new requests. This
+          cannot be undone.
+        </p>
+        {inProgressRequests.length > 0 && (
+          <p className="mt-2 text-sm text-red-600">
+            {inProgressRequests.length} approved or bonded provider
+            {inProgressRequests.length === 1 ? ' is' : 's are'} still attached to it.
+          </p>
+        )}
+      </Modal>
     </div>
   );
 };
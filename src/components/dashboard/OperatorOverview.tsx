@@ -0,0 +1,242 @@
+import React from 'react';
+import { DollarSign, Server, UserPlus, Users } from 'lucide-react';
+import { Card, CardHeader, CardContent } from '../ui/Card';
+import StatCard from './StatCard';
+import NodeSwitcher from './NodeSwitcher';
+import RequestList from '../requests/RequestList';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import AddressLink from '../ui/AddressLink';
+import NodeStatusBadge from '../node-operators/NodeStatusBadge';
+import {
+  AuditLogLoader,
+  NodeOperator,
+  RequestMessaging,
+  RequestRejection,
+  TeamRole,
+  WhitelistRequest,
+} from '../../types';
+import { NodeStatusMap } from '../../lib/nodeStatus';
+import { formatRune, sumRune } from '../../lib/rune';
+import {
+  bondProviderLimit,
+  canAdmit,
+  committedBond,
+  planApprovalsAcross,
+  remainingCapacity,
+  remainingProviderSlots,
+  waitlist,
+} from '../../lib/capacity';
+import { IN_PROGRESS_STATUSES } from '../../lib/requestLifecycle';
+import { totalUnread } from '../../lib/messages';
+import { hasRole, TEAM_ROLE_LABELS } from '../../lib/team';
+
+interface OperatorOverviewProps {
+  nodeOperators: NodeOperator[];
+  /** The signed-in wallet's role on each of `nodeOperators`, by listing id. */
+  roles: Record<string, TeamRole>;
+  nodeStatuses: NodeStatusMap;
+  /** Requests to any of `nodeOperators`. */
+  requests: WhitelistRequest[];
+  networkMaxBondProviders: number;
+  onSelectNodeOperator: (nodeOperatorId: string | null) => void;
+  onAddNode: () => void;
+  onApproveRequest: (requestId: string) => void;
+  onRejectRequest: (requestId: string, rejection: RequestRejection) => void;
+  onApproveRequests: (requestIds: string[]) => void;
+  onRejectRequests: (requestIds: string[], rejection: RequestRejection) => void;
+  loadAuditLog: AuditLogLoader;
+  messaging?: RequestMessaging;
+  unreadCounts: Record<string, number>;
+}
+
+const headerClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+const OperatorOverview: React.FC<OperatorOverviewProps> = ({
+  nodeOperators,
+  roles,
+  nodeStatuses,
+  requests,
+  networkMaxBondProviders,
+  onSelectNodeOperator,
+  onAddNode,
+  onApproveRequest,
+  onRejectRequest,
+  onApproveRequests,
+  onRejectRequests,
+  loadAuditLog,
+  messaging,
+  unreadCounts,
+}) => {
+  const listingsById = new Map(nodeOperators.map((op) => [op.id, op]));
+  const nodeAddresses = Object.fromEntries(nodeOperators.map((op) => [op.id, op.address]));
+
+  const pendingRequests = requests.filter((req) => req.status === 'pending');
+  const inProgressRequests = requests.filter((req) => IN_PROGRESS_STATUSES.includes(req.status));
+  const waitlistedCount = nodeOperators.reduce((count, op) => count + waitlist(op, requests).length, 0);
+
+  const totalCapacity = sumRune(nodeOperators.map((op) => op.bondingCapacity));
+  const totalCommitted = sumRune(nodeOperators.map((op) => committedBond(op, requests)));
+  // Over-committed nodes count as full rather than offsetting the others.
+  const availableCapacity = sumRune(
+    nodeOperators.map((op) => {
+      const remaining = remainingCapacity(op, requests);
+      return remaining > 0n ? remaining : 0n;
+    })
+  );
+  const slotLimit = nodeOperators.reduce(
+    (count, op) => count + bondProviderLimit(op, networkMaxBondProviders),
+    0
+  );
+  const slotsRemaining = nodeOperators.reduce(
+    (count, op) => count + Math.max(remainingProviderSlots(op, requests, networkMaxBondProviders), 0),
+    0
+  );
+  const unreadMessages = totalUnread(unreadCounts, requests.map((req) => req.id));
+  const rejectionTemplates = [...new Set(nodeOperators.flatMap((op) => op.rejectionTemplates))];
+  // The combined queue only offers decisions and messaging when they are allowed on every node in it.
+  const canTriage = nodeOperators.every((op) => hasRole(roles[op.id], 'manager'));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Node Operator Dashboard</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            All {nodeOperators.length} of your nodes at a glance. Pick one to manage its listing.
+          </p>
+        </div>
+        <div className="mt-4 md:mt-0">
+          <NodeSwitcher
+            nodeOperators={nodeOperators}
+            selectedId={null}
+            onSelect={onSelectNodeOperator}
+            onAddNode={onAddNode}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatCard
+          title="Nodes"
+          value={nodeOperators.length}
+          icon={Server}
+          description={`${formatRune(totalCapacity)} RUNE total capacity`}
+        />
+        <StatCard
+          title="Available Capacity"
+          value={`${formatRune(availableCapacity)} RUNE`}
+          icon={DollarSign}
+          description={`${formatRune(totalCommitted)} RUNE committed, ${waitlistedCount} waitlisted`}
+        />
+        <StatCard
+          title="Slots Remaining"
+          value={slotsRemaining}
+          icon={UserPlus}
+          description={`of ${slotLimit} bond providers`}
+        />
+        <StatCard
+          title="Pending Requests"
+          value={pendingRequests.length}
+          icon={Users}
+          description={`${inProgressRequests.length} in progress`}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-medium text-gray-900">Nodes</h2>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className={headerClass}>
+                  Node
+                </th>
+                <th scope="col" className={headerClass}>
+                  Your Role
+                </th>
+                <th scope="col" className={headerClass}>
+                  Available Capacity
+                </th>
+                <th scope="col" className={headerClass}>
+                  Slots Remaining
+                </th>
+                <th scope="col" className={headerClass}>
+                  Pending
+                </th>
+                <th scope="col" className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {nodeOperators.map((op) => {
+                const pending = pendingRequests.filter((req) => req.nodeOperatorId === op.id).length;
+                return (
+                  <tr key={op.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <AddressLink address={op.address} />
+                      <NodeStatusBadge status={nodeStatuses[op.address]} className="ml-2" />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {TEAM_ROLE_LABELS[roles[op.id]]}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatRune(remainingCapacity(op, requests))} of{' '}
+                      {formatRune(op.bondingCapacity)} RUNE
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {Math.max(remainingProviderSlots(op, requests, networkMaxBondProviders), 0)} of{' '}
+                      {bondProviderLimit(op, networkMaxBondProviders)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{pending}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <Button variant="outline" size="sm" onClick={() => onSelectNodeOperator(op.id)}>
+                        Open
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900">Pending Requests, All Nodes</h2>
+          {unreadMessages > 0 && (
+            <Badge variant="info">
+              {unreadMessages} unread {unreadMessages === 1 ? 'message' : 'messages'}
+            </Badge>
+          )}
+        </CardHeader>
+        <CardContent>
+          <RequestList
+            requests={pendingRequests}
+            isNodeOperator={true}
+            nodeAddresses={nodeAddresses}
+            loadAuditLog={loadAuditLog}
+            messaging={canTriage ? messaging : undefined}
+            unreadCounts={unreadCounts}
+            onApprove={canTriage ? onApproveRequest : undefined}
+            onReject={canTriage ? onRejectRequest : undefined}
+            rejectionTemplates={rejectionTemplates}
+            canAdmit={(request) => {
+              const listing = listingsById.get(request.nodeOperatorId);
+              return !!listing && canAdmit(listing, requests, request, networkMaxBondProviders);
+            }}
+            onBulkApprove={canTriage ? onApproveRequests : undefined}
+            onBulkReject={canTriage ? onRejectRequests : undefined}
+            planApprovals={(selected) =>
+              planApprovalsAcross(nodeOperators, requests, selected, networkMaxBondProviders)
+            }
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default OperatorOverview;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { Card, CardHeader, CardContent } from '../ui/Card';
+import Button from '../ui/Button';
+import AddressLink from '../ui/AddressLink';
+import { NodeOperator, TeamMember } from '../../types';
+import { TEAM_ROLE_DESCRIPTIONS, TEAM_ROLE_LABELS } from '../../lib/team';
+
+/** A pending invitation for the signed-in wallet, with the listing it is for. */
+export interface TeamInvitation {
+  member: TeamMember;
+  nodeOperator: NodeOperator;
+}
+
+interface TeamInvitationsProps {
+  invitations: TeamInvitation[];
+  onAccept: (member: TeamMember) => void;
+  onDecline: (member: TeamMember) => void;
+}
+
+const TeamInvitations: React.FC<TeamInvitationsProps> = ({ invitations, onAccept, onDecline }) => (
+  <Card>
+    <CardHeader>
+      <h2 className="text-lg font-medium text-gray-900">Team Invitations</h2>
+    </CardHeader>
+    <CardContent>
+      <ul className="divide-y divide-gray-200">
+        {invitations.map(({ member, nodeOperator }) => (
+          <li key={member.id} className="py-3 flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                {TEAM_ROLE_LABELS[member.role]} on node <AddressLink address={nodeOperator.address} />
+              </p>
+              <p className="text-xs text-gray-500">
+                From <AddressLink address={member.invitedBy} /> ·{' '}
+                {TEAM_ROLE_DESCRIPTIONS[member.role]}
+              </p>
+            </div>
+            <div className="flex flex-shrink-0 space-x-2">
+              <Button size="sm" onClick={() => onAccept(member)}>
+                <Check className="h-4 w-4 mr-1" />
+                Accept
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onDecline(member)}>
+                <X className="h-4 w-4 mr-1" />
+                Decline
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </CardContent>
+  </Card>
+);
+
+export default TeamInvitations;
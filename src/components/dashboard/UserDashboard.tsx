@@ -2,25 +2,81 @@ import React from 'react';
 import { Clock, CheckCircle, XCircle } from 'lucide-react';
 import { Card, CardHeader, CardContent } from '../ui/Card';
 import Tabs from '../ui/Tabs';
+import Badge from '../ui/Badge';
 import RequestList from '../requests/RequestList';
-import { WhitelistRequest } from '../../types';
+import BonderTransactions from '../bonding/BonderTransactions';
+import { AuditLogLoader, NodeOperator, RequestMessaging, WhitelistRequest } from '../../types';
+import { BondTransaction } from '../../lib/bond';
+import { NodeStatusMap } from '../../lib/nodeStatus';
+import {
+  AWAITING_STATUSES,
+  CLOSED_STATUSES,
+  IN_PROGRESS_STATUSES,
+} from '../../lib/requestLifecycle';
+import { totalUnread } from '../../lib/messages';
 
 interface UserDashboardProps {
   requests: WhitelistRequest[];
+  nodeOperators: NodeOperator[];
+  nodeStatuses: NodeStatusMap;
+  onSignDeposit?: (transaction: BondTransaction) => Promise<string>;
+  onRecordAction: (requestId: string, transaction: BondTransaction, txHash?: string) => Promise<void>;
+  onConfirmWithdrawal: (requestId: string) => Promise<void>;
+  onEditRequest: (request: WhitelistRequest) => void;
+  onCancelRequest: (requestId: string) => void;
+  loadAuditLog: AuditLogLoader;
+  messaging?: RequestMessaging;
+  unreadCounts: Record<string, number>;
 }
 
-const UserDashboard: React.FC<UserDashboardProps> = ({ requests }) => {
-  const pendingRequests = requests.filter(req => req.status === 'pending');
-  const approvedRequests = requests.filter(req => req.status === 'approved');
-  const rejectedRequests = requests.filter(req => req.status === 'rejected');
+const UserDashboard: React.FC<UserDashboardProps> = ({
+  requests,
+  nodeOperators,
+  nodeStatuses,
+  onSignDeposit,
+  onRecordAction,
+  onConfirmWithdrawal,
+  onEditRequest,
+  onCancelRequest,
+  loadAuditLog,
+  messaging,
+  unreadCounts,
+}) => {
+  const pendingRequests = requests.filter(req => AWAITING_STATUSES.includes(req.status));
+  const inProgressRequests = requests.filter(req => IN_PROGRESS_STATUSES.includes(req.status));
+  const closedRequests = requests.filter(req => CLOSED_STATUSES.includes(req.status));
+  const unreadMessages = totalUnread(unreadCounts, requests.map(req => req.id));
+
+  const bondable = inProgressRequests.flatMap((request) => {
+    const nodeOperator = nodeOperators.find(op => op.id === request.nodeOperatorId);
+    return nodeOperator ? [{ request, nodeOperator }] : [];
+  });
+
+  const requestList = (list: WhitelistRequest[]) => (
+    <RequestList
+      requests={list}
+      onEdit={onEditRequest}
+      onCancel={onCancelRequest}
+      loadAuditLog={loadAuditLog}
+      messaging={messaging}
+      unreadCounts={unreadCounts}
+    />
+  );
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold text-gray-900">My Whitelist Requests</h1>
-        <p className="mt-1 text-sm text-gray-500">
-          Track the status of your node operator whitelist requests
-        </p>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">My Whitelist Requests</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Track the status of your node operator whitelist requests
+          </p>
+        </div>
+        {unreadMessages > 0 && (
+          <Badge variant="info" className="mt-4 md:mt-0 self-start md:self-auto">
+            {unreadMessages} unread {unreadMessages === 1 ? 'message' : 'messages'}
+          </Badge>
+        )}
       </div>
       
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -45,8 +101,8 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ requests }) => {
                 <CheckCircle className="h-6 w-6 text-green-600" />
               </div>
               <div className="ml-4">
-                <p className="text-sm font-medium text-gray-500">Approved</p>
-                <p className="mt-1 text-2xl font-semibold text-gray-900">{approvedRequests.length}</p>
+                <p className="text-sm font-medium text-gray-500">In Progress</p>
+                <p className="mt-1 text-2xl font-semibold text-gray-900">{inProgressRequests.length}</p>
               </div>
             </div>
           </CardContent>
@@ -59,14 +115,39 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ requests }) => {
                 <XCircle className="h-6 w-6 text-red-600" />
               </div>
               <div className="ml-4">
-                <p className="text-sm font-medium text-gray-500">Rejected</p>
-                <p className="mt-1 text-2xl font-semibold text-gray-900">{rejectedRequests.length}</p>
+                <p className="text-sm font-medium text-gray-500">Closed</p>
+                <p className="mt-1 text-2xl font-semibold text-gray-900">{closedRequests.length}</p>
               </div>
             </div>
           </CardContent>
         </Card>
       </div>
       
+      {bondable.length > 0 && (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-medium text-gray-900">My Bonds</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Once the operator has whitelisted your wallet, send your bond with the memo below.
+              Record each transaction so your history stays with the request.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {bondable.map(({ request, nodeOperator }) => (
+              <BonderTransactions
+                key={request.id}
+                nodeOperator={nodeOperator}
+                request={request}
+                nodeStatus={nodeStatuses[nodeOperator.address]}
+                onSign={onSignDeposit}
+                onRecord={(transaction, txHash) => onRecordAction(request.id, transaction, txHash)}
+                onConfirmWithdrawal={() => onConfirmWithdrawal(request.id)}
+              />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <h2 className="text-lg font-medium text-gray-900">Request History</h2>
@@ -77,22 +158,22 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ requests }) => {
               {
                 id: 'all',
                 label: `All Requests (${requests.length})`,
-                content: <RequestList requests={requests} />,
+                content: requestList(requests),
               },
               {
                 id: 'pending',
                 label: `Pending (${pendingRequests.length})`,
-                content: <RequestList requests={pendingRequests} />,
+                content: requestList(pendingRequests),
               },
               {
-                id: 'approved',
-                label: `Approved (${approvedRequests.length})`,
-                content: <RequestList requests={approvedRequests} />,
+                id: 'in-progress',
+                label: `In Progress (${inProgressRequests.length})`,
+                content: requestList(inProgressRequests),
               },
               {
-                id: 'rejected',
-                label: `Rejected (${rejectedRequests.length})`,
-                content: <RequestList requests={rejectedRequests} />,
+                id: 'closed',
+                label: `Closed (${closedRequests.length})`,
+                content: requestList(closedRequests),
               },
             ]}
           />
@@ -2,22 +2,49 @@ import React, { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { Menu, X, User } from 'lucide-react';
 import Button from '../ui/Button';
+import Select from '../ui/Select';
+import WalletPicker from './WalletPicker';
+import NotificationMenu from './NotificationMenu';
+import { UserNotification } from '../../types';
+import { WalletProvider } from '../../lib/wallets';
+import { isNetworkId, NETWORK_IDS, NETWORKS, NetworkId } from '../../lib/networks';
+import { useNetwork } from '../../lib/networkContext';
+import { shortenAddress } from '../../lib/utils';
+
+const networkOptions = NETWORK_IDS.map((id) => ({ value: id, label: NETWORKS[id].name }));
 
 interface HeaderProps {
   isAuthenticated: boolean;
   isNodeOperator: boolean;
-  onConnect: () => void;
+  isModerator: boolean;
+  walletAddress?: string;
+  wallets: WalletProvider[];
+  notifications: UserNotification[];
+  onMarkNotificationsRead: (ids?: string[]) => void;
+  onNetworkChange: (networkId: NetworkId) => void;
+  onConnect: (walletId: string) => void;
   onDisconnect: () => void;
 }
 
 const Header: React.FC<HeaderProps> = ({
   isAuthenticated,
   isNodeOperator,
+  isModerator,
+  walletAddress,
+  wallets,
+  notifications,
+  onMarkNotificationsRead,
+  onNetworkChange,
   onConnect,
   onDisconnect,
 }) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const location = useLocation();
+  const network = useNetwork();
+
+  const handleNetworkChange = (value: string) => {
+    if (isNetworkId(value)) onNetworkChange(value);
+  };
 
   const navigation = [
     { name: 'Home', href: '/' },
@@ -28,6 +55,9 @@ const Header: React.FC<HeaderProps> = ({
     ...(isAuthenticated
       ? [{ name: 'My Requests', href: '/my-requests' }]
       : []),
+    ...(isModerator
+      ? [{ name: 'Moderation', href: '/admin' }]
+      : []),
   ];
 
   const isActive = (path: string) => {
@@ -65,12 +95,25 @@ const Header: React.FC<HeaderProps> = ({
               ))}
             </nav>
           </div>
-          <div className="hidden sm:ml-6 sm:flex sm:items-center">
+          <div className="hidden sm:ml-6 sm:flex sm:items-center sm:space-x-4">
+            <Select
+              aria-label="Network"
+              options={networkOptions}
+              value={network.id}
+              onChange={handleNetworkChange}
+              className="text-sm"
+            />
             {isAuthenticated ? (
               <div className="flex items-center">
-                <div className="flex items-center mr-4">
+                <NotificationMenu
+                  notifications={notifications}
+                  onMarkRead={onMarkNotificationsRead}
+                />
+                <div className="flex items-center ml-2 mr-4">
                   <User className="h-5 w-5 text-gray-400" />
-                  <span className="ml-2 text-sm text-gray-700">Connected</span>
+                  <span className="ml-2 text-sm text-gray-700" title={walletAddress}>
+                    {walletAddress ? shortenAddress(walletAddress) : 'Connected'}
+                  </span>
                 </div>
                 <Button
                   variant="outline"
@@ -81,16 +124,16 @@ const Header: React.FC<HeaderProps> = ({
                 </Button>
               </div>
             ) : (
-              <Button
-                variant="primary"
-                size="sm"
-                onClick={onConnect}
-              >
-                Connect Wallet
-              </Button>
+              <WalletPicker wallets={wallets} onSelect={onConnect} />
             )}
           </div>
           <div className="-mr-2 flex items-center sm:hidden">
+            {isAuthenticated && (
+              <NotificationMenu
+                notifications={notifications}
+                onMarkRead={onMarkNotificationsRead}
+              />
+            )}
             <button
               type="button"
               className="inline-flex items-center justify-center p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500"
@@ -127,31 +170,47 @@ const Header: React.FC<HeaderProps> = ({
             ))}
           </div>
           <div className="pt-4 pb-3 border-t border-gray-200">
-            <div className="flex items-center px-4">
+            <div className="px-4 space-y-2">
+              <Select
+                aria-label="Network"
+                options={networkOptions}
+                value={network.id}
+                onChange={handleNetworkChange}
+                fullWidth
+              />
               {isAuthenticated ? (
-                <Button
-                  variant="outline"
-                  size="sm"
-                  fullWidth
-                  onClick={() => {
-                    onDisconnect();
-                    setIsMenuOpen(false);
-                  }}
-                >
-                  Disconnect
-                </Button>
+                <>
+                  {walletAddress && (
+                    <p className="text-sm text-gray-700">{shortenAddress(walletAddress)}</p>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    fullWidth
+                    onClick={() => {
+                      onDisconnect();
+                      setIsMenuOpen(false);
+                    }}
+                  >
+                    Disconnect
+                  </Button>
+                </>
               ) : (
-                <Button
-                  variant="primary"
-                  size="sm"
-                  fullWidth
-                  onClick={() => {
-                    onConnect();
-                    setIsMenuOpen(false);
-                  }}
-                >
-                  Connect Wallet
-                </Button>
+                wallets.map((wallet) => (
+                  <Button
+                    key={wallet.id}
+                    variant={wallet.isAvailable() ? 'primary' : 'outline'}
+                    size="sm"
+                    fullWidth
+                    disabled={!wallet.isAvailable()}
+                    onClick={() => {
+                      onConnect(wallet.id);
+                      setIsMenuOpen(false);
+                    }}
+                  >
+                    Connect {wallet.name}
+                  </Button>
+                ))
               )}
             </div>
           </div>
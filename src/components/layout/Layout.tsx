@@ -1,12 +1,30 @@
 import React from 'react';
 import Header from './Header';
 import Footer from './Footer';
+import Alert from '../ui/Alert';
+import { UserNotification } from '../../types';
+import { WalletProvider } from '../../lib/wallets';
+import { NetworkId } from '../../lib/networks';
+
+/** A failed load or action, shown above the page. */
+export interface ActionError {
+  title: string;
+  message: string;
+}
 
 interface LayoutProps {
   children: React.ReactNode;
   isAuthenticated: boolean;
   isNodeOperator: boolean;
-  onConnect: () => void;
+  isModerator: boolean;
+  walletAddress?: string;
+  wallets: WalletProvider[];
+  walletError?: string | null;
+  actionError?: ActionError | null;
+  notifications: UserNotification[];
+  onMarkNotificationsRead: (ids?: string[]) => void;
+  onNetworkChange: (networkId: NetworkId) => void;
+  onConnect: (walletId: string) => void;
   onDisconnect: () => void;
 }
 
@@ -14,6 +32,14 @@ const Layout: React.FC<LayoutProps> = ({
   children,
   isAuthenticated,
   isNodeOperator,
+  isModerator,
+  walletAddress,
+  wallets,
+  walletError,
+  actionError,
+  notifications,
+  onMarkNotificationsRead,
+  onNetworkChange,
   onConnect,
   onDisconnect,
 }) => {
@@ -22,10 +48,30 @@ const Layout: React.FC<LayoutProps> = ({
       <Header
         isAuthenticated={isAuthenticated}
         isNodeOperator={isNodeOperator}
+        isModerator={isModerator}
+        walletAddress={walletAddress}
+        wallets={wallets}
+        notifications={notifications}
+        onMarkNotificationsRead={onMarkNotificationsRead}
+        onNetworkChange={onNetworkChange}
         onConnect={onConnect}
         onDisconnect={onDisconnect}
       />
       <main className="flex-grow bg-gray-50">
+        {walletError && (
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6">
+            <Alert variant="error" title="Wallet Connection Failed">
+              {walletError}
+            </Alert>
+          </div>
+        )}
+        {actionError && (
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6">
+            <Alert variant="error" title={actionError.title}>
+              {actionError.message}
+            </Alert>
+          </div>
+        )}
         {children}
       </main>
       <Footer />
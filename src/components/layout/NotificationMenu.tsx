@@ -0,0 +1,92 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Menu, MenuButton, MenuItem, MenuItems } from '@headlessui/react';
+import { Bell } from 'lucide-react';
+import { NotificationType, UserNotification } from '../../types';
+import { countUnreadNotifications } from '../../lib/notifications';
+import { getTimeAgo } from '../../lib/utils';
+
+const NOTIFICATION_LINKS: Record<NotificationType, string> = {
+  'request-received': '/operator-dashboard',
+  'request-approved': '/my-requests',
+  'request-rejected': '/my-requests',
+  'listing-terms-changed': '/my-requests',
+  'team-invite': '/operator-dashboard',
+};
+
+interface NotificationMenuProps {
+  notifications: UserNotification[];
+  onMarkRead: (ids?: string[]) => void;
+}
+
+const NotificationMenu: React.FC<NotificationMenuProps> = ({ notifications, onMarkRead }) => {
+  const navigate = useNavigate();
+  const unread = countUnreadNotifications(notifications);
+
+  const handleOpen = (notification: UserNotification) => {
+    if (notification.readAt === null) onMarkRead([notification.id]);
+    navigate(NOTIFICATION_LINKS[notification.type]);
+  };
+
+  return (
+    <Menu as="div" className="relative">
+      <MenuButton
+        aria-label={unread > 0 ? `Notifications (${unread} unread)` : 'Notifications'}
+        className="relative p-2 rounded-full text-gray-400 hover:text-gray-500 hover:bg-gray-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+      >
+        <Bell className="h-5 w-5" />
+        {unread > 0 && (
+          <span className="absolute top-0 right-0 inline-flex items-center justify-center h-4 min-w-[1rem] px-1 rounded-full bg-red-600 text-[10px] font-medium text-white">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </MenuButton>
+      <MenuItems className="absolute right-0 z-10 mt-2 w-80 origin-top-right rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+          <span className="text-sm font-medium text-gray-900">Notifications</span>
+          {unread > 0 && (
+            <button
+              type="button"
+              onClick={() => onMarkRead()}
+              className="text-xs text-blue-600 hover:underline"
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-gray-500">No notifications yet</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {notifications.map((notification) => (
+              <MenuItem key={notification.id}>
+                <button
+                  type="button"
+                  onClick={() => handleOpen(notification)}
+                  className={`block w-full px-4 py-3 text-left data-[focus]:bg-gray-100 ${
+                    notification.readAt === null ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <span className="flex items-start justify-between">
+                    <span className="text-sm font-medium text-gray-900">{notification.title}</span>
+                    {notification.readAt === null && (
+                      <span className="ml-2 mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-blue-600" />
+                    )}
+                  </span>
+                  {notification.body && (
+                    <span className="mt-0.5 block text-xs text-gray-600">{notification.body}</span>
+                  )}
+                  <span className="mt-1 block text-xs text-gray-400">
+                    {getTimeAgo(notification.createdAt)}
+                  </span>
+                </button>
+              </MenuItem>
+            ))}
+          </div>
+        )}
+      </MenuItems>
+    </Menu>
+  );
+};
+
+export default NotificationMenu;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Menu, MenuButton, MenuItem, MenuItems } from '@headlessui/react';
+import { ChevronDown, Wallet } from 'lucide-react';
+import { WalletProvider } from '../../lib/wallets';
+
+interface WalletPickerProps {
+  wallets: WalletProvider[];
+  onSelect: (walletId: string) => void;
+}
+
+const WalletPicker: React.FC<WalletPickerProps> = ({ wallets, onSelect }) => {
+  return (
+    <Menu as="div" className="relative">
+      <MenuButton className="inline-flex items-center justify-center rounded-md font-medium transition-colors h-9 px-3 text-sm bg-blue-600 text-white hover:bg-blue-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-blue-500">
+        Connect Wallet
+        <ChevronDown className="h-4 w-4 ml-1" />
+      </MenuButton>
+      <MenuItems className="absolute right-0 z-10 mt-2 w-56 origin-top-right rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+        {wallets.map((wallet) => {
+          const available = wallet.isAvailable();
+          return (
+            <MenuItem key={wallet.id} disabled={!available}>
+              <button
+                type="button"
+                onClick={() => onSelect(wallet.id)}
+                className="flex w-full items-center justify-between px-4 py-2 text-sm text-gray-700 data-[focus]:bg-gray-100 data-[disabled]:opacity-50"
+              >
+                <span className="flex items-center">
+                  <Wallet className="h-4 w-4 mr-2 text-gray-400" />
+                  {wallet.name}
+                </span>
+                {!available && <span className="text-xs text-gray-400">Not installed</span>}
+              </button>
+            </MenuItem>
+          );
+        })}
+      </MenuItems>
+    </Menu>
+  );
+};
+
+export default WalletPicker;
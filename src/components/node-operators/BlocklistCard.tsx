@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Ban, Trash2 } from 'lucide-react';
+import { Card, CardHeader, CardContent } from '../ui/Card';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import Button from '../ui/Button';
+import { BlocklistEntry, BlocklistEntryInput, BlocklistEntryKind } from '../../types';
+import { BLOCKLIST_KIND_LABELS } from '../../lib/requestRules';
+
+interface BlocklistCardProps {
+  entries: BlocklistEntry[];
+  onAdd: (entry: Omit<BlocklistEntryInput, 'nodeOperatorId'>) => Promise<void>;
+  onRemove: (entryId: string) => Promise<void>;
+}
+
+const kindOptions = (Object.keys(BLOCKLIST_KIND_LABELS) as BlocklistEntryKind[]).map((kind) => ({
+  value: kind,
+  label: BLOCKLIST_KIND_LABELS[kind],
+}));
+
+const BlocklistCard: React.FC<BlocklistCardProps> = ({ entries, onAdd, onRemove }) => {
+  const [kind, setKind] = useState<BlocklistEntryKind>('wallet');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canAdd = value.trim() !== '' && reason.trim() !== '' && !isSaving;
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    try {
+      await onAdd({ kind, value: value.trim(), reason: reason.trim() });
+      setValue('');
+      setReason('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-lg font-medium text-gray-900">Blocklist</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          New requests from these wallets or handles are rejected automatically, and the bonder
+          sees the reason you give. Handles match without case or a leading @.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <Select
+            label="Match"
+            options={kindOptions}
+            value={kind}
+            onChange={(next) => setKind(next as BlocklistEntryKind)}
+            fullWidth
+          />
+          <Input
+            label={BLOCKLIST_KIND_LABELS[kind]}
+            placeholder={kind === 'wallet' ? 'thor...' : '@username'}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            fullWidth
+          />
+          <Input
+            label="Reason"
+            placeholder="Shown to the bonder"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            fullWidth
+          />
+          <Button variant="outline" onClick={handleAdd} disabled={!canAdd}>
+            <Ban className="h-4 w-4 mr-1" />
+            Block
+          </Button>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500">No one is blocked.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {entries.map((entry) => (
+              <li key={entry.id} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {BLOCKLIST_KIND_LABELS[entry.kind]}: {entry.value}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {entry.reason} · added {format(entry.createdAt, 'MMM d, yyyy')}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => onRemove(entry.id)}>
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Unblock
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BlocklistCard;
@@ -1,33 +1,60 @@
-import React from 'react';
-import { Clock, User } from 'lucide-react';
+import React, { useState } from 'react';
+import { BadgeCheck, ChevronDown, ChevronRight, Clock, Flag, User } from 'lucide-react';
 import { Card, CardContent, CardFooter } from '../ui/Card';
+import AddressLink from '../ui/AddressLink';
 import Button from '../ui/Button';
 import Badge from '../ui/Badge';
-import { NodeOperator } from '../../types';
-import { formatRune, shortenAddress, getTimeAgo } from '../../lib/utils';
+import NodeStatusBadge from './NodeStatusBadge';
+import AuditTimeline from '../audit/AuditTimeline';
+import { AuditLogLoader, NodeOperator } from '../../types';
+import { NodeStatusSummary } from '../../lib/nodeStatus';
+import { formatRune } from '../../lib/rune';
+import { getTimeAgo } from '../../lib/utils';
+import { isVerified } from '../../lib/moderation';
 
 interface NodeOperatorCardProps {
   nodeOperator: NodeOperator;
+  nodeStatus?: NodeStatusSummary;
+  /** Bond provider slots still open, out of `slotLimit`. */
+  slotsRemaining: number;
+  slotLimit: number;
   onRequestWhitelist: (nodeOperatorId: string) => void;
+  /** When set, the listing's history, such as past term changes, can be expanded. */
+  loadAuditLog?: AuditLogLoader;
+  /** When set, the listing can be reported to the platform's moderators. */
+  onReport?: (nodeOperatorId: string) => void;
 }
 
 const NodeOperatorCard: React.FC<NodeOperatorCardProps> = ({
   nodeOperator,
+  nodeStatus,
+  slotsRemaining,
+  slotLimit,
   onRequestWhitelist,
+  loadAuditLog,
+  onReport,
 }) => {
+  const [showHistory, setShowHistory] = useState(false);
+
   return (
     <Card className="h-full flex flex-col">
       <CardContent className="flex-grow">
         <div className="flex justify-between items-start">
-          <h3 className="text-lg font-medium text-gray-900">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
             Node Operator
+            {isVerified(nodeOperator) && (
+              <Badge variant="success" className="ml-2">
+                <BadgeCheck className="h-3 w-3 mr-1" />
+                Verified
+              </Badge>
+            )}
           </h3>
-          <Badge variant="info">Active</Badge>
+          <NodeStatusBadge status={nodeStatus} />
         </div>
         
         <div className="mt-2 text-sm text-gray-500 flex items-center">
           <User className="h-4 w-4 mr-1" />
-          <span>{shortenAddress(nodeOperator.address)}</span>
+          <AddressLink address={nodeOperator.address} />
         </div>
         
         <div className="mt-4 space-y-3">
@@ -50,8 +77,35 @@ const NodeOperatorCard: React.FC<NodeOperatorCardProps> = ({
             <span className="text-sm text-gray-500">Instant Churn Amount:</span>
             <span className="text-sm font-medium">{formatRune(nodeOperator.instantChurnAmount)} RUNE</span>
           </div>
+          
+          <div className="flex justify-between">
+            <span className="text-sm text-gray-500">Slots Remaining:</span>
+            <span className={`text-sm font-medium ${slotsRemaining > 0 ? '' : 'text-red-600'}`}>
+              {Math.max(slotsRemaining, 0)} of {slotLimit}
+            </span>
+          </div>
         </div>
         
+        {nodeStatus && (
+          <div className="mt-4 pt-3 border-t border-gray-100 space-y-2">
+            <div className="flex justify-between">
+              <span className="text-xs text-gray-500">Current Bond:</span>
+              <span className="text-xs font-medium">{formatRune(nodeStatus.totalBond)} RUNE</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-xs text-gray-500">Slash Points:</span>
+              <span className="text-xs font-medium">{nodeStatus.slashPoints}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-xs text-gray-500">Version:</span>
+              <span className="text-xs font-medium">{nodeStatus.version}</span>
+            </div>
+            {nodeStatus.jailReason && (
+              <p className="text-xs text-red-600">Jailed: {nodeStatus.jailReason}</p>
+            )}
+          </div>
+        )}
+        
         {nodeOperator.description && (
           <div className="mt-4">
             <p className="text-sm text-gray-600">{nodeOperator.description}</p>
@@ -67,10 +121,47 @@ const NodeOperatorCard: React.FC<NodeOperatorCardProps> = ({
       
       <CardFooter className="border-t border-gray-200 pt-4">
         <div className="w-full flex flex-col space-y-3">
-          <div className="flex items-center text-xs text-gray-500">
-            <Clock className="h-3 w-3 mr-1" />
-            <span>Listed {getTimeAgo(nodeOperator.createdAt)}</span>
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span className="flex items-center">
+              <Clock className="h-3 w-3 mr-1" />
+              Listed {getTimeAgo(nodeOperator.createdAt)}
+            </span>
+            <span className="flex items-center space-x-3">
+              {loadAuditLog && (
+                <button
+                  type="button"
+                  aria-expanded={showHistory}
+                  onClick={() => setShowHistory(!showHistory)}
+                  className="flex items-center text-blue-600 hover:underline"
+                >
+                  {showHistory ? (
+                    <ChevronDown className="h-3 w-3 mr-0.5" />
+                  ) : (
+                    <ChevronRight className="h-3 w-3 mr-0.5" />
+                  )}
+                  History
+                </button>
+              )}
+              {onReport && (
+                <button
+                  type="button"
+                  onClick={() => onReport(nodeOperator.id)}
+                  className="flex items-center text-gray-500 hover:text-red-600 hover:underline"
+                >
+                  <Flag className="h-3 w-3 mr-0.5" />
+                  Report
+                </button>
+              )}
+            </span>
           </div>
+
+          {loadAuditLog && showHistory && (
+            <AuditTimeline
+              subjectType="node-operator"
+              subjectId={nodeOperator.id}
+              loadAuditLog={loadAuditLog}
+            />
+          )}
           
           <Button
             variant="primary"
@@ -1,27 +1,28 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Card, CardHeader, CardContent, CardFooter } from '../ui/Card';
 import Input from '../ui/Input';
 import Button from '../ui/Button';
-import { validateThorAddress } from '../../lib/utils';
+import { thorAddressRefinement, ThorAddressPrefix } from '../../lib/address';
+import { useNetwork } from '../../lib/networkContext';
+import { DEFAULT_REJECTION_TEMPLATES } from '../../lib/requestRules';
+import { RUNE_INPUT_STEP, tryParseRune } from '../../lib/rune';
 
-// Form validation schema
-const nodeOperatorSchema = z.object({
-  address: z.string().min(1, 'Node address is required')
-    .refine(validateThorAddress, {
-      message: 'Invalid THORChain node address',
-    }),
+// Form validation schema; node addresses must belong to the selected network
+const createNodeOperatorSchema = (addressPrefix: ThorAddressPrefix) => z.object({
+  address: z.string().trim().toLowerCase().min(1, 'Node address is required')
+    .superRefine(thorAddressRefinement([addressPrefix])),
   bondingCapacity: z.string()
     .min(1, 'Bonding capacity is required')
-    .refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
-      message: 'Bonding capacity must be a positive number',
+    .refine((val) => (tryParseRune(val) ?? 0n) > 0n, {
+      message: 'Bonding capacity must be a positive amount with at most 8 decimals',
     }),
   minimumBond: z.string()
     .min(1, 'Minimum bond is required')
-    .refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
-      message: 'Minimum bond must be a positive number',
+    .refine((val) => (tryParseRune(val) ?? 0n) > 0n, {
+      message: 'Minimum bond must be a positive amount with at most 8 decimals',
     }),
   feePercentage: z.string()
     .min(1, 'Fee percentage is required')
@@ -30,46 +31,76 @@ const nodeOperatorSchema = z.object({
     }),
   instantChurnAmount: z.string()
     .min(1, 'Instant churn amount is required')
-    .refine((val) => !isNaN(Number(val)) && Number(val) >= 0, {
-      message: 'Instant churn amount must be a non-negative number',
+    .refine((val) => tryParseRune(val) !== null, {
+      message: 'Instant churn amount must be a non-negative amount with at most 8 decimals',
+    }),
+  // Blank follows the network's limit.
+  maxBondProviders: z.string()
+    .refine((val) => val === '' || (Number.isInteger(Number(val)) && Number(val) > 0), {
+      message: 'Max bond providers must be a whole number above 0, or blank',
     }),
+  // One template per line.
+  rejectionTemplates: z.string(),
   description: z.string().optional(),
   contactInfo: z.string().optional(),
 });
 
-type NodeOperatorFormData = z.infer<typeof nodeOperatorSchema>;
+export type NodeOperatorFormData = z.infer<ReturnType<typeof createNodeOperatorSchema>>;
 
 interface NodeOperatorFormProps {
   initialData?: Partial<NodeOperatorFormData>;
-  onSubmit: (data: NodeOperatorFormData) => void;
+  /** The network's bond provider limit, shown as the default for the override. */
+  networkMaxBondProviders: number;
+  /** Resolves to an error message when the node cannot be verified on-chain. */
+  onVerifyAddress?: (address: string) => Promise<string | null>;
+  onSubmit: (data: NodeOperatorFormData) => Promise<void>;
   onCancel: () => void;
 }
 
 const NodeOperatorForm: React.FC<NodeOperatorFormProps> = ({
   initialData,
+  networkMaxBondProviders,
+  onVerifyAddress,
   onSubmit,
   onCancel,
 }) => {
+  const network = useNetwork();
+  const nodeOperatorSchema = useMemo(
+    () => createNodeOperatorSchema(network.addressPrefix),
+    [network.addressPrefix]
+  );
+
   const {
     register,
     handleSubmit,
     formState: { errors, isSubmitting },
+    setError,
     watch,
   } = useForm<NodeOperatorFormData>({
     resolver: zodResolver(nodeOperatorSchema),
     defaultValues: initialData || {
       feePercentage: '16',
+      maxBondProviders: '',
+      rejectionTemplates: DEFAULT_REJECTION_TEMPLATES.join('\n'),
     },
   });
 
-  const bondingCapacity = Number(watch('bondingCapacity') || 0);
-  const minimumBond = Number(watch('minimumBond') || 0);
-  const instantChurnAmount = Number(watch('instantChurnAmount') || 0);
+  const bondingCapacity = tryParseRune(watch('bondingCapacity') || '0') ?? 0n;
+  const minimumBond = tryParseRune(watch('minimumBond') || '0') ?? 0n;
+  const instantChurnAmount = tryParseRune(watch('instantChurnAmount') || '0') ?? 0n;
 
   const isFormValid = bondingCapacity >= minimumBond && instantChurnAmount <= bondingCapacity;
 
-  const onFormSubmit = (data: NodeOperatorFormData) => {
-    onSubmit({
+  const onFormSubmit = async (data: NodeOperatorFormData) => {
+    if (onVerifyAddress) {
+      const verificationError = await onVerifyAddress(data.address);
+      if (verificationError) {
+        setError('address', { message: verificationError });
+        return;
+      }
+    }
+
+    await onSubmit({
       ...data,
       bondingCapacity: data.bondingCapacity,
       minimumBond: data.minimumBond,
@@ -105,6 +136,7 @@ const NodeOperatorForm: React.FC<NodeOperatorFormProps> = ({
                 label="Available Bonding Capacity (RUNE)"
                 type="number"
                 min="0"
+                step={RUNE_INPUT_STEP}
                 {...register('bondingCapacity')}
                 error={errors.bondingCapacity?.message}
                 fullWidth
@@ -114,6 +146,7 @@ const NodeOperatorForm: React.FC<NodeOperatorFormProps> = ({
                 label="Minimum Bond Requirement (RUNE)"
                 type="number"
                 min="0"
+                step={RUNE_INPUT_STEP}
                 {...register('minimumBond')}
                 error={errors.minimumBond?.message}
                 fullWidth
@@ -136,6 +169,7 @@ const NodeOperatorForm: React.FC<NodeOperatorFormProps> = ({
                 label="Instant Churn Amount (RUNE)"
                 type="number"
                 min="0"
+                step={RUNE_INPUT_STEP}
                 {...register('instantChurnAmount')}
                 error={errors.instantChurnAmount?.message}
                 fullWidth
@@ -143,15 +177,54 @@ const NodeOperatorForm: React.FC<NodeOperatorFormProps> = ({
             </div>
             
             <Input
-              label="Description (Optional)"
-              placeholder="Describe your node operation, experience, etc."
-              {...register('description')}
-              error={errors.description?.message}
+              label="Max Bond Providers (Optional)"
+              type="number"
+              min="1"
+              step="1"
+              placeholder={`Network limit: ${networkMaxBondProviders}`}
+              {...register('maxBondProviders')}
+              error={errors.maxBondProviders?.message}
               fullWidth
-              as="textarea"
-              rows={3}
             />
             
+            <div>
+              <label
+                htmlFor="rejection-templates"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Rejection Reason Templates (Optional)
+              </label>
+              <textarea
+                id="rejection-templates"
+                rows={3}
+                placeholder="One reason per line"
+                {...register('rejectionTemplates')}
+                className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Offered as quick choices when you reject a request.
+              </p>
+            </div>
+            
+            <div>
+              <label
+                htmlFor="description"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Description (Optional)
+              </label>
+              <textarea
+                id="description"
+                rows={3}
+                placeholder="Describe your node operation, experience, etc."
+                {...register('description')}
+                className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              {errors.description && (
+                <p className="mt-1 text-sm text-red-600">{errors.description.message}</p>
+              )}
+            </div>
+            
             <Input
               label="Contact Information (Optional)"
               placeholder="Discord, Telegram, X, etc."
@@ -176,7 +249,9 @@ const NodeOperatorForm: React.FC<NodeOperatorFormProps> = ({
           onClick={handleSubmit(onFormSubmit)}
           disabled={isSubmitting || !isFormValid}
         >
-          {initialData ? 'Update Listing' : 'Publish Listing'}
+          {isSubmitting
+            ? 'Verifying Node...'
+            : initialData ? 'Update Listing' : 'Publish Listing'}
         </Button>
       </CardFooter>
     </Card>
@@ -3,16 +3,30 @@ import { Search, SlidersHorizontal } from 'lucide-react';
 import NodeOperatorCard from './NodeOperatorCard';
 import Input from '../ui/Input';
 import Select from '../ui/Select';
-import { NodeOperator } from '../../types';
+import { AuditLogLoader, NodeOperator } from '../../types';
+import { NodeStatusMap } from '../../lib/nodeStatus';
+import { compareRune, parseRune } from '../../lib/rune';
+import { bondProviderLimit } from '../../lib/capacity';
 
 interface NodeOperatorListProps {
   nodeOperators: NodeOperator[];
+  nodeStatuses: NodeStatusMap;
+  /** Provider slots taken on each listing, by listing id. */
+  providerSlotsTaken: Record<string, number>;
+  networkMaxBondProviders: number;
   onRequestWhitelist: (nodeOperatorId: string) => void;
+  loadAuditLog?: AuditLogLoader;
+  onReport?: (nodeOperatorId: string) => void;
 }
 
 const NodeOperatorList: React.FC<NodeOperatorListProps> = ({
   nodeOperators,
+  nodeStatuses,
+  providerSlotsTaken,
+  networkMaxBondProviders,
   onRequestWhitelist,
+  loadAuditLog,
+  onReport,
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState('bondingCapacity');
@@ -38,7 +52,7 @@ const NodeOperatorList: React.FC<NodeOperatorListProps> = ({
     .filter((operator) => {
       // Filter by minimum bond
       if (filterMinBond) {
-        return operator.minimumBond <= parseInt(filterMinBond);
+        return operator.minimumBond <= parseRune(filterMinBond);
       }
       return true;
     })
@@ -46,9 +60,9 @@ const NodeOperatorList: React.FC<NodeOperatorListProps> = ({
       // Sort by selected criteria
       switch (sortBy) {
         case 'bondingCapacity':
-          return b.bondingCapacity - a.bondingCapacity;
+          return compareRune(b.bondingCapacity, a.bondingCapacity);
         case 'minimumBond':
-          return a.minimumBond - b.minimumBond;
+          return compareRune(a.minimumBond, b.minimumBond);
         case 'feePercentage':
           return a.feePercentage - b.feePercentage;
         case 'newest':
@@ -120,7 +134,15 @@ const NodeOperatorList: React.FC<NodeOperatorListProps> = ({
             <NodeOperatorCard
               key={operator.id}
               nodeOperator={operator}
+              nodeStatus={nodeStatuses[operator.address]}
+              slotsRemaining={
+                bondProviderLimit(operator, networkMaxBondProviders) -
+                (providerSlotsTaken[operator.id] ?? 0)
+              }
+              slotLimit={bondProviderLimit(operator, networkMaxBondProviders)}
               onRequestWhitelist={onRequestWhitelist}
+              loadAuditLog={loadAuditLog}
+              onReport={onReport}
             />
           ))}
         </div>
@@ -0,0 +1,37 @@
+import React from 'react';
+import Badge from '../ui/Badge';
+import { NodeStatus, NodeStatusSummary } from '../../lib/nodeStatus';
+
+interface NodeStatusBadgeProps {
+  status?: NodeStatusSummary;
+  className?: string;
+}
+
+const statusVariants: Record<NodeStatus, 'default' | 'success' | 'warning' | 'danger' | 'info'> = {
+  Active: 'success',
+  Ready: 'info',
+  Standby: 'warning',
+  Whitelisted: 'default',
+  Disabled: 'danger',
+  Jailed: 'danger',
+  Unknown: 'default',
+};
+
+const NodeStatusBadge: React.FC<NodeStatusBadgeProps> = ({ status, className = '' }) => {
+  if (!status) {
+    return (
+      <Badge variant="default" className={className}>
+        Status unavailable
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant={statusVariants[status.status]} className={className}>
+      {status.status}
+      {status.requestedToLeave && ' (leaving)'}
+    </Badge>
+  );
+};
+
+export default NodeStatusBadge;
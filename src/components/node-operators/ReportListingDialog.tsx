@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Select from '../ui/Select';
+import Alert from '../ui/Alert';
+import { AbuseReportCategory, NodeOperator } from '../../types';
+import {
+  ABUSE_REPORT_CATEGORIES,
+  ABUSE_REPORT_CATEGORY_LABELS,
+  REPORT_DETAILS_MAX_LENGTH,
+} from '../../lib/moderation';
+import { shortenAddress } from '../../lib/utils';
+
+interface ReportListingDialogProps {
+  nodeOperator: NodeOperator;
+  onSubmit: (category: AbuseReportCategory, details: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const categoryOptions = ABUSE_REPORT_CATEGORIES.map((category) => ({
+  value: category,
+  label: ABUSE_REPORT_CATEGORY_LABELS[category],
+}));
+
+const ReportListingDialog: React.FC<ReportListingDialogProps> = ({
+  nodeOperator,
+  onSubmit,
+  onClose,
+}) => {
+  const [category, setCategory] = useState<AbuseReportCategory>('scam');
+  const [details, setDetails] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    setIsSending(true);
+    setError(null);
+    try {
+      await onSubmit(category, details.trim());
+      onClose();
+    } catch (submitError) {
+      setError((submitError as Error).message);
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen
+      title="Report Listing"
+      onClose={onClose}
+      footer={
+        <>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            disabled={!details.trim() || isSending}
+            onClick={handleSubmit}
+          >
+            Send Report
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Tell the moderators what is wrong with the listing for node{' '}
+          {shortenAddress(nodeOperator.address)}. They can hide it while they look into it.
+        </p>
+
+        {error && (
+          <Alert variant="error" title="Report not sent">
+            {error}
+          </Alert>
+        )}
+
+        <Select
+          label="Category"
+          options={categoryOptions}
+          value={category}
+          onChange={(next) => setCategory(next as AbuseReportCategory)}
+          fullWidth
+        />
+
+        <div>
+          <label htmlFor="report-details" className="block text-sm font-medium text-gray-700 mb-1">
+            Details
+          </label>
+          <textarea
+            id="report-details"
+            rows={4}
+            maxLength={REPORT_DETAILS_MAX_LENGTH}
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="e.g. This listing copies another operator's name and contact details"
+            className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ReportListingDialog;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { LogOut, Trash2, UserPlus } from 'lucide-react';
+import { Card, CardHeader, CardContent } from '../ui/Card';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import AddressLink from '../ui/AddressLink';
+import { TeamMember, TeamRole } from '../../types';
+import { checkThorAddress } from '../../lib/address';
+import { useNetwork } from '../../lib/networkContext';
+import { hasRole, TEAM_ROLE_DESCRIPTIONS, TEAM_ROLE_LABELS, TEAM_ROLES } from '../../lib/team';
+
+interface TeamCardProps {
+  operatorAddress: string;
+  members: TeamMember[];
+  /** The signed-in wallet and its role on the listing. */
+  viewerAddress: string;
+  viewerRole: TeamRole;
+  onInvite: (memberAddress: string, role: TeamRole) => Promise<void>;
+  onSetRole: (memberId: string, role: TeamRole) => Promise<void>;
+  onRemove: (memberId: string) => Promise<void>;
+}
+
+const roleOptions = TEAM_ROLES.map((role) => ({ value: role, label: TEAM_ROLE_LABELS[role] }));
+
+const TeamCard: React.FC<TeamCardProps> = ({
+  operatorAddress,
+  members,
+  viewerAddress,
+  viewerRole,
+  onInvite,
+  onSetRole,
+  onRemove,
+}) => {
+  const network = useNetwork();
+  const [memberAddress, setMemberAddress] = useState('');
+  const [role, setRole] = useState<TeamRole>('manager');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canManage = hasRole(viewerRole, 'owner');
+  const addressCheck = memberAddress.trim()
+    ? checkThorAddress(memberAddress, [network.addressPrefix])
+    : null;
+  const canInvite = addressCheck?.valid === true && !isSaving;
+
+  const handleInvite = async () => {
+    setIsSaving(true);
+    try {
+      await onInvite(memberAddress.trim().toLowerCase(), role);
+      setMemberAddress('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-lg font-medium text-gray-900">Team</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          People who help run this listing. Invitees join once they accept from their own Operator
+          Dashboard.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canManage && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start">
+            <div className="md:col-span-2">
+              <Input
+                label="Wallet address"
+                placeholder={`${network.addressPrefix}1...`}
+                value={memberAddress}
+                onChange={(e) => setMemberAddress(e.target.value)}
+                error={addressCheck && !addressCheck.valid ? addressCheck.message : undefined}
+                fullWidth
+              />
+            </div>
+            <Select
+              label="Role"
+              options={roleOptions}
+              value={role}
+              onChange={(next) => setRole(next as TeamRole)}
+              fullWidth
+            />
+            <Button variant="outline" className="md:mt-6" onClick={handleInvite} disabled={!canInvite}>
+              <UserPlus className="h-4 w-4 mr-1" />
+              Invite
+            </Button>
+            <p className="md:col-span-4 text-xs text-gray-500">{TEAM_ROLE_DESCRIPTIONS[role]}.</p>
+          </div>
+        )}
+
+        <ul className="divide-y divide-gray-200">
+          <li className="py-3 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                <AddressLink address={operatorAddress} />
+                {operatorAddress === viewerAddress && <span className="text-gray-500"> (you)</span>}
+              </p>
+              <p className="text-xs text-gray-500">Operator wallet</p>
+            </div>
+            <Badge variant="info">{TEAM_ROLE_LABELS.owner}</Badge>
+          </li>
+          {members.map((member) => {
+            const isViewer = member.memberAddress === viewerAddress;
+            return (
+              <li key={member.id} className="py-3 flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-900 flex items-center">
+                    <AddressLink address={member.memberAddress} />
+                    {isViewer && <span className="ml-1 text-gray-500">(you)</span>}
+                    {!member.joinedAt && (
+                      <Badge variant="warning" className="ml-2">
+                        Invited
+                      </Badge>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {member.joinedAt
+                      ? `Joined ${format(member.joinedAt, 'MMM d, yyyy')}`
+                      : `Invited ${format(member.createdAt, 'MMM d, yyyy')}`}
+                  </p>
+                </div>
+                <div className="flex flex-shrink-0 items-center space-x-2">
+                  {canManage ? (
+                    <Select
+                      aria-label={`Role for ${member.memberAddress}`}
+                      options={roleOptions}
+                      value={member.role}
+                      onChange={(next) => onSetRole(member.id, next as TeamRole)}
+                      className="text-sm"
+                    />
+                  ) : (
+                    <Badge>{TEAM_ROLE_LABELS[member.role]}</Badge>
+                  )}
+                  {(canManage || isViewer) && (
+                    <Button variant="outline" size="sm" onClick={() => onRemove(member.id)}>
+                      {isViewer ? (
+                        <LogOut className="h-4 w-4 mr-1" />
+                      ) : (
+                        <Trash2 className="h-4 w-4 mr-1" />
+                      )}
+                      {isViewer ? 'Leave' : member.joinedAt ? 'Remove' : 'Revoke'}
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TeamCard;
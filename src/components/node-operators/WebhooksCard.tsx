@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Eye, EyeOff, Pause, Play, RefreshCw, Trash2, Webhook as WebhookIcon } from 'lucide-react';
+import { Card, CardHeader, CardContent } from '../ui/Card';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { Webhook, WebhookDelivery, WebhookEvent, WebhookFormat, WebhookInput } from '../../types';
+import {
+  checkWebhookUrl,
+  displayWebhookUrl,
+  SIGNATURE_HEADER,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_EVENTS,
+  WEBHOOK_FORMAT_LABELS,
+} from '../../lib/webhooks';
+
+interface WebhooksCardProps {
+  webhooks: Webhook[];
+  deliveries: WebhookDelivery[];
+  onAdd: (webhook: Omit<WebhookInput, 'nodeOperatorId'>) => Promise<void>;
+  onSetEnabled: (webhookId: string, enabled: boolean) => Promise<void>;
+  onRemove: (webhookId: string) => Promise<void>;
+  onRefreshDeliveries: () => Promise<void>;
+}
+
+const formatOptions = (Object.keys(WEBHOOK_FORMAT_LABELS) as WebhookFormat[]).map((value) => ({
+  value,
+  label: WEBHOOK_FORMAT_LABELS[value],
+}));
+
+const URL_PLACEHOLDERS: Record<WebhookFormat, string> = {
+  json: 'https://example.com/runebond',
+  discord: 'https://discord.com/api/webhooks/...',
+  telegram: 'https://api.telegram.org/bot<token>/sendMessage',
+};
+
+// Local stand-ins such as `npm run webhook:receiver` are plain HTTP.
+const allowHttp = import.meta.env.DEV;
+
+const RECENT_DELIVERIES = 20;
+
+const WebhooksCard: React.FC<WebhooksCardProps> = ({
+  webhooks,
+  deliveries,
+  onAdd,
+  onSetEnabled,
+  onRemove,
+  onRefreshDeliveries,
+}) => {
+  const [webhookFormat, setWebhookFormat] = useState<WebhookFormat>('discord');
+  const [url, setUrl] = useState('');
+  const [chatId, setChatId] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(WEBHOOK_EVENTS);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const urlCheck = url.trim() ? checkWebhookUrl(url.trim(), allowHttp) : null;
+  const canAdd =
+    urlCheck?.valid === true &&
+    events.length > 0 &&
+    (webhookFormat !== 'telegram' || chatId.trim() !== '') &&
+    !isSaving;
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((prev) =>
+      prev.includes(event) ? prev.filter((item) => item !== event) : [...prev, event]
+    );
+  };
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    try {
+      await onAdd({
+        url: url.trim(),
+        format: webhookFormat,
+        events: WEBHOOK_EVENTS.filter((event) => events.includes(event)),
+        telegramChatId: webhookFormat === 'telegram' ? chatId.trim() : undefined,
+        enabled: true,
+      });
+      setUrl('');
+      setChatId('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const webhookUrl = (webhookId: string) => {
+    const webhook = webhooks.find((item) => item.id === webhookId);
+    return webhook ? displayWebhookUrl(webhook.url) : 'Removed webhook';
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-lg font-medium text-gray-900">Webhooks</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Get new, approved and rejected requests in Discord, Telegram or your own endpoint.
+          Failed deliveries are retried a few times and logged below.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
+          <Select
+            label="Format"
+            options={formatOptions}
+            value={webhookFormat}
+            onChange={(next) => setWebhookFormat(next as WebhookFormat)}
+            fullWidth
+          />
+          <Input
+            label="URL"
+            placeholder={URL_PLACEHOLDERS[webhookFormat]}
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            error={urlCheck && !urlCheck.valid ? urlCheck.reason : undefined}
+            fullWidth
+          />
+          {webhookFormat === 'telegram' && (
+            <Input
+              label="Chat ID"
+              placeholder="-1001234567890"
+              value={chatId}
+              onChange={(e) => setChatId(e.target.value)}
+              fullWidth
+            />
+          )}
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <fieldset className="flex flex-wrap gap-4">
+            <legend className="sr-only">Events</legend>
+            {WEBHOOK_EVENTS.map((event) => (
+              <label key={event} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={events.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                  className="h-4 w-4 mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {WEBHOOK_EVENT_LABELS[event]}
+              </label>
+            ))}
+          </fieldset>
+          <Button variant="outline" onClick={handleAdd} disabled={!canAdd}>
+            <WebhookIcon className="h-4 w-4 mr-1" />
+            Add Webhook
+          </Button>
+        </div>
+
+        {webhooks.length === 0 ? (
+          <p className="text-sm text-gray-500">No webhooks yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {webhooks.map((webhook) => (
+              <li key={webhook.id} className="py-3 space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 flex items-center">
+                      {WEBHOOK_FORMAT_LABELS[webhook.format]}
+                      {!webhook.enabled && (
+                        <Badge variant="warning" className="ml-2">
+                          Paused
+                        </Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate" title={displayWebhookUrl(webhook.url)}>
+                      {displayWebhookUrl(webhook.url)}
+                      {webhook.telegramChatId && ` · chat ${webhook.telegramChatId}`}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {webhook.events.map((event) => WEBHOOK_EVENT_LABELS[event]).join(', ')}
+                    </p>
+                  </div>
+                  <div className="flex flex-shrink-0 space-x-2">
+                    {webhook.format === 'json' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRevealedId(revealedId === webhook.id ? null : webhook.id)}
+                      >
+                        {revealedId === webhook.id ? (
+                          <EyeOff className="h-4 w-4 mr-1" />
+                        ) : (
+                          <Eye className="h-4 w-4 mr-1" />
+                        )}
+                        Secret
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onSetEnabled(webhook.id, !webhook.enabled)}
+                    >
+                      {webhook.enabled ? (
+                        <Pause className="h-4 w-4 mr-1" />
+                      ) : (
+                        <Play className="h-4 w-4 mr-1" />
+                      )}
+                      {webhook.enabled ? 'Pause' : 'Resume'}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => onRemove(webhook.id)}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+                {revealedId === webhook.id && (
+                  <p className="text-xs text-gray-600">
+                    Check the <code>{SIGNATURE_HEADER}</code> header against an HMAC-SHA256 of{' '}
+                    <code>{'<timestamp>.<body>'}</code> keyed with{' '}
+                    <code className="break-all bg-gray-100 px-1 rounded">{webhook.secret}</code>
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-gray-900">Recent Deliveries</h3>
+            <Button variant="outline" size="sm" onClick={onRefreshDeliveries}>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Refresh
+            </Button>
+          </div>
+          {deliveries.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">Nothing delivered yet.</p>
+          ) : (
+            <ul className="mt-2 divide-y divide-gray-100 text-xs">
+              {deliveries.slice(0, RECENT_DELIVERIES).map((delivery) => (
+                <li key={delivery.id} className="py-2 flex items-center justify-between gap-4">
+                  <span className="min-w-0">
+                    <span className="text-gray-900">{WEBHOOK_EVENT_LABELS[delivery.event]}</span>
+                    <span className="text-gray-500"> → {webhookUrl(delivery.webhookId)}</span>
+                    <span className="block text-gray-400">
+                      {format(delivery.createdAt, 'MMM d, HH:mm:ss')} · {delivery.attempts}{' '}
+                      {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                      {delivery.error && ` · ${delivery.error}`}
+                    </span>
+                  </span>
+                  <Badge variant={delivery.status === 'delivered' ? 'success' : 'danger'}>
+                    {delivery.status === 'delivered' ? 'Delivered' : 'Failed'}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WebhooksCard;
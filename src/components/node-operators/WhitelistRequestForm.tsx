@@ -6,35 +6,38 @@ import { Card, CardHeader, CardContent, CardFooter } from '../ui/Card';
 import Input from '../ui/Input';
 import Button from '../ui/Button';
 import Alert from '../ui/Alert';
-import { validateThorAddress } from '../../lib/utils';
 import { NodeOperator } from '../../types';
+import { formatRune, RUNE_INPUT_STEP, toRuneString, tryParseRune } from '../../lib/rune';
 
 // Form validation schema
 const requestSchema = z.object({
   discordUsername: z.string().min(1, 'Discord username is required'),
   xUsername: z.string().min(1, 'X username is required'),
   telegramUsername: z.string().min(1, 'Telegram username is required'),
-  walletAddress: z.string().min(1, 'Wallet address is required')
-    .refine(validateThorAddress, {
-      message: 'Invalid THORChain wallet address',
-    }),
   intendedBondAmount: z.string()
     .min(1, 'Bond amount is required')
-    .refine((val) => !isNaN(Number(val)), {
-      message: 'Bond amount must be a number',
+    .refine((val) => tryParseRune(val) !== null, {
+      message: 'Bond amount must be a number with at most 8 decimals',
     }),
 });
 
-type RequestFormData = z.infer<typeof requestSchema>;
+export type RequestFormData = z.infer<typeof requestSchema>;
 
 interface WhitelistRequestFormProps {
   nodeOperator: NodeOperator;
-  onSubmit: (data: RequestFormData) => void;
+  /** The signed-in wallet; requests are always filed for this address. */
+  walletAddress: string;
+  /** Values of a pending request being edited. */
+  initialData?: Partial<RequestFormData>;
+  /** Awaited, so the form stays busy until the request is saved. */
+  onSubmit: (data: RequestFormData) => Promise<void>;
   onCancel: () => void;
 }
 
 const WhitelistRequestForm: React.FC<WhitelistRequestFormProps> = ({
   nodeOperator,
+  walletAddress,
+  initialData,
   onSubmit,
   onCancel,
 }) => {
@@ -45,16 +48,16 @@ const WhitelistRequestForm: React.FC<WhitelistRequestFormProps> = ({
     watch,
   } = useForm<RequestFormData>({
     resolver: zodResolver(requestSchema),
-    defaultValues: {
-      intendedBondAmount: nodeOperator.minimumBond.toString(),
+    defaultValues: initialData || {
+      intendedBondAmount: toRuneString(nodeOperator.minimumBond),
     },
   });
 
-  const intendedBondAmount = Number(watch('intendedBondAmount') || 0);
+  const intendedBondAmount = tryParseRune(watch('intendedBondAmount') || '0') ?? 0n;
   const isBondAmountValid = intendedBondAmount >= nodeOperator.minimumBond;
 
-  const onFormSubmit = (data: RequestFormData) => {
-    onSubmit({
+  const onFormSubmit = async (data: RequestFormData) => {
+    await onSubmit({
       ...data,
       intendedBondAmount: data.intendedBondAmount,
     });
@@ -63,9 +66,13 @@ const WhitelistRequestForm: React.FC<WhitelistRequestFormProps> = ({
   return (
     <Card className="max-w-2xl mx-auto">
       <CardHeader>
-        <h2 className="text-xl font-semibold text-gray-900">Request Whitelist for Bonding</h2>
+        <h2 className="text-xl font-semibold text-gray-900">
+          {initialData ? 'Edit Whitelist Request' : 'Request Whitelist for Bonding'}
+        </h2>
         <p className="mt-1 text-sm text-gray-600">
-          Submit your information to request whitelisting with this node operator.
+          {initialData
+            ? 'The node operator will see which details you changed.'
+            : 'Submit your information to request whitelisting with this node operator.'}
         </p>
       </CardHeader>
       
@@ -80,7 +87,7 @@ const WhitelistRequestForm: React.FC<WhitelistRequestFormProps> = ({
               </div>
               <div>
                 <span className="text-gray-500">Minimum Bond:</span>
-                <p className="font-medium">{nodeOperator.minimumBond.toLocaleString()} RUNE</p>
+                <p className="font-medium">{formatRune(nodeOperator.minimumBond)} RUNE</p>
               </div>
               <div>
                 <span className="text-gray-500">Fee Percentage:</span>
@@ -88,7 +95,7 @@ const WhitelistRequestForm: React.FC<WhitelistRequestFormProps> = ({
               </div>
               <div>
                 <span className="text-gray-500">Available Capacity:</span>
-                <p className="font-medium">{nodeOperator.bondingCapacity.toLocaleString()} RUNE</p>
+                <p className="font-medium">{formatRune(nodeOperator.bondingCapacity)} RUNE</p>
               </div>
             </div>
           </div>
@@ -120,24 +127,25 @@ const WhitelistRequestForm: React.FC<WhitelistRequestFormProps> = ({
             
             <Input
               label="THORChain Wallet Address"
-              placeholder="thor..."
-              {...register('walletAddress')}
-              error={errors.walletAddress?.message}
+              value={walletAddress}
+              readOnly
+              disabled
               fullWidth
             />
             
             <Input
               label="Intended Bond Amount (RUNE)"
               type="number"
-              min={nodeOperator.minimumBond}
+              min={toRuneString(nodeOperator.minimumBond)}
+              step={RUNE_INPUT_STEP}
               {...register('intendedBondAmount')}
               error={errors.intendedBondAmount?.message}
               fullWidth
             />
             
-            {!isBondAmountValid && intendedBondAmount > 0 && (
+            {!isBondAmountValid && intendedBondAmount > 0n && (
               <Alert variant="warning">
-                The bond amount must be at least {nodeOperator.minimumBond.toLocaleString()} RUNE.
+                The bond amount must be at least {formatRune(nodeOperator.minimumBond)} RUNE.
               </Alert>
             )}
           </div>
@@ -157,7 +165,7 @@ const WhitelistRequestForm: React.FC<WhitelistRequestFormProps> = ({
           onClick={handleSubmit(onFormSubmit)}
           disabled={isSubmitting || !isBondAmountValid}
         >
-          Submit Request
+          {initialData ? 'Save Changes' : 'Submit Request'}
         </Button>
       </CardFooter>
     </Card>
@@ -0,0 +1,78 @@
+import React from 'react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { WhitelistRequest } from '../../types';
+import { ApprovalPlan } from '../../lib/capacity';
+import { formatRune, sumRune } from '../../lib/rune';
+
+interface BulkApproveDialogProps {
+  plan: ApprovalPlan;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+const PlanGroup: React.FC<{ title: string; description: string; requests: WhitelistRequest[] }> = ({
+  title,
+  description,
+  requests,
+}) => (
+  <div>
+    <h3 className="text-sm font-medium text-gray-900">
+      {title} ({requests.length}) ·{' '}
+      {formatRune(sumRune(requests.map((request) => request.intendedBondAmount)))} RUNE
+    </h3>
+    <p className="text-xs text-gray-500">{description}</p>
+    <ul className="mt-2 max-h-40 overflow-y-auto divide-y divide-gray-100 text-sm">
+      {requests.map((request) => (
+        <li key={request.id} className="flex justify-between py-1">
+          <span className="text-gray-700">{request.discordUsername}</span>
+          <span className="text-gray-500">{formatRune(request.intendedBondAmount)} RUNE</span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+// Approving goes oldest first, so the summary lists requests in that order.
+const BulkApproveDialog: React.FC<BulkApproveDialogProps> = ({ plan, onConfirm, onClose }) => {
+  const total = plan.approve.length + plan.waitlist.length;
+
+  return (
+    <Modal
+      isOpen
+      title={`Approve ${total} ${total === 1 ? 'Request' : 'Requests'}`}
+      onClose={onClose}
+      footer={
+        <>
+          <Button variant="outline" onClick={onClose}>
+            Back
+          </Button>
+          <Button variant="primary" onClick={onConfirm}>
+            {plan.waitlist.length > 0
+              ? `Approve ${plan.approve.length}, Waitlist ${plan.waitlist.length}`
+              : `Approve ${plan.approve.length}`}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        {plan.approve.length > 0 && (
+          <PlanGroup
+            title="Approved"
+            description="These fit within your remaining capacity and provider slots."
+            requests={plan.approve}
+          />
+        )}
+        {plan.waitlist.length > 0 && (
+          <PlanGroup
+            title="Waitlisted"
+            description="No capacity or slot is left for these; they are approved in turn as it frees up."
+            requests={plan.waitlist}
+          />
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default BulkApproveDialog;
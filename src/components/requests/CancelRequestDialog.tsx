@@ -0,0 +1,36 @@
+import React from 'react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { WhitelistRequest } from '../../types';
+import { formatRune } from '../../lib/rune';
+
+interface CancelRequestDialogProps {
+  request: WhitelistRequest;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+const CancelRequestDialog: React.FC<CancelRequestDialogProps> = ({ request, onConfirm, onClose }) => (
+  <Modal
+    isOpen
+    title="Cancel Whitelist Request"
+    onClose={onClose}
+    footer={
+      <>
+        <Button variant="outline" onClick={onClose}>
+          Keep Request
+        </Button>
+        <Button variant="danger" onClick={onConfirm}>
+          Cancel Request
+        </Button>
+      </>
+    }
+  >
+    <p className="text-sm text-gray-600">
+      Your request to bond {formatRune(request.intendedBondAmount)} RUNE will be cancelled. This
+      cannot be undone.
+    </p>
+  </Modal>
+);
+
+export default CancelRequestDialog;
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Send } from 'lucide-react';
+import AddressLink from '../ui/AddressLink';
+import Button from '../ui/Button';
+import { RequestMessage, RequestMessaging, WhitelistRequest } from '../../types';
+import { isUnreadBy, MESSAGE_MAX_LENGTH } from '../../lib/messages';
+
+interface MessageThreadProps {
+  request: WhitelistRequest;
+  messaging: RequestMessaging;
+}
+
+// Opening a thread marks what the viewer's side received in it as read.
+const MessageThread: React.FC<MessageThreadProps> = ({ request, messaging }) => {
+  const { id: requestId, walletAddress: bonderAddress } = request;
+  const [messages, setMessages] = useState<RequestMessage[] | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    messaging
+      .load(requestId)
+      .then((loaded) => {
+        if (cancelled) return;
+        setMessages(loaded);
+        if (loaded.some((m) => isUnreadBy(m, bonderAddress, messaging.viewerAddress))) {
+          return messaging.markRead(requestId);
+        }
+      })
+      .catch((err: Error) => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [messaging, requestId, bonderAddress]);
+
+  const body = draft.trim();
+
+  const handleSend = async () => {
+    if (!body || isSending) return;
+    setIsSending(true);
+    setError(null);
+    try {
+      const sent = await messaging.send(requestId, body);
+      setMessages((prev) => [...(prev ?? []), sent]);
+      setDraft('');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {!messages && !error && <p className="text-sm text-gray-500">Loading messages…</p>}
+      {messages?.length === 0 && (
+        <p className="text-sm text-gray-500">No messages yet. Only the bonder and the listing's team managers can read this thread.</p>
+      )}
+      {messages && messages.length > 0 && (
+        <ul className="space-y-2 max-h-72 overflow-y-auto">
+          {messages.map((message) => {
+            const mine = message.senderAddress === messaging.viewerAddress;
+            return (
+              <li key={message.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  className={`max-w-md rounded-lg px-3 py-2 text-sm ${
+                    mine ? 'bg-blue-600 text-white' : 'bg-white border border-gray-200 text-gray-800'
+                  }`}
+                >
+                  <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                  <p className={`mt-1 text-xs ${mine ? 'text-blue-100' : 'text-gray-400'}`}>
+                    {mine ? 'You' : <AddressLink address={message.senderAddress} />} ·{' '}
+                    {format(message.createdAt, 'MMM d, HH:mm')}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex items-end space-x-2">
+        <textarea
+          aria-label="Message"
+          rows={2}
+          maxLength={MESSAGE_MAX_LENGTH}
+          placeholder="Write a message…"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSend();
+          }}
+          className="flex-grow px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <Button variant="primary" size="sm" onClick={handleSend} disabled={!body || isSending}>
+          <Send className="h-4 w-4 mr-1" />
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default MessageThread;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { RequestRejection, WhitelistRequest } from '../../types';
+import { formatRune, sumRune } from '../../lib/rune';
+
+interface RejectRequestDialogProps {
+  /** Every request gets the same reason. */
+  requests: WhitelistRequest[];
+  /** The listing's reason templates, offered as one-click choices. */
+  templates: string[];
+  onConfirm: (rejection: RequestRejection) => void;
+  onClose: () => void;
+}
+
+// A template and free text combine into one reason, e.g. "No slots available: try in March".
+const composeReason = (template: string | null, details: string) =>
+  [template, details.trim()].filter(Boolean).join(': ');
+
+const RejectRequestDialog: React.FC<RejectRequestDialogProps> = ({
+  requests,
+  templates,
+  onConfirm,
+  onClose,
+}) => {
+  const [template, setTemplate] = useState<string | null>(null);
+  const [details, setDetails] = useState('');
+  const [shareWithBonder, setShareWithBonder] = useState(true);
+
+  const reason = composeReason(template, details);
+
+  return (
+    <Modal
+      isOpen
+      title={requests.length === 1 ? 'Reject Whitelist Request' : `Reject ${requests.length} Requests`}
+      onClose={onClose}
+      footer={
+        <>
+          <Button variant="outline" onClick={onClose}>
+            Keep Request
+          </Button>
+          <Button
+            variant="danger"
+            disabled={!reason}
+            onClick={() => onConfirm({ reason, shareWithBonder })}
+          >
+            {requests.length === 1 ? 'Reject Request' : `Reject ${requests.length} Requests`}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          {requests.length === 1
+            ? `${requests[0].discordUsername} asked to bond ${formatRune(requests[0].intendedBondAmount)} RUNE.`
+            : `${requests.length} requests totaling ${formatRune(
+                sumRune(requests.map((request) => request.intendedBondAmount))
+              )} RUNE will be rejected with the same reason.`}
+        </p>
+
+        {templates.length > 0 && (
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Reason</p>
+            <div className="flex flex-wrap gap-2">
+              {templates.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-pressed={template === option}
+                  onClick={() => setTemplate(template === option ? null : option)}
+                  className={`px-3 py-1 rounded-full border text-sm ${
+                    template === option
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="rejection-details" className="block text-sm font-medium text-gray-700 mb-1">
+            {templates.length > 0 ? 'Details (Optional)' : 'Reason'}
+          </label>
+          <textarea
+            id="rejection-details"
+            rows={3}
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={shareWithBonder}
+            onChange={(e) => setShareWithBonder(e.target.checked)}
+            className="h-4 w-4 mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Show the reason to the bonder
+        </label>
+
+        {reason && (
+          <p className="text-xs text-gray-500">
+            {shareWithBonder ? 'The bonder will see' : 'Only you will see'}: “{reason}”
+          </p>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default RejectRequestDialog;
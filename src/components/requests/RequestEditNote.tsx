@@ -0,0 +1,41 @@
+import React from 'react';
+import { format } from 'date-fns';
+import Badge from '../ui/Badge';
+import { EditableRequestFields, RequestEdit } from '../../types';
+import { formatRune } from '../../lib/rune';
+
+interface RequestEditNoteProps {
+  edits: RequestEdit[];
+}
+
+const fieldLabels: Record<keyof EditableRequestFields, string> = {
+  discordUsername: 'Discord',
+  xUsername: 'X',
+  telegramUsername: 'Telegram',
+  intendedBondAmount: 'Bond',
+};
+
+const describePrevious = (previous: RequestEdit['previous']) =>
+  (Object.keys(previous) as (keyof EditableRequestFields)[]).map((field) => {
+    const value = previous[field];
+    const shown = typeof value === 'bigint' ? `${formatRune(value)} RUNE` : value;
+    return `${fieldLabels[field]} was ${shown}`;
+  });
+
+// Shown to operators so a request cannot change under them unnoticed.
+const RequestEditNote: React.FC<RequestEditNoteProps> = ({ edits }) => {
+  if (edits.length === 0) return null;
+
+  return (
+    <div className="mt-1 space-y-0.5">
+      <Badge variant="info">Edited</Badge>
+      {edits.map((edit, index) => (
+        <div key={index} className="text-xs text-gray-500">
+          {format(edit.at, 'MMM d')}: {describePrevious(edit.previous).join('; ')}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RequestEditNote;
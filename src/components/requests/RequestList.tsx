@@ -1,24 +1,176 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { format } from 'date-fns';
-import { Check, X, Clock } from 'lucide-react';
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  ListPlus,
+  Pencil,
+  Search,
+  X,
+} from 'lucide-react';
+import AuditTimeline from '../audit/AuditTimeline';
 import Badge from '../ui/Badge';
+import AddressLink from '../ui/AddressLink';
 import Button from '../ui/Button';
-import { WhitelistRequest } from '../../types';
-import { formatRune, shortenAddress } from '../../lib/utils';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import BulkApproveDialog from './BulkApproveDialog';
+import CancelRequestDialog from './CancelRequestDialog';
+import MessageThread from './MessageThread';
+import RejectRequestDialog from './RejectRequestDialog';
+import RequestEditNote from './RequestEditNote';
+import RequestStatusBadge from './RequestStatusBadge';
+import {
+  AuditLogLoader,
+  RequestMessaging,
+  RequestRejection,
+  RequestStatus,
+  WhitelistRequest,
+} from '../../types';
+import { ApprovalPlan } from '../../lib/capacity';
+import { compareRune, formatRune, sumRune } from '../../lib/rune';
+import {
+  AWAITING_STATUSES,
+  canEdit,
+  canTransition,
+  lastTransitionAt,
+  REQUEST_STATUS_LABELS,
+  REQUEST_STATUSES,
+} from '../../lib/requestLifecycle';
 
 interface RequestListProps {
   requests: WhitelistRequest[];
   isNodeOperator?: boolean;
   onApprove?: (requestId: string) => void;
-  onReject?: (requestId: string, reason: string) => void;
+  onReject?: (requestId: string, rejection: RequestRejection) => void;
+  /** The listing's rejection reason templates, offered when rejecting. */
+  rejectionTemplates?: string[];
+  /** When set, approving a request that does not fit waitlists it, and the button says so. */
+  canAdmit?: (request: WhitelistRequest) => boolean;
+  /** Bonder-side actions, offered on pending requests when not in operator mode. */
+  onEdit?: (request: WhitelistRequest) => void;
+  onCancel?: (requestId: string) => void;
+  /** When set, each row can be expanded to show the request's history. */
+  loadAuditLog?: AuditLogLoader;
+  /** When set, each row can be expanded to its message thread. */
+  messaging?: RequestMessaging;
+  unreadCounts?: Record<string, number>;
+  /** Bulk triage for operators; when either is set, rows awaiting a decision can be selected. */
+  onBulkApprove?: (requestIds: string[]) => void;
+  onBulkReject?: (requestIds: string[], rejection: RequestRejection) => void;
+  /** Splits requests into those approving would admit and those it would waitlist. */
+  planApprovals?: (requests: WhitelistRequest[]) => ApprovalPlan;
+  /** When set, a Node column shows each request's node address, keyed by listing id. */
+  nodeAddresses?: Record<string, string>;
 }
 
+type RowPanel = 'history' | 'messages';
+
+type SortKey = 'amount' | 'date';
+
+interface SortOrder {
+  key: SortKey;
+  descending: boolean;
+}
+
+const COMPARATORS: Record<SortKey, (a: WhitelistRequest, b: WhitelistRequest) => number> = {
+  amount: (a, b) => compareRune(a.intendedBondAmount, b.intendedBondAmount),
+  date: (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+};
+
+const oldestFirst = COMPARATORS.date;
+
+const matchesSearch = (request: WhitelistRequest, query: string) =>
+  [request.discordUsername, request.xUsername, request.telegramUsername, request.walletAddress].some(
+    (value) => value.toLowerCase().includes(query)
+  );
+
+const headerClass =
+  'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+interface PanelToggleProps {
+  label: string;
+  open: boolean;
+  onToggle: () => void;
+  count?: number;
+}
+
+const PanelToggle: React.FC<PanelToggleProps> = ({ label, open, onToggle, count = 0 }) => (
+  <button
+    type="button"
+    aria-expanded={open}
+    onClick={onToggle}
+    className="flex items-center text-xs text-blue-600 hover:underline"
+  >
+    {open ? <ChevronDown className="h-3 w-3 mr-0.5" /> : <ChevronRight className="h-3 w-3 mr-0.5" />}
+    {label}
+    {count > 0 && (
+      <Badge variant="info" className="ml-1">
+        {count} new
+      </Badge>
+    )}
+  </button>
+);
+
+interface SortableHeaderProps {
+  label: string;
+  sortKey: SortKey;
+  order: SortOrder | null;
+  onSort: (order: SortOrder) => void;
+}
+
+const SortableHeader: React.FC<SortableHeaderProps> = ({ label, sortKey, order, onSort }) => {
+  const active = order?.key === sortKey;
+  const Icon = !active ? ArrowUpDown : order.descending ? ArrowDown : ArrowUp;
+  return (
+    <th
+      scope="col"
+      className={headerClass}
+      aria-sort={!active ? 'none' : order.descending ? 'descending' : 'ascending'}
+    >
+      <button
+        type="button"
+        onClick={() => onSort({ key: sortKey, descending: active && !order.descending })}
+        className="flex items-center uppercase tracking-wider hover:text-gray-700"
+      >
+        {label}
+        <Icon className={`h-3 w-3 ml-1 ${active ? 'text-gray-700' : 'text-gray-300'}`} />
+      </button>
+    </th>
+  );
+};
+
 const RequestList: React.FC<RequestListProps> = ({
   requests,
   isNodeOperator = false,
   onApprove,
   onReject,
+  rejectionTemplates = [],
+  canAdmit,
+  onEdit,
+  onCancel,
+  loadAuditLog,
+  messaging,
+  unreadCounts = {},
+  onBulkApprove,
+  onBulkReject,
+  planApprovals,
+  nodeAddresses,
 }) => {
+  const [statusFilter, setStatusFilter] = useState<RequestStatus | ''>('');
+  const [search, setSearch] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder | null>(null);
+  const [expanded, setExpanded] = useState<{ requestId: string; panel: RowPanel } | null>(null);
+  const [rejecting, setRejecting] = useState<WhitelistRequest | null>(null);
+  const [cancelling, setCancelling] = useState<WhitelistRequest | null>(null);
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<string>>(new Set());
+  const [bulkRejecting, setBulkRejecting] = useState(false);
+  const [approvalPlan, setApprovalPlan] = useState<ApprovalPlan | null>(null);
+
   if (requests.length === 0) {
     return (
       <div className="text-center py-12 bg-white rounded-lg shadow-sm">
@@ -27,47 +179,199 @@ const RequestList: React.FC<RequestListProps> = ({
     );
   }
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case 'approved':
-        return <Badge variant="success">Approved</Badge>;
-      case 'rejected':
-        return <Badge variant="danger">Rejected</Badge>;
-      default:
-        return <Badge variant="warning">Pending</Badge>;
+  // Only offer the statuses that actually occur in this list.
+  const presentStatuses = REQUEST_STATUSES.filter((status) =>
+    requests.some((request) => request.status === status)
+  );
+  const activeFilter = statusFilter && presentStatuses.includes(statusFilter) ? statusFilter : '';
+  const query = search.trim().toLowerCase();
+  const visibleRequests = requests.filter(
+    (request) =>
+      (!activeFilter || request.status === activeFilter) && (!query || matchesSearch(request, query))
+  );
+  if (sortOrder) {
+    const compare = COMPARATORS[sortOrder.key];
+    visibleRequests.sort((a, b) => (sortOrder.descending ? compare(b, a) : compare(a, b)));
+  }
+
+  const showBonderActions = !isNodeOperator && (!!onEdit || !!onCancel);
+
+  // Selection only covers rows still awaiting a decision, and only those shown.
+  const selectionEnabled = isNodeOperator && (!!onBulkApprove || !!onBulkReject);
+  const selectableRequests = selectionEnabled
+    ? visibleRequests.filter((request) => canTransition(request.status, 'reject'))
+    : [];
+  const selectedRequests = selectableRequests.filter((request) => selectedIds.has(request.id));
+  const approvableRequests = selectedRequests.filter((request) => request.status === 'pending');
+  const allSelected =
+    selectableRequests.length > 0 && selectedRequests.length === selectableRequests.length;
+
+  const columnCount =
+    (isNodeOperator || showBonderActions ? 6 : 5) +
+    (selectionEnabled ? 1 : 0) +
+    (nodeAddresses ? 1 : 0);
+
+  const toggleSelected = (requestId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(requestId)) {
+      next.delete(requestId);
+    } else {
+      next.add(requestId);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(selectableRequests.map((request) => request.id)));
+  };
+
+  const handleBulkApprove = () => {
+    setApprovalPlan(
+      planApprovals
+        ? planApprovals(approvableRequests)
+        : { approve: [...approvableRequests].sort(oldestFirst), waitlist: [] }
+    );
+  };
+
+  const confirmBulkApprove = () => {
+    if (onBulkApprove && approvalPlan) {
+      const ordered = [...approvalPlan.approve, ...approvalPlan.waitlist].sort(oldestFirst);
+      onBulkApprove(ordered.map((request) => request.id));
+    }
+    setApprovalPlan(null);
+    setSelectedIds(new Set());
+  };
+
+  const isExpanded = (requestId: string, panel: RowPanel) =>
+    expanded?.requestId === requestId && expanded.panel === panel;
+
+  const togglePanel = (requestId: string, panel: RowPanel) => {
+    setExpanded(isExpanded(requestId, panel) ? null : { requestId, panel });
+  };
+
+  const confirmCancel = () => {
+    if (onCancel && cancelling) {
+      onCancel(cancelling.id);
     }
+    setCancelling(null);
   };
 
-  const handleReject = (requestId: string) => {
-    if (onReject) {
-      const reason = prompt('Please provide a reason for rejection:');
-      if (reason !== null) {
-        onReject(requestId, reason);
-      }
+  const handleReject = (rejection: RequestRejection) => {
+    if (bulkRejecting) {
+      onBulkReject?.(selectedRequests.map((request) => request.id), rejection);
+      setSelectedIds(new Set());
+    } else if (onReject && rejecting) {
+      onReject(rejecting.id, rejection);
     }
+    setRejecting(null);
+    setBulkRejecting(false);
   };
 
   return (
     <div className="overflow-x-auto">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+        <div className="relative md:w-72">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-4 w-4 text-gray-400" />
+          </div>
+          <Input
+            type="search"
+            aria-label="Search requests"
+            placeholder="Search handles or wallet..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            fullWidth
+            className="pl-9 text-sm"
+          />
+        </div>
+        {presentStatuses.length > 1 && (
+          <Select
+            aria-label="Filter by status"
+            options={[
+              { value: '', label: `All statuses (${requests.length})` },
+              ...presentStatuses.map((status) => ({
+                value: status,
+                label: `${REQUEST_STATUS_LABELS[status]} (${
+                  requests.filter((request) => request.status === status).length
+                })`,
+              })),
+            ]}
+            value={activeFilter}
+            onChange={(value) => setStatusFilter(value as RequestStatus | '')}
+            className="text-sm"
+          />
+        )}
+      </div>
+      {selectedRequests.length > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4 px-4 py-2 rounded-md bg-blue-50">
+          <span className="text-sm text-blue-800">
+            {selectedRequests.length} selected ·{' '}
+            {formatRune(sumRune(selectedRequests.map((request) => request.intendedBondAmount)))} RUNE
+          </span>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setSelectedIds(new Set())}>
+              Clear
+            </Button>
+            {onBulkReject && (
+              <Button variant="outline" size="sm" onClick={() => setBulkRejecting(true)}>
+                <X className="h-4 w-4 mr-1" />
+                Reject ({selectedRequests.length})
+              </Button>
+            )}
+            {onBulkApprove && (
+              <Button
+                variant="primary"
+                size="sm"
+                disabled={approvableRequests.length === 0}
+                onClick={handleBulkApprove}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Approve ({approvableRequests.length})
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
       <table className="min-w-full divide-y divide-gray-200">
         <thead className="bg-gray-50">
           <tr>
-            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+            {selectionEnabled && (
+              <th scope="col" className="pl-6 py-3 w-4">
+                <input
+                  type="checkbox"
+                  aria-label="Select all requests awaiting a decision"
+                  checked={allSelected}
+                  ref={(el) => {
+                    if (el) el.indeterminate = selectedRequests.length > 0 && !allSelected;
+                  }}
+                  disabled={selectableRequests.length === 0}
+                  onChange={toggleAll}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+              </th>
+            )}
+            {nodeAddresses && (
+              <th scope="col" className={headerClass}>
+                Node
+              </th>
+            )}
+            <th scope="col" className={headerClass}>
               User
             </th>
-            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <th scope="col" className={headerClass}>
               Wallet Address
             </th>
-            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-              Bond Amount
-            </th>
-            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-              Date
-            </th>
-            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <SortableHeader
+              label="Bond Amount"
+              sortKey="amount"
+              order={sortOrder}
+              onSort={setSortOrder}
+            />
+            <SortableHeader label="Date" sortKey="date" order={sortOrder} onSort={setSortOrder} />
+            <th scope="col" className={headerClass}>
               Status
             </th>
-            {isNodeOperator && (
+            {(isNodeOperator || showBonderActions) && (
               <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Actions
               </th>
@@ -75,63 +379,205 @@ const RequestList: React.FC<RequestListProps> = ({
           </tr>
         </thead>
         <tbody className="bg-white divide-y divide-gray-200">
-          {requests.map((request) => (
-            <tr key={request.id}>
-              <td className="px-6 py-4 whitespace-nowrap">
-                <div className="flex flex-col">
-                  <div className="text-sm font-medium text-gray-900">
-                    {request.discordUsername}
-                  </div>
-                  <div className="text-sm text-gray-500">
-                    {request.xUsername} / {request.telegramUsername}
-                  </div>
-                </div>
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                {shortenAddress(request.walletAddress)}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                {formatRune(request.intendedBondAmount)} RUNE
+          {visibleRequests.length === 0 && (
+            <tr>
+              <td colSpan={columnCount} className="px-6 py-8 text-center text-sm text-gray-500">
+                No requests match your search.
               </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                {format(request.createdAt, 'MMM d, yyyy')}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap">
-                {getStatusBadge(request.status)}
-                {request.status === 'rejected' && request.rejectionReason && (
-                  <div className="mt-1 text-xs text-gray-500">
-                    Reason: {request.rejectionReason}
-                  </div>
+            </tr>
+          )}
+          {visibleRequests.map((request) => (
+            <React.Fragment key={request.id}>
+              <tr className={selectedIds.has(request.id) ? 'bg-blue-50' : undefined}>
+                {selectionEnabled && (
+                  <td className="pl-6 py-4 w-4">
+                    {canTransition(request.status, 'reject') && (
+                      <input
+                        type="checkbox"
+                        aria-label={`Select request from ${request.discordUsername}`}
+                        checked={selectedIds.has(request.id)}
+                        onChange={() => toggleSelected(request.id)}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                    )}
+                  </td>
                 )}
-              </td>
-              {isNodeOperator && (
-                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                  {request.status === 'pending' && (
-                    <div className="flex justify-end space-x-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleReject(request.id)}
-                      >
-                        <X className="h-4 w-4 mr-1" />
-                        Reject
-                      </Button>
-                      <Button
-                        variant="primary"
-                        size="sm"
-                        onClick={() => onApprove && onApprove(request.id)}
-                      >
-                        <Check className="h-4 w-4 mr-1" />
-                        Approve
-                      </Button>
+                {nodeAddresses && (
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {nodeAddresses[request.nodeOperatorId] ? (
+                      <AddressLink address={nodeAddresses[request.nodeOperatorId]} />
+                    ) : (
+                      'Unknown node'
+                    )}
+                  </td>
+                )}
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="flex flex-col">
+                    <div className="text-sm font-medium text-gray-900">
+                      {request.discordUsername}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {request.xUsername} / {request.telegramUsername}
+                    </div>
+                    {isNodeOperator && <RequestEditNote edits={request.edits} />}
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  <AddressLink address={request.walletAddress} />
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {formatRune(request.intendedBondAmount)} RUNE
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {format(request.createdAt, 'MMM d, yyyy')}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <RequestStatusBadge status={request.status} />
+                  {request.transitions.length > 0 && (
+                    <div className="mt-1 text-xs text-gray-500">
+                      since {format(lastTransitionAt(request), 'MMM d, yyyy')}
+                    </div>
+                  )}
+                  {request.status === 'rejected' &&
+                    request.rejectionReason &&
+                    (isNodeOperator || !request.rejectionReasonPrivate) && (
+                      <div className="mt-1 text-xs text-gray-500">
+                        Reason: {request.rejectionReason}
+                        {request.rejectionReasonPrivate && ' (not shown to the bonder)'}
+                      </div>
+                    )}
+                  {(loadAuditLog || messaging) && (
+                    <div className="mt-1 flex space-x-3">
+                      {messaging && (
+                        <PanelToggle
+                          label="Messages"
+                          open={isExpanded(request.id, 'messages')}
+                          onToggle={() => togglePanel(request.id, 'messages')}
+                          count={unreadCounts[request.id]}
+                        />
+                      )}
+                      {loadAuditLog && (
+                        <PanelToggle
+                          label="History"
+                          open={isExpanded(request.id, 'history')}
+                          onToggle={() => togglePanel(request.id, 'history')}
+                        />
+                      )}
                     </div>
                   )}
                 </td>
+                {isNodeOperator && (
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    {canTransition(request.status, 'reject') && (
+                      <div className="flex justify-end space-x-2">
+                        {onReject && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setRejecting(request)}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Reject
+                          </Button>
+                        )}
+                        {onApprove && request.status === 'pending' && (
+                          canAdmit && !canAdmit(request) ? (
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              title="No capacity or provider slot left; it will be approved once one is released"
+                              onClick={() => onApprove(request.id)}
+                            >
+                              <ListPlus className="h-4 w-4 mr-1" />
+                              Waitlist
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="primary"
+                              size="sm"
+                              onClick={() => onApprove(request.id)}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Approve
+                            </Button>
+                          )
+                        )}
+                      </div>
+                    )}
+                  </td>
+                )}
+                {showBonderActions && (
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    {AWAITING_STATUSES.includes(request.status) && (
+                      <div className="flex justify-end space-x-2">
+                        {onCancel && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setCancelling(request)}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Cancel
+                          </Button>
+                        )}
+                        {onEdit && canEdit(request.status) && (
+                          <Button variant="outline" size="sm" onClick={() => onEdit(request)}>
+                            <Pencil className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                )}
+              </tr>
+              {loadAuditLog && isExpanded(request.id, 'history') && (
+                <tr>
+                  <td colSpan={columnCount} className="px-6 py-4 bg-gray-50">
+                    <AuditTimeline
+                      subjectType="whitelist-request"
+                      subjectId={request.id}
+                      loadAuditLog={loadAuditLog}
+                    />
+                  </td>
+                </tr>
               )}
-            </tr>
+              {messaging && isExpanded(request.id, 'messages') && (
+                <tr>
+                  <td colSpan={columnCount} className="px-6 py-4 bg-gray-50">
+                    <MessageThread request={request} messaging={messaging} />
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
           ))}
         </tbody>
       </table>
+      {(rejecting || bulkRejecting) && (
+        <RejectRequestDialog
+          requests={bulkRejecting ? selectedRequests : rejecting ? [rejecting] : []}
+          templates={rejectionTemplates}
+          onConfirm={handleReject}
+          onClose={() => {
+            setRejecting(null);
+            setBulkRejecting(false);
+          }}
+        />
+      )}
+      {cancelling && (
+        <CancelRequestDialog
+          request={cancelling}
+          onConfirm={confirmCancel}
+          onClose={() => setCancelling(null)}
+        />
+      )}
+      {approvalPlan && (
+        <BulkApproveDialog
+          plan={approvalPlan}
+          onConfirm={confirmBulkApprove}
+          onClose={() => setApprovalPlan(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,26 @@
+import React from 'react';
+import Badge from '../ui/Badge';
+import { RequestStatus } from '../../types';
+import { REQUEST_STATUS_LABELS } from '../../lib/requestLifecycle';
+
+type BadgeVariant = React.ComponentProps<typeof Badge>['variant'];
+
+const statusVariants: Record<RequestStatus, BadgeVariant> = {
+  pending: 'warning',
+  waitlisted: 'warning',
+  approved: 'success',
+  whitelisted: 'info',
+  bonded: 'success',
+  unbonding: 'info',
+  withdrawn: 'default',
+  rejected: 'danger',
+  cancelled: 'default',
+  expired: 'default',
+  removed: 'danger',
+};
+
+const RequestStatusBadge: React.FC<{ status: RequestStatus }> = ({ status }) => (
+  <Badge variant={statusVariants[status]}>{REQUEST_STATUS_LABELS[status]}</Badge>
+);
+
+export default RequestStatusBadge;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { useNetwork } from '../../lib/networkContext';
+import { explorerAddressUrl } from '../../lib/networks';
+import { shortenAddress } from '../../lib/utils';
+
+interface AddressLinkProps {
+  address: string;
+  className?: string;
+}
+
+const AddressLink: React.FC<AddressLinkProps> = ({ address, className = '' }) => {
+  const network = useNetwork();
+  const href = explorerAddressUrl(network, address);
+
+  if (!href) {
+    return <span className={className} title={address}>{shortenAddress(address)}</span>;
+  }
+
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={address}
+      className={`hover:text-blue-600 hover:underline ${className}`}
+    >
+      {shortenAddress(address)}
+    </a>
+  );
+};
+
+export default AddressLink;
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_MAX_BOND_PROVIDERS, MaxBondProvidersLookup } from '../lib/capacity';
+
+/** The network's bond provider limit; THORChain's default until mimir answers. */
+export function useMaxBondProviders(lookup: MaxBondProvidersLookup): number {
+  const [limit, setLimit] = useState(DEFAULT_MAX_BOND_PROVIDERS);
+
+  useEffect(() => {
+    let cancelled = false;
+    lookup().then((next) => {
+      if (!cancelled) setLimit(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [lookup]);
+
+  return limit;
+}
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { NodeStatusCache, NodeStatusMap } from '../lib/nodeStatus';
+
+/**
+ * Polls the node status cache and returns the latest statuses keyed by node address.
+ * Failed refreshes keep the last known statuses.
+ */
+export function useNodeStatuses(cache: NodeStatusCache, refreshMs = 60_000): NodeStatusMap {
+  const [statuses, setStatuses] = useState<NodeStatusMap>({});
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      cache
+        .getAll()
+        .then((next) => {
+          if (!cancelled) setStatuses(next);
+        })
+        .catch((error: unknown) => {
+          console.warn('Failed to refresh node statuses', error);
+        });
+    };
+
+    load();
+    const timer = setInterval(load, refreshMs);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [cache, refreshMs]);
+
+  return statuses;
+}
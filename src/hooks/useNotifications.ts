@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import { NotificationFeed } from '../lib/data';
+import { UserNotification } from '../types';
+
+interface NotificationsState {
+  /** The signed-in wallet's notifications, newest first. */
+  notifications: UserNotification[];
+  /** Marks `ids`, or everything when omitted, as read. */
+  markRead: (ids?: string[]) => Promise<void>;
+}
+
+/**
+ * Notifications for the signed-in wallet, polled so new ones show up without
+ * a reload. Failed refreshes keep the last list.
+ */
+export function useNotifications(
+  feed: NotificationFeed,
+  recipientAddress: string | undefined,
+  refreshMs = 30_000
+): NotificationsState {
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+
+  useEffect(() => {
+    setNotifications([]);
+    if (!recipientAddress) return;
+    let cancelled = false;
+
+    const load = () => {
+      feed
+        .list(recipientAddress)
+        .then((next) => {
+          if (!cancelled) setNotifications(next);
+        })
+        .catch((error: unknown) => {
+          console.warn('Failed to refresh notifications', error);
+        });
+    };
+
+    load();
+    const timer = setInterval(load, refreshMs);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [feed, recipientAddress, refreshMs]);
+
+  const markRead = useCallback(
+    async (ids?: string[]) => {
+      if (!recipientAddress) return;
+      await feed.markRead(recipientAddress, ids);
+      const readAt = new Date();
+      setNotifications((prev) =>
+        prev.map((notification) =>
+          notification.readAt === null && (!ids || ids.includes(notification.id))
+            ? { ...notification, readAt }
+            : notification
+        )
+      );
+    },
+    [feed, recipientAddress]
+  );
+
+  return { notifications, markRead };
+}
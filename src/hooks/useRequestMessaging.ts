@@ -0,0 +1,66 @@
+import { useEffect, useMemo, useState } from 'react';
+import { MessageRepository } from '../lib/data';
+import { RequestMessaging } from '../types';
+
+interface RequestMessagingState {
+  /** `undefined` until a wallet is signed in. */
+  messaging?: RequestMessaging;
+  /** Unread messages addressed to the signed-in wallet, per request id. */
+  unreadCounts: Record<string, number>;
+}
+
+/**
+ * Message threads for the signed-in wallet, with unread counts polled so new
+ * messages show up without a reload. Failed refreshes keep the last counts.
+ */
+export function useRequestMessaging(
+  messages: MessageRepository,
+  viewerAddress: string | undefined,
+  refreshMs = 30_000
+): RequestMessagingState {
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    setUnreadCounts({});
+    if (!viewerAddress) return;
+    let cancelled = false;
+
+    const load = () => {
+      messages
+        .unreadCounts(viewerAddress)
+        .then((next) => {
+          if (!cancelled) setUnreadCounts(next);
+        })
+        .catch((error: unknown) => {
+          console.warn('Failed to refresh unread messages', error);
+        });
+    };
+
+    load();
+    const timer = setInterval(load, refreshMs);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [messages, viewerAddress, refreshMs]);
+
+  const messaging = useMemo<RequestMessaging | undefined>(
+    () =>
+      viewerAddress
+        ? {
+            viewerAddress,
+            load: (requestId) => messages.list(requestId),
+            send: (requestId, body) =>
+              messages.send({ requestId, senderAddress: viewerAddress, body }),
+            async markRead(requestId) {
+              await messages.markRead(requestId, viewerAddress);
+              setUnreadCounts((prev) => ({ ...prev, [requestId]: 0 }));
+            },
+          }
+        : undefined,
+    [messages, viewerAddress]
+  );
+
+  return { messaging, unreadCounts };
+}
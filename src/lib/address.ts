@@ -0,0 +1,90 @@
+import { bech32 } from '@scure/base';
+import { z } from 'zod';
+
+export type ThorAddressPrefix = 'thor' | 'sthor' | 'tthor';
+
+export const THOR_ADDRESS_PREFIXES: readonly ThorAddressPrefix[] = ['thor', 'sthor', 'tthor'];
+
+export type AddressErrorCode =
+  | 'empty'
+  | 'mixed-case'
+  | 'missing-separator'
+  | 'invalid-character'
+  | 'unsupported-prefix'
+  | 'invalid-checksum'
+  | 'invalid-length';
+
+export type AddressCheck =
+  | { valid: true; prefix: ThorAddressPrefix; bytes: Uint8Array }
+  | { valid: false; code: AddressErrorCode; message: string };
+
+const BECH32_CHARSET = /^[qpzry9x8gf2tvdw0s3jn54khce6mua7l]+$/;
+
+// Account addresses hash to 20 bytes; contract addresses are 32 bytes.
+const VALID_BYTE_LENGTHS = [20, 32];
+
+const fail = (code: AddressErrorCode, message: string): AddressCheck => ({
+  valid: false,
+  code,
+  message,
+});
+
+/**
+ * Decodes a bech32 THORChain address, verifying its checksum and that its prefix
+ * is one of `prefixes`. Failures carry a code and a message suitable for forms.
+ */
+export function checkThorAddress(
+  address: string,
+  prefixes: readonly ThorAddressPrefix[] = THOR_ADDRESS_PREFIXES
+): AddressCheck {
+  const trimmed = address.trim();
+  if (!trimmed) return fail('empty', 'Address is required');
+
+  if (trimmed !== trimmed.toLowerCase() && trimmed !== trimmed.toUpperCase()) {
+    return fail('mixed-case', 'Address must not mix upper and lower case');
+  }
+  const normalized = trimmed.toLowerCase();
+
+  if (normalized.lastIndexOf('1') < 1) {
+    return fail('missing-separator', 'Address must start with a prefix such as "thor1"');
+  }
+
+  const prefix = prefixes.find((candidate) => normalized.startsWith(`${candidate}1`));
+  if (!prefix) {
+    return fail(
+      'unsupported-prefix',
+      `Address must start with ${prefixes.map((p) => `"${p}1"`).join(' or ')}`
+    );
+  }
+
+  const data = normalized.slice(prefix.length + 1);
+
+  if (!BECH32_CHARSET.test(data)) {
+    return fail(
+      'invalid-character',
+      'Address contains characters that are not allowed (b, i, o and 1 never appear after the prefix)'
+    );
+  }
+
+  const decoded = bech32.decodeUnsafe(normalized, 128);
+  if (!decoded) {
+    return fail('invalid-checksum', 'Address checksum is invalid; check for typos');
+  }
+
+  const bytes = bech32.fromWordsUnsafe(decoded.words);
+  if (!bytes || !VALID_BYTE_LENGTHS.includes(bytes.length)) {
+    return fail('invalid-length', 'Address has the wrong length');
+  }
+
+  return { valid: true, prefix, bytes };
+}
+
+/** zod refinement that reports the precise reason an address is invalid. */
+export function thorAddressRefinement(prefixes?: readonly ThorAddressPrefix[]) {
+  return (value: string, ctx: z.RefinementCtx) => {
+    const result = checkThorAddress(value, prefixes);
+    if (!result.valid) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.message, params: { code: result.code } });
+    }
+  };
+}
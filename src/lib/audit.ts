@@ -0,0 +1,244 @@
+import {
+  AuditChange,
+  AuditEvent,
+  AuditEventInput,
+  AuditEventType,
+  NodeOperator,
+  RequestActionKind,
+  RequestEvent,
+  WhitelistRequest,
+} from '../types';
+import { REQUEST_STATUS_LABELS } from './requestLifecycle';
+import { toRuneString } from './rune';
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  created: 'Created',
+  edited: 'Edited',
+  'terms-changed': 'Terms changed',
+  deleted: 'Deleted',
+  approve: 'Approved',
+  waitlist: 'Waitlisted',
+  promote: 'Promoted from waitlist',
+  reject: 'Rejected',
+  cancel: 'Cancelled',
+  expire: 'Expired',
+  whitelist: 'Whitelisted',
+  bond: 'Bonded',
+  unbond: 'Unbonded',
+  withdraw: 'Withdrawal confirmed',
+  remove: 'Provider removed',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  address: 'Node address',
+  bondingCapacity: 'Bonding capacity',
+  minimumBond: 'Minimum bond',
+  feePercentage: 'Fee (%)',
+  instantChurnAmount: 'Instant churn amount',
+  maxBondProviders: 'Max bond providers',
+  description: 'Description',
+  contactInfo: 'Contact info',
+  rejectionTemplates: 'Rejection templates',
+  discordUsername: 'Discord',
+  xUsername: 'X',
+  telegramUsername: 'Telegram',
+  intendedBondAmount: 'Intended bond',
+};
+
+export const fieldLabel = (field: string) => FIELD_LABELS[field] ?? field;
+
+// The app makes these transitions on its own, as well as any a request is
+// created with (a blocklist rejection), so nobody is credited with them.
+const AUTOMATIC_EVENTS: readonly RequestEvent[] = ['promote', 'expire'];
+
+const ACTION_EVENTS: Record<RequestActionKind, RequestEvent> = {
+  whitelist: 'whitelist',
+  bond: 'bond',
+  unbond: 'unbond',
+  'remove-provider': 'remove',
+};
+
+/** Listing fields bonders rely on when they request a slot. */
+export const LISTING_TERMS: (keyof NodeOperator)[] = [
+  'bondingCapacity',
+  'minimumBond',
+  'feePercentage',
+  'instantChurnAmount',
+  'maxBondProviders',
+];
+
+const LISTING_DETAILS: (keyof NodeOperator)[] = [
+  'address',
+  'description',
+  'contactInfo',
+  'rejectionTemplates',
+];
+
+export function describeValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'bigint') return `${toRuneString(value)} RUNE`;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.length > 0 ? value.join('; ') : null;
+  return String(value);
+}
+
+function diffFields<T>(before: T, after: T, fields: (keyof T & string)[]): AuditChange[] {
+  return fields.flatMap((field) => {
+    const from = describeValue(before[field]);
+    const to = describeValue(after[field]);
+    return from === to ? [] : [{ field, from, to }];
+  });
+}
+
+/** Events for one listing going from `before` to `after`; either is `null` on create or delete. */
+export function listingEvents(
+  before: NodeOperator | null,
+  after: NodeOperator | null,
+  actor: string | null,
+  at = new Date()
+): AuditEventInput[] {
+  const subject = { subjectType: 'node-operator' as const, actor, at };
+  if (!before && after) {
+    return [{ ...subject, subjectId: after.id, type: 'created', changes: [] }];
+  }
+  if (before && !after) {
+    return [{ ...subject, subjectId: before.id, type: 'deleted', changes: [] }];
+  }
+  if (!before || !after) return [];
+
+  const terms = diffFields(before, after, LISTING_TERMS);
+  const details = diffFields(before, after, LISTING_DETAILS);
+  if (terms.length === 0 && details.length === 0) return [];
+  return [
+    {
+      ...subject,
+      subjectId: after.id,
+      type: terms.length > 0 ? 'terms-changed' : 'edited',
+      changes: [...terms, ...details],
+    },
+  ];
+}
+
+/** Events for one request going from `before` to `after`, read off its history arrays. */
+export function requestEvents(
+  before: WhitelistRequest | undefined,
+  after: WhitelistRequest | undefined,
+  actor: string | null,
+  at = new Date()
+): AuditEventInput[] {
+  if (before && !after) {
+    return [
+      { subjectType: 'whitelist-request', subjectId: before.id, type: 'deleted', actor, changes: [], at },
+    ];
+  }
+  if (!after) return [];
+
+  const subject = { subjectType: 'whitelist-request' as const, subjectId: after.id };
+  const events: AuditEventInput[] = before
+    ? []
+    : [{ ...subject, type: 'created', actor, changes: [], at: after.createdAt }];
+
+  const newActions = after.actions.slice(before?.actions.length ?? 0);
+  const actionNote = newActions
+    .map((action) => (action.txHash ? `${action.memo} (tx ${action.txHash})` : action.memo))
+    .join('; ');
+
+  const newTransitions = after.transitions.slice(before?.transitions.length ?? 0);
+  for (const transition of newTransitions) {
+    // The log is public, so private rejection reasons stay out of it.
+    const note =
+      transition.event === 'reject'
+        ? after.rejectionReasonPrivate
+          ? undefined
+          : after.rejectionReason
+        : actionNote || undefined;
+    events.push({
+      ...subject,
+      type: transition.event,
+      actor: !before || AUTOMATIC_EVENTS.includes(transition.event) ? null : actor,
+      changes: [
+        {
+          field: 'status',
+          from: REQUEST_STATUS_LABELS[transition.from],
+          to: REQUEST_STATUS_LABELS[transition.to],
+        },
+      ],
+      note,
+      at: transition.at,
+    });
+  }
+
+  // Partial unbonds are recorded without a status change.
+  if (newTransitions.length === 0) {
+    for (const action of newActions) {
+      events.push({
+        ...subject,
+        type: ACTION_EVENTS[action.kind],
+        actor,
+        changes: [],
+        note: actionNote,
+        at: action.createdAt,
+      });
+    }
+  }
+
+  for (const edit of after.edits.slice(before?.edits.length ?? 0)) {
+    events.push({
+      ...subject,
+      type: 'edited',
+      actor,
+      changes: Object.entries(edit.previous).map(([field, previous]) => ({
+        field,
+        from: describeValue(previous),
+        to: describeValue(after[field as keyof WhitelistRequest]),
+      })),
+      at: edit.at,
+    });
+  }
+
+  return events;
+}
+
+/** Events for every request that changed between two snapshots of the collection. */
+export function diffRequests(
+  before: WhitelistRequest[],
+  after: WhitelistRequest[],
+  actor: string | null,
+  at = new Date()
+): AuditEventInput[] {
+  const previous = new Map(before.map((request) => [request.id, request]));
+  const current = new Map(after.map((request) => [request.id, request]));
+  const ids = new Set([...previous.keys(), ...current.keys()]);
+  return [...ids].flatMap((id) => requestEvents(previous.get(id), current.get(id), actor, at));
+}
+
+export const describeChanges = (changes: AuditChange[]) =>
+  changes
+    .map(({ field, from, to }) => `${fieldLabel(field)}: ${from ?? '—'} → ${to ?? '—'}`)
+    .join('; ');
+
+export function describeAuditEvent(event: AuditEvent): string {
+  const changes = describeChanges(event.changes);
+  return changes ? `${AUDIT_EVENT_LABELS[event.type]} (${changes})` : AUDIT_EVENT_LABELS[event.type];
+}
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function auditLogToCsv(events: AuditEvent[]): string {
+  const header = ['at', 'subject_type', 'subject_id', 'event', 'actor', 'changes', 'note'];
+  const rows = events.map((event) => [
+    event.at.toISOString(),
+    event.subjectType,
+    event.subjectId,
+    event.type,
+    event.actor ?? 'system',
+    describeChanges(event.changes),
+    event.note ?? '',
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+}
+
+export function auditLogToJson(events: AuditEvent[]): string {
+  return JSON.stringify(events, null, 2);
+}
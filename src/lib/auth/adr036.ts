@@ -0,0 +1,83 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { ripemd160 } from '@noble/hashes/legacy';
+import { sha256 } from '@noble/hashes/sha2';
+import { base64, bech32 } from '@scure/base';
+
+// ADR-036 "arbitrary message" signing: the message is wrapped in an amino
+// StdSignDoc with an empty chain id and zero fees, so wallets can sign it
+// without it ever being a valid transaction.
+// https://github.com/cosmos/cosmos-sdk/blob/main/docs/architecture/adr-036-arbitrary-signature.md
+
+export interface StdSignature {
+  /** Base64 compressed secp256k1 public key. */
+  pubKey: string;
+  /** Base64 64-byte `r || s` signature. */
+  signature: string;
+}
+
+function sortedJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(sortedJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${sortedJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function makeAdr036SignBytes(signer: string, message: string): Uint8Array {
+  const signDoc = {
+    chain_id: '',
+    account_number: '0',
+    sequence: '0',
+    fee: { gas: '0', amount: [] },
+    msgs: [
+      {
+        type: 'sign/MsgSignData',
+        value: {
+          signer,
+          data: base64.encode(new TextEncoder().encode(message)),
+        },
+      },
+    ],
+    memo: '',
+  };
+  return new TextEncoder().encode(sortedJson(signDoc));
+}
+
+export function pubKeyToAddress(pubKey: Uint8Array, prefix: string): string {
+  return bech32.encode(prefix, bech32.toWords(ripemd160(sha256(pubKey))));
+}
+
+export function signAdr036(privateKey: Uint8Array, signer: string, message: string): StdSignature {
+  const digest = sha256(makeAdr036SignBytes(signer, message));
+  const signature = secp256k1.sign(digest, privateKey, { lowS: true });
+  return {
+    pubKey: base64.encode(secp256k1.getPublicKey(privateKey, true)),
+    signature: base64.encode(signature.toCompactRawBytes()),
+  };
+}
+
+/**
+ * Checks that `signature` is a valid ADR-036 signature of `message` and that the
+ * signing key belongs to the bech32 `signer` address.
+ */
+export function verifyAdr036Signature(
+  signer: string,
+  message: string,
+  { pubKey, signature }: StdSignature
+): boolean {
+  try {
+    const pubKeyBytes = base64.decode(pubKey);
+    const { prefix } = bech32.decode(signer as `${string}1${string}`);
+    if (pubKeyToAddress(pubKeyBytes, prefix) !== signer) return false;
+
+    const digest = sha256(makeAdr036SignBytes(signer, message));
+    return secp256k1.verify(base64.decode(signature), digest, pubKeyBytes, { lowS: false });
+  } catch {
+    return false;
+  }
+}
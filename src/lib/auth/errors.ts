@@ -0,0 +1,16 @@
+export type AuthErrorCode =
+  | 'unknown-challenge'
+  | 'challenge-expired'
+  | 'invalid-signature'
+  | 'unauthenticated'
+  | 'forbidden';
+
+export class AuthError extends Error {
+  constructor(
+    readonly code: AuthErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
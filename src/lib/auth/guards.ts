@@ -0,0 +1,57 @@
+import { NodeOperator, TeamMember, TeamRole, WhitelistRequest } from '../../types';
+import { isThreadParticipant } from '../messages';
+import { isModerator } from '../moderation';
+import { hasRole, roleOn, TEAM_ROLE_LABELS } from '../team';
+import { AuthError } from './errors';
+import { Session } from './verifier';
+
+// Listings and requests are bound to the address proven at sign-in. These
+// checks run wherever a mutation is accepted: the API server and the client.
+
+export function assertSessionAddress(session: Session, address: string, what: string): void {
+  if (session.address !== address) {
+    throw new AuthError('forbidden', `You can only ${what} for your own wallet address`);
+  }
+}
+
+/** `members` is the listing's team; the operator wallet always passes as owner. */
+export function assertListingRole(
+  session: Session,
+  listing: NodeOperator,
+  members: TeamMember[],
+  required: TeamRole
+): TeamRole {
+  const role = roleOn(session.address, listing, members);
+  if (!role || !hasRole(role, required)) {
+    throw new AuthError(
+      'forbidden',
+      role
+        ? `This needs the ${TEAM_ROLE_LABELS[required].toLowerCase()} role on the listing`
+        : "Only the listing's team can do this"
+    );
+  }
+  return role;
+}
+
+export function assertModerator(session: Session, moderators: readonly string[]): void {
+  if (!isModerator(session.address, moderators)) {
+    throw new AuthError('forbidden', 'Only moderators can do this');
+  }
+}
+
+export function assertInThread(
+  session: Session,
+  request: WhitelistRequest,
+  listing: NodeOperator | null,
+  members: TeamMember[]
+): void {
+  if (!isThreadParticipant(session.address, request, listing ?? undefined, members)) {
+    throw new AuthError('forbidden', "Only the bonder and the listing's team managers can do this");
+  }
+}
+
+export function assertOwnsRequest(session: Session, request: WhitelistRequest): void {
+  if (request.walletAddress !== session.address) {
+    throw new AuthError('forbidden', 'Only the requesting wallet can do this');
+  }
+}
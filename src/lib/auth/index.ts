@@ -0,0 +1,6 @@
+export * from './adr036';
+export * from './errors';
+export * from './guards';
+export * from './service';
+export * from './sessionStorage';
+export * from './verifier';
@@ -0,0 +1,33 @@
+import { ApiRequest, createApiRequest } from '../data/apiRequest';
+import { StdSignature } from './adr036';
+import { createSessionVerifier, Session, SessionVerifier, SignInChallenge } from './verifier';
+
+export interface AuthService {
+  requestChallenge(address: string): Promise<SignInChallenge>;
+  signIn(nonce: string, proof: StdSignature): Promise<Session>;
+}
+
+// Verifies signatures in the browser. Used with the local and in-memory stores,
+// where there is no server to hold sessions.
+export function createLocalAuthService(
+  verifier: SessionVerifier = createSessionVerifier()
+): AuthService {
+  return {
+    requestChallenge: async (address) => verifier.issueChallenge(address),
+    signIn: async (nonce, proof) => verifier.verify(nonce, proof),
+  };
+}
+
+export function createHttpAuthService(request: ApiRequest): AuthService {
+  return {
+    requestChallenge: (address) =>
+      request<SignInChallenge>('POST', '/auth/challenge', { address }),
+    signIn: (nonce, proof) => request<Session>('POST', '/auth/session', { nonce, ...proof }),
+  };
+}
+
+export function createAuthService(): AuthService {
+  return import.meta.env.VITE_DATA_BACKEND === 'http'
+    ? createHttpAuthService(createApiRequest(import.meta.env.VITE_API_URL ?? '/api'))
+    : createLocalAuthService();
+}
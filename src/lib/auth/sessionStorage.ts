@@ -0,0 +1,26 @@
+import { parse, stringify } from '../data/serialization';
+import { NetworkId } from '../networks';
+import { Session } from './verifier';
+
+// Addresses differ per network, so each network keeps its own session.
+const sessionKey = (networkId: NetworkId) => `runebond:${networkId}:session`;
+
+export function loadSession(networkId: NetworkId): Session | null {
+  const raw = window.localStorage.getItem(sessionKey(networkId));
+  if (!raw) return null;
+
+  const session = parse<Session>(raw);
+  if (session.expiresAt.getTime() <= Date.now()) {
+    clearSession(networkId);
+    return null;
+  }
+  return session;
+}
+
+export function saveSession(networkId: NetworkId, session: Session): void {
+  window.localStorage.setItem(sessionKey(networkId), stringify(session));
+}
+
+export function clearSession(networkId: NetworkId): void {
+  window.localStorage.removeItem(sessionKey(networkId));
+}
@@ -0,0 +1,144 @@
+import { bytesToHex, randomBytes } from '@noble/hashes/utils';
+import { StdSignature, verifyAdr036Signature } from './adr036';
+import { AuthError } from './errors';
+
+export interface SignInChallenge {
+  address: string;
+  nonce: string;
+  message: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+export interface Session {
+  token: string;
+  address: string;
+  expiresAt: Date;
+}
+
+export interface SessionVerifier {
+  issueChallenge(address: string): SignInChallenge;
+  /** Consumes the challenge and issues a session if the proof is valid. */
+  verify(nonce: string, proof: StdSignature): Session;
+  /** Returns the live session for a token, or `null` if unknown or expired. */
+  resolve(token: string): Session | null;
+}
+
+export interface SessionVerifierOptions {
+  domain?: string;
+  challengeTtlMs?: number;
+  sessionTtlMs?: number;
+  /** Outstanding challenges kept per address; issuing more drops the oldest. */
+  maxChallengesPerAddress?: number;
+  /** Outstanding challenges kept in total; issuing more drops the oldest. */
+  maxChallenges?: number;
+  now?: () => Date;
+}
+
+export function buildChallengeMessage(
+  domain: string,
+  address: string,
+  nonce: string,
+  issuedAt: Date,
+  expiresAt: Date
+): string {
+  return [
+    `${domain} wants you to sign in with your THORChain account:`,
+    address,
+    '',
+    'Signing this message proves you control this address. It does not send a transaction or cost any fees.',
+    '',
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+    `Expiration Time: ${expiresAt.toISOString()}`,
+  ].join('\n');
+}
+
+// Challenges and sessions are kept in memory: a restart simply requires users to
+// sign in again.
+export function createSessionVerifier({
+  domain = 'RUNEBond',
+  challengeTtlMs = 5 * 60_000,
+  sessionTtlMs = 24 * 60 * 60_000,
+  maxChallengesPerAddress = 5,
+  maxChallenges = 10_000,
+  now = () => new Date(),
+}: SessionVerifierOptions = {}): SessionVerifier {
+  const challenges = new Map<string, SignInChallenge>();
+  const sessions = new Map<string, Session>();
+
+  const prune = () => {
+    const current = now().getTime();
+    for (const [nonce, challenge] of challenges) {
+      if (challenge.expiresAt.getTime() <= current) challenges.delete(nonce);
+    }
+    for (const [token, session] of sessions) {
+      if (session.expiresAt.getTime() <= current) sessions.delete(token);
+    }
+  };
+
+  // Maps iterate in insertion order, so the first challenges found are the oldest.
+  const dropOldestChallenges = (address: string) => {
+    const forAddress = [...challenges.values()].filter((challenge) => challenge.address === address);
+    const addressExcess = forAddress.length - maxChallengesPerAddress + 1;
+    for (const challenge of forAddress.slice(0, Math.max(addressExcess, 0))) {
+      challenges.delete(challenge.nonce);
+    }
+    const totalExcess = challenges.size - maxChallenges + 1;
+    for (const nonce of [...challenges.keys()].slice(0, Math.max(totalExcess, 0))) {
+      challenges.delete(nonce);
+    }
+  };
+
+  return {
+    issueChallenge(address) {
+      prune();
+      dropOldestChallenges(address);
+      const nonce = bytesToHex(randomBytes(16));
+      const issuedAt = now();
+      const expiresAt = new Date(issuedAt.getTime() + challengeTtlMs);
+      const challenge: SignInChallenge = {
+        address,
+        nonce,
+        issuedAt,
+        expiresAt,
+        message: buildChallengeMessage(domain, address, nonce, issuedAt, expiresAt),
+      };
+      challenges.set(nonce, challenge);
+      return challenge;
+    },
+
+    verify(nonce, proof) {
+      const challenge = challenges.get(nonce);
+      if (!challenge) {
+        throw new AuthError('unknown-challenge', 'Sign-in challenge not found or already used');
+      }
+      challenges.delete(nonce);
+
+      if (challenge.expiresAt.getTime() <= now().getTime()) {
+        throw new AuthError('challenge-expired', 'Sign-in challenge has expired');
+      }
+      if (!verifyAdr036Signature(challenge.address, challenge.message, proof)) {
+        throw new AuthError('invalid-signature', 'Signature does not match the wallet address');
+      }
+
+      const session: Session = {
+        token: bytesToHex(randomBytes(32)),
+        address: challenge.address,
+        expiresAt: new Date(now().getTime() + sessionTtlMs),
+      };
+      sessions.set(session.token, session);
+      return session;
+    },
+
+    resolve(token) {
+      const session = sessions.get(token);
+      if (!session) return null;
+      if (session.expiresAt.getTime() <= now().getTime()) {
+        sessions.delete(token);
+        return null;
+      }
+      return session;
+    },
+  };
+}
@@ -0,0 +1,187 @@
+import { NodeOperator, RequestActionKind, WhitelistRequest } from '../types';
+import { NodeStatusSummary } from './nodeStatus';
+import { RuneAmount } from './rune';
+
+export const RUNE_ASSET = 'THOR.RUNE';
+export const MSG_DEPOSIT_TYPE_URL = '/types.MsgDeposit';
+
+export interface MsgDepositCoin {
+  asset: string;
+  /** Base units, as a decimal string. */
+  amount: string;
+}
+
+export interface MsgDeposit {
+  typeUrl: typeof MSG_DEPOSIT_TYPE_URL;
+  value: {
+    coins: MsgDepositCoin[];
+    memo: string;
+    signer: string;
+  };
+}
+
+/** Request actions, plus LEAVE, which concerns the whole node. */
+export type BondTransactionKind = RequestActionKind | 'leave';
+
+export interface BondTransaction {
+  kind: BondTransactionKind;
+  memo: string;
+  /** RUNE attached to the deposit. */
+  amount: RuneAmount;
+  /** Bond added or withdrawn by the memo; differs from `amount` for UNBOND. */
+  bondAmount: RuneAmount;
+  signer: string;
+  msg: MsgDeposit;
+}
+
+/** THORChain expresses the operator fee in basis points (20% = 2000). */
+export function feeToBasisPoints(feePercentage: number): number {
+  return Math.round(feePercentage * 100);
+}
+
+/**
+ * Memo the node operator sends to whitelist a bond provider and set the
+ * operator fee: `BOND:<node>:<provider>:<fee bps>`.
+ */
+export function buildWhitelistMemo(
+  nodeAddress: string,
+  providerAddress: string,
+  feePercentage: number
+): string {
+  return `BOND:${nodeAddress}:${providerAddress}:${feeToBasisPoints(feePercentage)}`;
+}
+
+/** Memo a whitelisted provider sends with their RUNE; the provider is the signer. */
+export function buildBondMemo(nodeAddress: string): string {
+  return `BOND:${nodeAddress}`;
+}
+
+/**
+ * Memo to unbond `amount` (base units) of `providerAddress`'s bond. Sent by the
+ * provider to withdraw, or by the operator to remove the provider; once its bond
+ * reaches zero the provider is dropped from the whitelist.
+ */
+export function buildUnbondMemo(
+  nodeAddress: string,
+  amount: RuneAmount,
+  providerAddress: string
+): string {
+  return `UNBOND:${nodeAddress}:${amount}:${providerAddress}`;
+}
+
+/** Memo the operator sends to have the node churned out and its bond returned. */
+export function buildLeaveMemo(nodeAddress: string): string {
+  return `LEAVE:${nodeAddress}`;
+}
+
+export type UnbondCheck = { allowed: true } | { allowed: false; reason: string };
+
+// THORChain rejects UNBOND while the node is in the active set; the bond is
+// only released once the node churns out.
+export function checkUnbondAllowed(nodeStatus: NodeStatusSummary | undefined): UnbondCheck {
+  if (!nodeStatus) {
+    return { allowed: false, reason: 'The node status is unavailable; try again shortly.' };
+  }
+  if (nodeStatus.isActive) {
+    return {
+      allowed: false,
+      reason: 'The node is active. Bond can only be withdrawn after it churns out.',
+    };
+  }
+  return { allowed: true };
+}
+
+export function buildMsgDeposit(signer: string, amount: RuneAmount, memo: string): MsgDeposit {
+  return {
+    typeUrl: MSG_DEPOSIT_TYPE_URL,
+    value: {
+      coins: [{ asset: RUNE_ASSET, amount: amount.toString() }],
+      memo,
+      signer,
+    },
+  };
+}
+
+const transaction = (
+  kind: BondTransactionKind,
+  signer: string,
+  amount: RuneAmount,
+  memo: string,
+  bondAmount = amount
+): BondTransaction => ({
+  kind,
+  memo,
+  amount,
+  bondAmount,
+  signer,
+  msg: buildMsgDeposit(signer, amount, memo),
+});
+
+// Whitelisting moves no RUNE; the deposit only carries the memo.
+export function buildWhitelistTransaction(
+  nodeOperator: NodeOperator,
+  request: WhitelistRequest
+): BondTransaction {
+  return transaction(
+    'whitelist',
+    nodeOperator.operatorAddress,
+    0n,
+    buildWhitelistMemo(nodeOperator.address, request.walletAddress, nodeOperator.feePercentage)
+  );
+}
+
+export function buildBondTransaction(
+  nodeOperator: NodeOperator,
+  request: WhitelistRequest
+): BondTransaction {
+  return transaction(
+    'bond',
+    request.walletAddress,
+    request.intendedBondAmount,
+    buildBondMemo(nodeOperator.address)
+  );
+}
+
+export function buildUnbondTransaction(
+  nodeOperator: NodeOperator,
+  request: WhitelistRequest,
+  amount: RuneAmount
+): BondTransaction {
+  return transaction(
+    'unbond',
+    request.walletAddress,
+    0n,
+    buildUnbondMemo(nodeOperator.address, amount, request.walletAddress),
+    amount
+  );
+}
+
+// Removing a provider unbonds all of their bond from the operator's wallet.
+export function buildRemoveProviderTransaction(
+  nodeOperator: NodeOperator,
+  request: WhitelistRequest,
+  bondedAmount: RuneAmount
+): BondTransaction {
+  return transaction(
+    'remove-provider',
+    nodeOperator.operatorAddress,
+    0n,
+    buildUnbondMemo(nodeOperator.address, bondedAmount, request.walletAddress),
+    bondedAmount
+  );
+}
+
+export function buildLeaveTransaction(nodeOperator: NodeOperator): BondTransaction {
+  return transaction('leave', nodeOperator.operatorAddress, 0n, buildLeaveMemo(nodeOperator.address));
+}
+
+/** Net bond recorded through the request's actions. */
+export function recordedBond(request: WhitelistRequest): RuneAmount {
+  return request.actions.reduce((total, action) => {
+    if (action.kind === 'bond') return total + action.amount;
+    if (action.kind === 'unbond' || action.kind === 'remove-provider') {
+      return total - action.amount;
+    }
+    return total;
+  }, 0n);
+}
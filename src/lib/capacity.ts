@@ -0,0 +1,180 @@
+import { NodeOperator, WhitelistRequest } from '../types';
+import { IN_PROGRESS_STATUSES, applyTransition, lastTransitionAt } from './requestLifecycle';
+import { RuneAmount, sumRune } from './rune';
+import { ThornodeClient } from './thornode';
+
+export const MAX_BOND_PROVIDERS_MIMIR = 'MAXBONDPROVIDERS';
+
+/** THORChain's built-in limit, used until mimir says otherwise. */
+export const DEFAULT_MAX_BOND_PROVIDERS = 6;
+
+/** Resolves the network's bond provider limit; never rejects. */
+export type MaxBondProvidersLookup = () => Promise<number>;
+
+export function createMaxBondProvidersLookup(
+  client: ThornodeClient,
+  ttlMs = 10 * 60_000
+): MaxBondProvidersLookup {
+  let cached: { value: number; fetchedAt: number } | null = null;
+
+  return async () => {
+    if (cached && Date.now() - cached.fetchedAt < ttlMs) return cached.value;
+    try {
+      const value = (await client.getMimir(MAX_BOND_PROVIDERS_MIMIR)) ?? DEFAULT_MAX_BOND_PROVIDERS;
+      cached = { value, fetchedAt: Date.now() };
+      return value;
+    } catch {
+      // Failures are not cached, so the next call retries THORNode.
+      return cached?.value ?? DEFAULT_MAX_BOND_PROVIDERS;
+    }
+  };
+}
+
+const forOperator = (nodeOperator: NodeOperator, requests: WhitelistRequest[]) =>
+  requests.filter((req) => req.nodeOperatorId === nodeOperator.id);
+
+const holdingCapacity = (nodeOperator: NodeOperator, requests: WhitelistRequest[]) =>
+  forOperator(nodeOperator, requests).filter((req) => IN_PROGRESS_STATUSES.includes(req.status));
+
+/** Bond held by approved bonders until their request closes. */
+export function committedBond(nodeOperator: NodeOperator, requests: WhitelistRequest[]): RuneAmount {
+  return sumRune(holdingCapacity(nodeOperator, requests).map((req) => req.intendedBondAmount));
+}
+
+/** Negative when the operator lowered capacity below what is already committed. */
+export function remainingCapacity(
+  nodeOperator: NodeOperator,
+  requests: WhitelistRequest[]
+): RuneAmount {
+  return nodeOperator.bondingCapacity - committedBond(nodeOperator, requests);
+}
+
+/** The listing's own limit when set, otherwise the network's. */
+export function bondProviderLimit(nodeOperator: NodeOperator, networkLimit: number): number {
+  return nodeOperator.maxBondProviders ?? networkLimit;
+}
+
+/** Approved bonders take a provider slot for as long as they hold capacity. */
+export function remainingProviderSlots(
+  nodeOperator: NodeOperator,
+  requests: WhitelistRequest[],
+  networkLimit: number
+): number {
+  return (
+    bondProviderLimit(nodeOperator, networkLimit) - holdingCapacity(nodeOperator, requests).length
+  );
+}
+
+/** Provider slots taken on each listing, by listing id. */
+export function providerSlotsTaken(requests: WhitelistRequest[]): Record<string, number> {
+  const taken: Record<string, number> = {};
+  for (const req of requests) {
+    if (IN_PROGRESS_STATUSES.includes(req.status)) {
+      taken[req.nodeOperatorId] = (taken[req.nodeOperatorId] ?? 0) + 1;
+    }
+  }
+  return taken;
+}
+
+/** Whether approving `request` now would stay within both RUNE capacity and provider slots. */
+export function canAdmit(
+  nodeOperator: NodeOperator,
+  requests: WhitelistRequest[],
+  request: WhitelistRequest,
+  networkLimit: number
+): boolean {
+  return (
+    request.intendedBondAmount <= remainingCapacity(nodeOperator, requests) &&
+    remainingProviderSlots(nodeOperator, requests, networkLimit) > 0
+  );
+}
+
+export interface ApprovalPlan {
+  approve: WhitelistRequest[];
+  waitlist: WhitelistRequest[];
+}
+
+/**
+ * What approving `selected` one at a time, oldest first, would do: each request
+ * that still fits after the ones approved before it is approved, the rest are
+ * waitlisted. The store makes the same call for each approval.
+ */
+export function planApprovals(
+  nodeOperator: NodeOperator,
+  requests: WhitelistRequest[],
+  selected: WhitelistRequest[],
+  networkLimit: number
+): ApprovalPlan {
+  const plan: ApprovalPlan = { approve: [], waitlist: [] };
+  let current = requests;
+  const ordered = [...selected].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  for (const request of ordered) {
+    const fits = canAdmit(nodeOperator, current, request, networkLimit);
+    (fits ? plan.approve : plan.waitlist).push(request);
+    const status = fits ? 'approved' : 'waitlisted';
+    current = current.map((req) => (req.id === request.id ? { ...req, status } : req));
+  }
+  return plan;
+}
+
+/** `planApprovals` for a selection spanning listings, each planned against its own limits. */
+export function planApprovalsAcross(
+  nodeOperators: NodeOperator[],
+  requests: WhitelistRequest[],
+  selected: WhitelistRequest[],
+  networkLimit: number
+): ApprovalPlan {
+  const plan: ApprovalPlan = { approve: [], waitlist: [] };
+  for (const nodeOperator of nodeOperators) {
+    const own = forOperator(nodeOperator, selected);
+    if (own.length === 0) continue;
+    const nodePlan = planApprovals(nodeOperator, requests, own, networkLimit);
+    plan.approve.push(...nodePlan.approve);
+    plan.waitlist.push(...nodePlan.waitlist);
+  }
+  return plan;
+}
+
+/** Waitlisted requests in the order they joined the waitlist. */
+export function waitlist(nodeOperator: NodeOperator, requests: WhitelistRequest[]): WhitelistRequest[] {
+  return forOperator(nodeOperator, requests)
+    .filter((req) => req.status === 'waitlisted')
+    .sort((a, b) => lastTransitionAt(a).getTime() - lastTransitionAt(b).getTime());
+}
+
+/**
+ * Waitlisted requests that now fit, taken strictly in waitlist order: a large
+ * request at the head holds back the ones behind it rather than being skipped.
+ */
+export function promotableRequests(
+  nodeOperator: NodeOperator,
+  requests: WhitelistRequest[],
+  networkLimit: number
+): WhitelistRequest[] {
+  let available = remainingCapacity(nodeOperator, requests);
+  let slots = remainingProviderSlots(nodeOperator, requests, networkLimit);
+  const promotable: WhitelistRequest[] = [];
+  for (const request of waitlist(nodeOperator, requests)) {
+    if (slots <= 0 || request.intendedBondAmount > available) break;
+    available -= request.intendedBondAmount;
+    slots -= 1;
+    promotable.push(request);
+  }
+  return promotable;
+}
+
+/** Returns `requests` with every request that now fits its operator's limits approved. */
+export function promoteWaitlisted(
+  requests: WhitelistRequest[],
+  nodeOperators: NodeOperator[],
+  networkLimit: number,
+  at = new Date()
+): WhitelistRequest[] {
+  const promoted = new Set(
+    nodeOperators
+      .flatMap((op) => promotableRequests(op, requests, networkLimit))
+      .map((req) => req.id)
+  );
+  if (promoted.size === 0) return requests;
+  return requests.map((req) => (promoted.has(req.id) ? applyTransition(req, 'promote', at) : req));
+}
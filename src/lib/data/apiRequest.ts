@@ -0,0 +1,49 @@
+import { parse, stringify } from './serialization';
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export type ApiRequest = <T>(method: string, path: string, body?: unknown) => Promise<T>;
+
+export interface ApiRequestOptions {
+  /** Bearer token sent with every request, when present. */
+  getAuthToken?: () => string | null;
+}
+
+export function createApiRequest(
+  baseUrl: string,
+  { getAuthToken }: ApiRequestOptions = {}
+): ApiRequest {
+  const root = baseUrl.replace(/\/$/, '');
+
+  return async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    const token = getAuthToken?.();
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    const response = await fetch(`${root}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : stringify(body),
+    });
+
+    const text = await response.text();
+    const payload = text ? parse<unknown>(text) : undefined;
+
+    if (!response.ok) {
+      const message =
+        (payload as { error?: string } | undefined)?.error ?? response.statusText;
+      throw new ApiError(response.status, message);
+    }
+
+    return payload as T;
+  };
+}
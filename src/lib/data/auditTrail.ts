@@ -0,0 +1,120 @@
+import { AuditEventInput, NodeOperator, WhitelistRequest } from '../../types';
+import { diffRequests, listingEvents } from '../audit';
+import { notificationsFor, teamInviteNotification } from '../notifications';
+import { WebhookDeliveryOptions } from '../webhooks';
+import { StoreDataStore } from './storeRepositories';
+import { DataStore } from './types';
+import { dispatchWebhooks } from './webhookDispatch';
+
+/** The wallet behind the current change, or `null` when nobody is signed in. */
+export type ActorLookup = () => string | null;
+
+interface Snapshot {
+  requests: WhitelistRequest[];
+  listing: NodeOperator | null;
+}
+
+// Audited mutations on one store run one at a time, so each before/after
+// snapshot only sees the change it wraps.
+const queues = new WeakMap<StoreDataStore, Promise<unknown>>();
+
+/**
+ * Wraps every mutation of `store` so the events it caused, including waitlist
+ * promotions and expiries it triggered, are appended to the audit log, raise
+ * the notifications they imply and go out to the listing's webhooks. Team
+ * invitations notify the invitee. New mutating repository methods need to be
+ * listed here too.
+ */
+export function withAuditTrail(
+  store: StoreDataStore,
+  getActor: ActorLookup,
+  webhookOptions?: WebhookDeliveryOptions
+): DataStore {
+  const serialized = <R>(fn: () => Promise<R>): Promise<R> => {
+    const next = (queues.get(store) ?? Promise.resolve()).then(fn);
+    queues.set(store, next.catch(() => undefined));
+    return next;
+  };
+
+  const snapshot = async (listingId?: string): Promise<Snapshot> => {
+    const [requests, listing] = await Promise.all([
+      store.whitelistRequests.list(),
+      listingId ? store.nodeOperators.get(listingId) : Promise.resolve(null),
+    ]);
+    return { requests, listing };
+  };
+
+  const record = async (events: AuditEventInput[], requests: WhitelistRequest[]) => {
+    if (events.length === 0) return;
+    const appended = await store.auditLog.append(events);
+    const nodeOperators = await store.nodeOperators.list();
+    // New requests also reach the managers on their listing's team.
+    const listingIds = new Set(
+      requests
+        .filter((request) => appended.some((event) => event.subjectId === request.id))
+        .map((request) => request.nodeOperatorId)
+    );
+    const members = (await Promise.all([...listingIds].map((id) => store.team.list(id)))).flat();
+    const notifications = notificationsFor(appended, requests, nodeOperators, members);
+    if (notifications.length > 0) await store.notifications.add(notifications);
+    // Deliveries retry for a while, so they finish after the change is saved.
+    void dispatchWebhooks(store.webhooks, appended, requests, nodeOperators, webhookOptions);
+  };
+
+  const audited = <R>(mutation: () => Promise<R>, listingId?: string): Promise<R> => {
+    const actor = getActor();
+    return serialized(async () => {
+      const before = await snapshot(listingId);
+      const result = await mutation();
+      const after = await snapshot(listingId);
+      await record(
+        [
+          ...(listingId ? listingEvents(before.listing, after.listing, actor) : []),
+          ...diffRequests(before.requests, after.requests, actor),
+        ],
+        after.requests
+      );
+      return result;
+    });
+  };
+
+  const { nodeOperators, whitelistRequests, team } = store;
+
+  return {
+    ...store,
+    nodeOperators: {
+      ...nodeOperators,
+      create: (input) => {
+        const actor = getActor();
+        return serialized(async () => {
+          const created = await nodeOperators.create(input);
+          await record(listingEvents(null, created, actor), []);
+          return created;
+        });
+      },
+      update: (id, changes) => audited(() => nodeOperators.update(id, changes), id),
+      remove: (id) => audited(() => nodeOperators.remove(id), id),
+    },
+    whitelistRequests: {
+      ...whitelistRequests,
+      create: (input) => audited(() => whitelistRequests.create(input)),
+      update: (id, changes) => audited(() => whitelistRequests.update(id, changes)),
+      remove: (id) => audited(() => whitelistRequests.remove(id)),
+      approve: (id) => audited(() => whitelistRequests.approve(id)),
+      reject: (id, rejection) => audited(() => whitelistRequests.reject(id, rejection)),
+      recordAction: (id, action) => audited(() => whitelistRequests.recordAction(id, action)),
+      cancel: (id) => audited(() => whitelistRequests.cancel(id)),
+      confirmWithdrawal: (id) => audited(() => whitelistRequests.confirmWithdrawal(id)),
+      expireStale: () => audited(() => whitelistRequests.expireStale()),
+    },
+    team: {
+      ...team,
+      async invite(input) {
+        const member = await team.invite(input);
+        const listing = await store.nodeOperators.get(member.nodeOperatorId);
+        if (listing) await store.notifications.add([teamInviteNotification(member, listing)]);
+        return member;
+      },
+    },
+  };
+}
@@ -0,0 +1,17 @@
+export interface StorageBackend {
+  read(key: string): Promise<string | null>;
+  write(key: string, value: string): Promise<void>;
+}
+
+export function createMemoryBackend(): StorageBackend {
+  const entries = new Map<string, string>();
+
+  return {
+    async read(key) {
+      return entries.get(key) ?? null;
+    },
+    async write(key, value) {
+      entries.set(key, value);
+    },
+  };
+}
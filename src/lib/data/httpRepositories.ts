@@ -0,0 +1,179 @@
+import {
+  AbuseReport,
+  AuditEvent,
+  BlocklistEntry,
+  ModerationAction,
+  NodeOperator,
+  NodeOperatorInput,
+  RequestMessage,
+  TeamMember,
+  UserNotification,
+  Webhook,
+  WebhookDelivery,
+  WhitelistRequest,
+  WhitelistRequestInput,
+} from '../../types';
+import { ApiError, ApiRequest, ApiRequestOptions, createApiRequest } from './apiRequest';
+import {
+  AuditLogReader,
+  BlocklistRepository,
+  DataStore,
+  MessageRepository,
+  ModerationRepository,
+  NotificationFeed,
+  Repository,
+  TeamRepository,
+  WebhookRepository,
+  WhitelistRequestRepository,
+} from './types';
+
+function createHttpRepository<T, TInput>(
+  request: ApiRequest,
+  resource: string
+): Repository<T, TInput> {
+  return {
+    list: () => request<T[]>('GET', `/${resource}`),
+    async get(id) {
+      try {
+        return await request<T>('GET', `/${resource}/${encodeURIComponent(id)}`);
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 404) return null;
+        throw error;
+      }
+    },
+    create: (input) => request<T>('POST', `/${resource}`, input),
+    update: (id, changes) => request<T>('PATCH', `/${resource}/${encodeURIComponent(id)}`, changes),
+    remove: (id) => request<void>('DELETE', `/${resource}/${encodeURIComponent(id)}`),
+  };
+}
+
+export function createHttpDataStore(baseUrl: string, options?: ApiRequestOptions): DataStore {
+  const request = createApiRequest(baseUrl, options);
+
+  const whitelistRequests: WhitelistRequestRepository = {
+    ...createHttpRepository<WhitelistRequest, WhitelistRequestInput>(request, 'whitelist-requests'),
+    approve: (id) =>
+      request<WhitelistRequest>('POST', `/whitelist-requests/${encodeURIComponent(id)}/approve`),
+    reject: (id, rejection) =>
+      request<WhitelistRequest>(
+        'POST',
+        `/whitelist-requests/${encodeURIComponent(id)}/reject`,
+        rejection
+      ),
+    recordAction: (id, action) =>
+      request<WhitelistRequest>(
+        'POST',
+        `/whitelist-requests/${encodeURIComponent(id)}/actions`,
+        action
+      ),
+    cancel: (id) =>
+      request<WhitelistRequest>('POST', `/whitelist-requests/${encodeURIComponent(id)}/cancel`),
+    confirmWithdrawal: (id) =>
+      request<WhitelistRequest>('POST', `/whitelist-requests/${encodeURIComponent(id)}/withdrawal`),
+    expireStale: () => request<WhitelistRequest[]>('POST', '/whitelist-requests/expire'),
+    providerSlotsTaken: () => request<Record<string, number>>('GET', '/provider-slots'),
+  };
+
+  const blocklistPath = (nodeOperatorId: string) =>
+    `/node-operators/${encodeURIComponent(nodeOperatorId)}/blocklist`;
+
+  const blocklist: BlocklistRepository = {
+    list: (nodeOperatorId) => request<BlocklistEntry[]>('GET', blocklistPath(nodeOperatorId)),
+    add: (input) => request<BlocklistEntry>('POST', blocklistPath(input.nodeOperatorId), input),
+    remove: (nodeOperatorId, id) =>
+      request<void>('DELETE', `${blocklistPath(nodeOperatorId)}/${encodeURIComponent(id)}`),
+  };
+
+  const webhooksPath = (nodeOperatorId: string) =>
+    `/node-operators/${encodeURIComponent(nodeOperatorId)}/webhooks`;
+
+  const webhooks: WebhookRepository = {
+    list: (nodeOperatorId) => request<Webhook[]>('GET', webhooksPath(nodeOperatorId)),
+    create: (input) => request<Webhook>('POST', webhooksPath(input.nodeOperatorId), input),
+    update: (nodeOperatorId, id, changes) =>
+      request<Webhook>('PATCH', `${webhooksPath(nodeOperatorId)}/${encodeURIComponent(id)}`, changes),
+    remove: (nodeOperatorId, id) =>
+      request<void>('DELETE', `${webhooksPath(nodeOperatorId)}/${encodeURIComponent(id)}`),
+    deliveries: (nodeOperatorId) =>
+      request<WebhookDelivery[]>('GET', `${webhooksPath(nodeOperatorId)}/deliveries`),
+  };
+
+  const teamPath = (nodeOperatorId: string) =>
+    `/node-operators/${encodeURIComponent(nodeOperatorId)}/team`;
+
+  // The server records the signed-in wallet as the inviter, and lists its own memberships.
+  const team: TeamRepository = {
+    list: (nodeOperatorId) => request<TeamMember[]>('GET', teamPath(nodeOperatorId)),
+    memberships: () => request<TeamMember[]>('GET', '/team/memberships'),
+    invite: ({ nodeOperatorId, memberAddress, role }) =>
+      request<TeamMember>('POST', teamPath(nodeOperatorId), { memberAddress, role }),
+    accept: (nodeOperatorId, id) =>
+      request<TeamMember>('POST', `${teamPath(nodeOperatorId)}/${encodeURIComponent(id)}/accept`),
+    setRole: (nodeOperatorId, id, role) =>
+      request<TeamMember>('PATCH', `${teamPath(nodeOperatorId)}/${encodeURIComponent(id)}`, { role }),
+    remove: (nodeOperatorId, id) =>
+      request<void>('DELETE', `${teamPath(nodeOperatorId)}/${encodeURIComponent(id)}`),
+  };
+
+  // Reporters and moderators are taken from the session too.
+  const moderation: ModerationRepository = {
+    reports: () => request<AbuseReport[]>('GET', '/moderation/reports'),
+    report: ({ nodeOperatorId, category, details }) =>
+      request<AbuseReport>(
+        'POST',
+        `/node-operators/${encodeURIComponent(nodeOperatorId)}/reports`,
+        { category, details }
+      ),
+    act: ({ kind, nodeOperatorId, reportId, reason }) =>
+      request<ModerationAction>('POST', '/moderation/actions', {
+        kind,
+        nodeOperatorId,
+        reportId,
+        reason,
+      }),
+    log: () => request<ModerationAction[]>('GET', '/moderation/actions'),
+  };
+
+  const messagesPath = (requestId: string) =>
+    `/whitelist-requests/${encodeURIComponent(requestId)}/messages`;
+
+  // The server takes the sender and reader from the session.
+  const messages: MessageRepository = {
+    list: (requestId) => request<RequestMessage[]>('GET', messagesPath(requestId)),
+    send: ({ requestId, body }) =>
+      request<RequestMessage>('POST', messagesPath(requestId), { body }),
+    markRead: (requestId) => request<void>('POST', `${messagesPath(requestId)}/read`),
+    unreadCounts: () => request<Record<string, number>>('GET', '/messages/unread'),
+  };
+
+  // As with messages, the recipient is the signed-in wallet.
+  const notifications: NotificationFeed = {
+    list: () => request<UserNotification[]>('GET', '/notifications'),
+    markRead: (_recipientAddress, ids) => request<void>('POST', '/notifications/read', { ids }),
+  };
+
+  const auditPaths = {
+    'node-operator': 'node-operators',
+    'whitelist-request': 'whitelist-requests',
+  } as const;
+
+  const auditLog: AuditLogReader = {
+    list: (subjectType, subjectId) =>
+      request<AuditEvent[]>(
+        'GET',
+        `/${auditPaths[subjectType]}/${encodeURIComponent(subjectId)}/audit`
+      ),
+  };
+
+  return {
+    nodeOperators: createHttpRepository<NodeOperator, NodeOperatorInput>(request, 'node-operators'),
+    whitelistRequests,
+    blocklist,
+    webhooks,
+    team,
+    moderation,
+    messages,
+    notifications,
+    auditLog,
+  };
+}
@@ -0,0 +1,56 @@
+import { mockNodeOperators, mockWhitelistRequests } from '../mockData';
+import { NetworkConfig } from '../networks';
+import { ApiRequestOptions } from './apiRequest';
+import { ActorLookup, withAuditTrail } from './auditTrail';
+import { createMemoryBackend } from './backends';
+import { createHttpDataStore } from './httpRepositories';
+import { createLocalStorageBackend, migrateLegacyStorage } from './localStorageBackend';
+import { createStoreDataStore, SeedData, StoreOptions } from './storeRepositories';
+import { DataStore } from './types';
+
+export * from './types';
+export { ApiError } from './apiRequest';
+
+const mockSeed: SeedData = {
+  nodeOperators: mockNodeOperators,
+  whitelistRequests: mockWhitelistRequests,
+};
+
+export interface LocalStoreOptions extends StoreOptions {
+  /** Who audit events are attributed to; the HTTP store gets this from the session. */
+  getActor?: ActorLookup;
+}
+
+export type DataStoreOptions = ApiRequestOptions & LocalStoreOptions;
+
+const seedFor = (network: NetworkConfig) => (network.seedWithMockData ? mockSeed : undefined);
+
+// In-memory store; nothing survives a reload.
+export function createMockDataStore(network: NetworkConfig, options?: LocalStoreOptions): DataStore {
+  return withAuditTrail(
+    createStoreDataStore(createMemoryBackend(), seedFor(network), options),
+    options?.getActor ?? (() => null)
+  );
+}
+
+// Browser-persisted store, namespaced per network. Seeded networks only use the
+// mock fixtures until the first write.
+export function createLocalDataStore(network: NetworkConfig, options?: LocalStoreOptions): DataStore {
+  migrateLegacyStorage();
+  return withAuditTrail(
+    createStoreDataStore(createLocalStorageBackend(`runebond:${network.id}`), seedFor(network), options),
+    options?.getActor ?? (() => null)
+  );
+}
+
+// The HTTP store leaves limits to the server; local stores enforce them in the browser.
+export function createDataStore(network: NetworkConfig, options?: DataStoreOptions): DataStore {
+  switch (import.meta.env.VITE_DATA_BACKEND) {
+    case 'http':
+      return createHttpDataStore(`${import.meta.env.VITE_API_URL ?? '/api'}/${network.id}`, options);
+    case 'memory':
+      return createMockDataStore(network, options);
+    default:
+      return createLocalDataStore(network, options);
+  }
+}
@@ -0,0 +1,31 @@
+import { StorageBackend } from './backends';
+
+export function createLocalStorageBackend(prefix = 'runebond'): StorageBackend {
+  return {
+    async read(key) {
+      return window.localStorage.getItem(`${prefix}:${key}`);
+    },
+    async write(key, value) {
+      window.localStorage.setItem(`${prefix}:${key}`, value);
+    },
+  };
+}
+
+// Before networks were selectable, collections were stored as `runebond:<key>`
+// and started out as the mock fixtures, so they belong to the Local Mock network
+// rather than Mainnet. Sessions are not carried over; they are signed again.
+const LEGACY_KEYS = ['nodeOperators', 'whitelistRequests'];
+
+/** Moves collections saved before per-network prefixes under the mock network's, unless it already has them. */
+export function migrateLegacyStorage(): void {
+  for (const key of LEGACY_KEYS) {
+    const legacyKey = `runebond:${key}`;
+    const value = window.localStorage.getItem(legacyKey);
+    if (value === null) continue;
+    const mockKey = `runebond:mock:${key}`;
+    if (window.localStorage.getItem(mockKey) === null) {
+      window.localStorage.setItem(mockKey, value);
+    }
+    window.localStorage.removeItem(legacyKey);
+  }
+}
@@ -0,0 +1,52 @@
+// JSON does not round-trip Dates or bigints (RUNE amounts), so they are written
+// as tagged objects and revived on the way back in. The same encoding is used for
+// storage and the wire.
+
+interface TaggedDate {
+  $date: string;
+}
+
+interface TaggedBigInt {
+  $bigint: string;
+}
+
+function isTaggedDate(value: unknown): value is TaggedDate {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as TaggedDate).$date === 'string'
+  );
+}
+
+function isTaggedBigInt(value: unknown): value is TaggedBigInt {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as TaggedBigInt).$bigint === 'string'
+  );
+}
+
+export function stringify(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, encoded) {
+    const raw = this[key];
+    if (raw instanceof Date) {
+      return { $date: raw.toISOString() } satisfies TaggedDate;
+    }
+    if (typeof raw === 'bigint') {
+      return { $bigint: raw.toString() } satisfies TaggedBigInt;
+    }
+    return encoded;
+  });
+}
+
+export function parse<T>(text: string): T {
+  return JSON.parse(text, (_key, value) => {
+    if (isTaggedDate(value)) {
+      return new Date(value.$date);
+    }
+    if (isTaggedBigInt(value)) {
+      return BigInt(value.$bigint);
+    }
+    return value;
+  }) as T;
+}
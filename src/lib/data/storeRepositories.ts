@@ -0,0 +1,684 @@
+import {
+  AbuseReport,
+  AuditEvent,
+  BlocklistEntry,
+  BlocklistEntryInput,
+  ModerationAction,
+  NodeOperator,
+  NodeOperatorInput,
+  RequestActionInput,
+  RequestMessage,
+  TeamMember,
+  UserNotification,
+  Webhook,
+  WebhookDelivery,
+  WhitelistRequest,
+  WhitelistRequestInput,
+} from '../../types';
+import {
+  canAdmit,
+  DEFAULT_MAX_BOND_PROVIDERS,
+  MaxBondProvidersLookup,
+  promoteWaitlisted,
+  providerSlotsTaken,
+} from '../capacity';
+import { countUnread, isUnreadBy } from '../messages';
+import { generateWebhookSecret } from '../webhooks';
+import { assertInviteAllowed } from '../team';
+import { applyModerationAction, assertActionAllowed, isHidden } from '../moderation';
+import {
+  actionEvent,
+  applyEdit,
+  applyTransition,
+  canRemove,
+  isStale,
+  RequestNotRemovableError,
+} from '../requestLifecycle';
+import {
+  assertRequestAllowed,
+  DEFAULT_REJECTION_COOLDOWN_MS,
+  matchBlocklist,
+  RequestRuleError,
+} from '../requestRules';
+import { StorageBackend } from './backends';
+import { readCollection, writeCollection } from './upgrades';
+import {
+  AuditLogRepository,
+  BlocklistRepository,
+  DataStore,
+  MessageRepository,
+  ModerationRepository,
+  NotificationRepository,
+  RecordNotFoundError,
+  Repository,
+  TeamRepository,
+  WebhookStoreRepository,
+  WhitelistRequestRepository,
+} from './types';
+
+export interface SeedData {
+  nodeOperators: NodeOperator[];
+  whitelistRequests: WhitelistRequest[];
+}
+
+export interface StoreOptions {
+  /** The network's bond provider limit; defaults to THORChain's built-in value. */
+  maxBondProviders?: MaxBondProvidersLookup;
+  /** Defaults to `DEFAULT_REJECTION_COOLDOWN_MS`. */
+  rejectionCooldownMs?: number;
+}
+
+interface Collection<T> {
+  readAll(): Promise<T[]>;
+  mutate<R>(fn: (items: T[]) => { items: T[]; result: R }): Promise<R>;
+}
+
+function createCollection<T>(
+  backend: StorageBackend,
+  key: string,
+  seed: T[] = []
+): Collection<T> {
+  // Writes are chained so concurrent mutations never read a stale snapshot.
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const readAll = async (): Promise<T[]> => {
+    const raw = await backend.read(key);
+    return raw === null ? [...seed] : readCollection<T>(key, raw);
+  };
+
+  const mutate = <R>(fn: (items: T[]) => { items: T[]; result: R }): Promise<R> => {
+    const next = pending.then(async () => {
+      const { items, result } = fn(await readAll());
+      await backend.write(key, writeCollection(items));
+      return result;
+    });
+    pending = next.catch(() => undefined);
+    return next;
+  };
+
+  return { readAll, mutate };
+}
+
+function updateRecord<T extends { id: string }>(
+  collection: Collection<T>,
+  name: string,
+  id: string,
+  update: (existing: T) => T
+): Promise<T> {
+  return collection.mutate((items) => {
+    const existing = items.find((item) => item.id === id);
+    if (!existing) throw new RecordNotFoundError(name, id);
+    const updated = update(existing);
+    return {
+      items: items.map((item) => (item.id === id ? updated : item)),
+      result: updated,
+    };
+  });
+}
+
+function patchRecord<T extends { id: string }>(
+  collection: Collection<T>,
+  name: string,
+  id: string,
+  changes: Partial<T>
+): Promise<T> {
+  return updateRecord(collection, name, id, (existing) => ({ ...existing, ...changes }));
+}
+
+function createStoreRepository<T extends { id: string }, TInput>(
+  collection: Collection<T>,
+  name: string,
+  build: (input: TInput) => T
+): Repository<T, TInput> {
+  return {
+    list: () => collection.readAll(),
+
+    async get(id) {
+      const items = await collection.readAll();
+      return items.find((item) => item.id === id) ?? null;
+    },
+
+    create: (input) =>
+      collection.mutate((items) => {
+        const record = build(input);
+        return { items: [...items, record], result: record };
+      }),
+
+    update: (id, changes) => patchRecord(collection, name, id, changes as Partial<T>),
+
+    remove: (id) =>
+      collection.mutate((items) => {
+        if (!items.some((item) => item.id === id)) throw new RecordNotFoundError(name, id);
+        return { items: items.filter((item) => item.id !== id), result: undefined };
+      }),
+  };
+}
+
+// What request mutations need to know about the node operators they fill.
+interface ListingLimits {
+  nodeOperators: Collection<NodeOperator>;
+  maxBondProviders: MaxBondProvidersLookup;
+}
+
+// Every request mutation ends by promoting waitlisted requests that now fit, so
+// released capacity is offered in the same write that released it.
+async function mutateRequests<R>(
+  collection: Collection<WhitelistRequest>,
+  limits: ListingLimits,
+  fn: (
+    items: WhitelistRequest[],
+    operators: NodeOperator[],
+    networkLimit: number
+  ) => { items: WhitelistRequest[]; result: R }
+): Promise<R> {
+  const [operators, networkLimit] = await Promise.all([
+    limits.nodeOperators.readAll(),
+    limits.maxBondProviders(),
+  ]);
+  return collection.mutate((items) => {
+    const { items: next, result } = fn(items, operators, networkLimit);
+    return { items: promoteWaitlisted(next, operators, networkLimit), result };
+  });
+}
+
+interface RequestRules {
+  blocklist: Collection<BlocklistEntry>;
+  rejectionCooldownMs: number;
+}
+
+const buildRequest = (input: WhitelistRequestInput): WhitelistRequest => ({
+  ...input,
+  id: crypto.randomUUID(),
+  status: 'pending',
+  actions: [],
+  transitions: [],
+  edits: [],
+  createdAt: new Date(),
+});
+
+function createWhitelistRequestRepository(
+  collection: Collection<WhitelistRequest>,
+  limits: ListingLimits,
+  rules: RequestRules
+): WhitelistRequestRepository {
+  const base = createStoreRepository<WhitelistRequest, WhitelistRequestInput>(
+    collection,
+    'whitelist request',
+    buildRequest
+  );
+
+  const transition = (
+    id: string,
+    update: (
+      existing: WhitelistRequest,
+      items: WhitelistRequest[],
+      operators: NodeOperator[],
+      networkLimit: number
+    ) => WhitelistRequest
+  ) =>
+    mutateRequests(collection, limits, (items, operators, networkLimit) => {
+      const existing = items.find((item) => item.id === id);
+      if (!existing) throw new RecordNotFoundError('whitelist request', id);
+      const updated = update(existing, items, operators, networkLimit);
+      return {
+        items: items.map((item) => (item.id === id ? updated : item)),
+        result: updated,
+      };
+    });
+
+  return {
+    ...base,
+    async create(input) {
+      const entries = await rules.blocklist.readAll();
+      return mutateRequests(collection, limits, (items, operators) => {
+        if (operators.some((op) => op.id === input.nodeOperatorId && isHidden(op))) {
+          throw new RequestRuleError('listing-hidden', 'This listing is not taking requests');
+        }
+        assertRequestAllowed(input, items, rules.rejectionCooldownMs);
+        const request = buildRequest(input);
+        const blocked = matchBlocklist(input, entries);
+        const created = blocked
+          ? { ...applyTransition(request, 'reject'), rejectionReason: blocked.reason }
+          : request;
+        return { items: [...items, created], result: created };
+      });
+    },
+    update: (id, changes) => transition(id, (existing) => applyEdit(existing, changes)),
+    approve: (id) =>
+      transition(id, (existing, items, operators, networkLimit) => {
+        const operator = operators.find((op) => op.id === existing.nodeOperatorId);
+        const fits = !operator || canAdmit(operator, items, existing, networkLimit);
+        return applyTransition(existing, fits ? 'approve' : 'waitlist');
+      }),
+    reject: (id, { reason, shareWithBonder }) =>
+      transition(id, (existing) => ({
+        ...applyTransition(existing, 'reject'),
+        rejectionReason: reason,
+        rejectionReasonPrivate: !shareWithBonder,
+      })),
+    recordAction: (id, action: RequestActionInput) =>
+      transition(id, (existing) => {
+        const event = actionEvent(existing, action);
+        const moved = event ? applyTransition(existing, event) : existing;
+        return {
+          ...moved,
+          actions: [
+            ...existing.actions,
+            { ...action, id: crypto.randomUUID(), createdAt: new Date() },
+          ],
+        };
+      }),
+    cancel: (id) => transition(id, (existing) => applyTransition(existing, 'cancel')),
+    confirmWithdrawal: (id) => transition(id, (existing) => applyTransition(existing, 'withdraw')),
+    remove: (id) =>
+      mutateRequests(collection, limits, (items) => {
+        const existing = items.find((item) => item.id === id);
+        if (!existing) throw new RecordNotFoundError('whitelist request', id);
+        if (!canRemove(existing.status)) throw new RequestNotRemovableError(existing.status);
+        return { items: items.filter((item) => item.id !== id), result: undefined };
+      }),
+    expireStale: () =>
+      mutateRequests(collection, limits, (items) => {
+        const now = new Date();
+        const expired: WhitelistRequest[] = [];
+        const next = items.map((item) => {
+          if (!isStale(item, now)) return item;
+          const updated = applyTransition(item, 'expire', now);
+          expired.push(updated);
+          return updated;
+        });
+        return { items: next, result: expired };
+      }),
+    providerSlotsTaken: async () => providerSlotsTaken(await collection.readAll()),
+  };
+}
+
+function createBlocklistRepository(collection: Collection<BlocklistEntry>): BlocklistRepository {
+  return {
+    list: async (nodeOperatorId) =>
+      (await collection.readAll()).filter((entry) => entry.nodeOperatorId === nodeOperatorId),
+    add: (input: BlocklistEntryInput) =>
+      collection.mutate((items) => {
+        const entry: BlocklistEntry = {
+          ...input,
+          value: input.value.trim(),
+          id: crypto.randomUUID(),
+          createdAt: new Date(),
+        };
+        return { items: [...items, entry], result: entry };
+      }),
+    remove: (nodeOperatorId, id) =>
+      collection.mutate((items) => {
+        const owned = (entry: BlocklistEntry) =>
+          entry.id === id && entry.nodeOperatorId === nodeOperatorId;
+        if (!items.some(owned)) throw new RecordNotFoundError('blocklist entry', id);
+        return { items: items.filter((entry) => !owned(entry)), result: undefined };
+      }),
+  };
+}
+
+/** Deliveries kept per webhook; older ones are dropped as new ones are logged. */
+const DELIVERY_LOG_LIMIT = 50;
+
+function createWebhookRepository(
+  collection: Collection<Webhook>,
+  deliveryCollection: Collection<WebhookDelivery>
+): WebhookStoreRepository {
+  const owned = (nodeOperatorId: string, id: string) => (webhook: Webhook) =>
+    webhook.id === id && webhook.nodeOperatorId === nodeOperatorId;
+
+  return {
+    list: async (nodeOperatorId) =>
+      (await collection.readAll()).filter((webhook) => webhook.nodeOperatorId === nodeOperatorId),
+    create: (input) =>
+      collection.mutate((items) => {
+        const webhook: Webhook = {
+          ...input,
+          url: input.url.trim(),
+          id: crypto.randomUUID(),
+          secret: generateWebhookSecret(),
+          createdAt: new Date(),
+        };
+        return { items: [...items, webhook], result: webhook };
+      }),
+    update: (nodeOperatorId, id, changes) =>
+      collection.mutate((items) => {
+        const existing = items.find(owned(nodeOperatorId, id));
+        if (!existing) throw new RecordNotFoundError('webhook', id);
+        const updated: Webhook = { ...existing, ...changes };
+        return {
+          items: items.map((webhook) => (webhook.id === id ? updated : webhook)),
+          result: updated,
+        };
+      }),
+    async remove(nodeOperatorId, id) {
+      await collection.mutate((items) => {
+        if (!items.some(owned(nodeOperatorId, id))) throw new RecordNotFoundError('webhook', id);
+        return { items: items.filter((webhook) => webhook.id !== id), result: undefined };
+      });
+      await deliveryCollection.mutate((items) => ({
+        items: items.filter((delivery) => delivery.webhookId !== id),
+        result: undefined,
+      }));
+    },
+    deliveries: async (nodeOperatorId) =>
+      (await deliveryCollection.readAll())
+        .filter((delivery) => delivery.nodeOperatorId === nodeOperatorId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+    logDelivery: (input) =>
+      deliveryCollection.mutate((items) => {
+        const delivery: WebhookDelivery = { ...input, id: crypto.randomUUID() };
+        const kept = items
+          .filter((item) => item.webhookId === input.webhookId)
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+          .slice(0, DELIVERY_LOG_LIMIT - 1);
+        return {
+          items: [
+            ...items.filter((item) => item.webhookId !== input.webhookId),
+            ...kept,
+            delivery,
+          ],
+          result: delivery,
+        };
+      }),
+  };
+}
+
+function createTeamRepository(
+  collection: Collection<TeamMember>,
+  nodeOperators: Collection<NodeOperator>
+): TeamRepository {
+  const owned = (nodeOperatorId: string, id: string) => (member: TeamMember) =>
+    member.id === id && member.nodeOperatorId === nodeOperatorId;
+
+  const updateMember = (
+    nodeOperatorId: string,
+    id: string,
+    update: (existing: TeamMember) => TeamMember
+  ) =>
+    collection.mutate((items) => {
+      const existing = items.find(owned(nodeOperatorId, id));
+      if (!existing) throw new RecordNotFoundError('team member', id);
+      const updated = update(existing);
+      return {
+        items: items.map((member) => (member.id === id ? updated : member)),
+        result: updated,
+      };
+    });
+
+  return {
+    list: async (nodeOperatorId) =>
+      (await collection.readAll()).filter((member) => member.nodeOperatorId === nodeOperatorId),
+    memberships: async (memberAddress) =>
+      (await collection.readAll()).filter((member) => member.memberAddress === memberAddress),
+    async invite(input) {
+      const listing = (await nodeOperators.readAll()).find((op) => op.id === input.nodeOperatorId);
+      if (!listing) throw new RecordNotFoundError('node operator', input.nodeOperatorId);
+      return collection.mutate((items) => {
+        assertInviteAllowed(input, listing, items);
+        const member: TeamMember = {
+          ...input,
+          memberAddress: input.memberAddress.trim(),
+          id: crypto.randomUUID(),
+          joinedAt: null,
+          createdAt: new Date(),
+        };
+        return { items: [...items, member], result: member };
+      });
+    },
+    accept: (nodeOperatorId, id) =>
+      updateMember(nodeOperatorId, id, (existing) =>
+        existing.joinedAt ? existing : { ...existing, joinedAt: new Date() }
+      ),
+    setRole: (nodeOperatorId, id, role) =>
+      updateMember(nodeOperatorId, id, (existing) => ({ ...existing, role })),
+    remove: (nodeOperatorId, id) =>
+      collection.mutate((items) => {
+        if (!items.some(owned(nodeOperatorId, id))) throw new RecordNotFoundError('team member', id);
+        return { items: items.filter((member) => member.id !== id), result: undefined };
+      }),
+  };
+}
+
+const newestFirst = <T>(items: T[], at: (item: T) => Date) =>
+  [...items].sort((a, b) => at(b).getTime() - at(a).getTime());
+
+function createModerationRepository(
+  reports: Collection<AbuseReport>,
+  actions: Collection<ModerationAction>,
+  nodeOperators: Collection<NodeOperator>
+): ModerationRepository {
+  const findListing = async (id: string) => {
+    const listing = (await nodeOperators.readAll()).find((op) => op.id === id);
+    if (!listing) throw new RecordNotFoundError('node operator', id);
+    return listing;
+  };
+
+  return {
+    reports: async () => newestFirst(await reports.readAll(), (report) => report.createdAt),
+    async report(input) {
+      await findListing(input.nodeOperatorId);
+      return reports.mutate((items) => {
+        const report: AbuseReport = {
+          ...input,
+          details: input.details.trim(),
+          id: crypto.randomUUID(),
+          status: 'open',
+          createdAt: new Date(),
+          resolvedAt: null,
+        };
+        return { items: [...items, report], result: report };
+      });
+    },
+    async act(input) {
+      // Reports outlive their listing, so they can still be dismissed once it is deleted.
+      if (input.kind !== 'dismiss-report') await findListing(input.nodeOperatorId);
+      const { reportId } = input;
+      if (reportId) {
+        await reports.mutate((items) => {
+          const report = items.find(
+            (item) => item.id === reportId && item.nodeOperatorId === input.nodeOperatorId
+          );
+          if (!report) throw new RecordNotFoundError('abuse report', reportId);
+          assertActionAllowed(input, report);
+          const settled: AbuseReport = {
+            ...report,
+            status: input.kind === 'dismiss-report' ? 'dismissed' : 'actioned',
+            resolvedAt: new Date(),
+          };
+          return {
+            items: items.map((item) => (item.id === reportId ? settled : item)),
+            result: undefined,
+          };
+        });
+      } else {
+        assertActionAllowed(input, null);
+      }
+      if (input.kind !== 'dismiss-report') {
+        await updateRecord(nodeOperators, 'node operator', input.nodeOperatorId, (existing) =>
+          applyModerationAction(existing, input.kind)
+        );
+      }
+      return actions.mutate((items) => {
+        const action: ModerationAction = {
+          ...input,
+          reason: input.reason.trim(),
+          id: crypto.randomUUID(),
+          at: new Date(),
+        };
+        return { items: [...items, action], result: action };
+      });
+    },
+    log: async () => newestFirst(await actions.readAll(), (action) => action.at),
+  };
+}
+
+function createMessageRepository(
+  collection: Collection<RequestMessage>,
+  requests: Collection<WhitelistRequest>,
+  nodeOperators: Collection<NodeOperator>,
+  teamMembers: Collection<TeamMember>
+): MessageRepository {
+  return {
+    list: async (requestId) =>
+      (await collection.readAll())
+        .filter((message) => message.requestId === requestId)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+    async send(input) {
+      const request = (await requests.readAll()).find((item) => item.id === input.requestId);
+      if (!request) throw new RecordNotFoundError('whitelist request', input.requestId);
+      return collection.mutate((items) => {
+        const message: RequestMessage = {
+          ...input,
+          body: input.body.trim(),
+          id: crypto.randomUUID(),
+          createdAt: new Date(),
+          readAt: null,
+        };
+        return { items: [...items, message], result: message };
+      });
+    },
+    async markRead(requestId, readerAddress) {
+      const request = (await requests.readAll()).find((item) => item.id === requestId);
+      if (!request) throw new RecordNotFoundError('whitelist request', requestId);
+      return collection.mutate((items) => {
+        const now = new Date();
+        return {
+          items: items.map((message) =>
+            message.requestId === requestId && isUnreadBy(message, request.walletAddress, readerAddress)
+              ? { ...message, readAt: now }
+              : message
+          ),
+          result: undefined,
+        };
+      });
+    },
+    async unreadCounts(readerAddress) {
+      const [messages, requestItems, operators, members] = await Promise.all([
+        collection.readAll(),
+        requests.readAll(),
+        nodeOperators.readAll(),
+        teamMembers.readAll(),
+      ]);
+      return countUnread(messages, requestItems, operators, members, readerAddress);
+    },
+  };
+}
+
+function createNotificationRepository(
+  collection: Collection<UserNotification>
+): NotificationRepository {
+  return {
+    list: async (recipientAddress) =>
+      (await collection.readAll())
+        .filter((notification) => notification.recipientAddress === recipientAddress)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+    markRead: (recipientAddress, ids) =>
+      collection.mutate((items) => {
+        const now = new Date();
+        return {
+          items: items.map((notification) =>
+            notification.recipientAddress === recipientAddress &&
+            notification.readAt === null &&
+            (!ids || ids.includes(notification.id))
+              ? { ...notification, readAt: now }
+              : notification
+          ),
+          result: undefined,
+        };
+      }),
+    add: (inputs) =>
+      collection.mutate((items) => {
+        const added = inputs.map((input) => ({
+          ...input,
+          id: crypto.randomUUID(),
+          readAt: null,
+        }));
+        return { items: [...items, ...added], result: added };
+      }),
+  };
+}
+
+function createAuditLogRepository(collection: Collection<AuditEvent>): AuditLogRepository {
+  return {
+    list: async (subjectType, subjectId) =>
+      (await collection.readAll())
+        .filter((event) => event.subjectType === subjectType && event.subjectId === subjectId)
+        .sort((a, b) => a.at.getTime() - b.at.getTime()),
+    append: (inputs) =>
+      collection.mutate((items) => {
+        const events = inputs.map((input) => ({ ...input, id: crypto.randomUUID() }));
+        return { items: [...items, ...events], result: events };
+      }),
+  };
+}
+
+/**
+ * A store that can also append to its audit log, raise notifications and log
+ * webhook deliveries; see `withAuditTrail`.
+ */
+export interface StoreDataStore extends DataStore {
+  webhooks: WebhookStoreRepository;
+  notifications: NotificationRepository;
+  auditLog: AuditLogRepository;
+}
+
+export function createStoreDataStore(
+  backend: StorageBackend,
+  seed?: SeedData,
+  options: StoreOptions = {}
+): StoreDataStore {
+  const operatorCollection = createCollection(backend, 'nodeOperators', seed?.nodeOperators);
+  const requestCollection = createCollection(backend, 'whitelistRequests', seed?.whitelistRequests);
+  const blocklistCollection = createCollection<BlocklistEntry>(backend, 'blocklist');
+  const teamCollection = createCollection<TeamMember>(backend, 'teamMembers');
+  const limits: ListingLimits = {
+    nodeOperators: operatorCollection,
+    maxBondProviders:
+      options.maxBondProviders ?? (() => Promise.resolve(DEFAULT_MAX_BOND_PROVIDERS)),
+  };
+
+  const nodeOperators = createStoreRepository<NodeOperator, NodeOperatorInput>(
+    operatorCollection,
+    'node operator',
+    (input) => ({ ...input, id: crypto.randomUUID(), createdAt: new Date() })
+  );
+
+  return {
+    nodeOperators: {
+      ...nodeOperators,
+      // Raising capacity or slots offers them to the waitlist straight away.
+      async update(id, changes) {
+        const updated = await nodeOperators.update(id, changes);
+        await mutateRequests(requestCollection, limits, (items) => ({
+          items,
+          result: undefined,
+        }));
+        return updated;
+      },
+    },
+    whitelistRequests: createWhitelistRequestRepository(requestCollection, limits, {
+      blocklist: blocklistCollection,
+      rejectionCooldownMs: options.rejectionCooldownMs ?? DEFAULT_REJECTION_COOLDOWN_MS,
+    }),
+    blocklist: createBlocklistRepository(blocklistCollection),
+    webhooks: createWebhookRepository(
+      createCollection(backend, 'webhooks'),
+      createCollection(backend, 'webhookDeliveries')
+    ),
+    team: createTeamRepository(teamCollection, operatorCollection),
+    moderation: createModerationRepository(
+      createCollection(backend, 'abuseReports'),
+      createCollection(backend, 'moderationActions'),
+      operatorCollection
+    ),
+    messages: createMessageRepository(
+      createCollection(backend, 'messages'),
+      requestCollection,
+      operatorCollection,
+      teamCollection
+    ),
+    notifications: createNotificationRepository(createCollection(backend, 'notifications')),
+    auditLog: createAuditLogRepository(createCollection(backend, 'auditLog')),
+  };
+}
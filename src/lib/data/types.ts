@@ -0,0 +1,177 @@
+import {
+  AbuseReport,
+  AbuseReportInput,
+  AuditEvent,
+  AuditEventInput,
+  AuditSubjectType,
+  BlocklistEntry,
+  BlocklistEntryInput,
+  ModerationAction,
+  ModerationActionInput,
+  NodeOperator,
+  NodeOperatorInput,
+  RequestActionInput,
+  RequestMessage,
+  RequestMessageInput,
+  RequestRejection,
+  TeamMember,
+  TeamMemberInput,
+  TeamRole,
+  UserNotification,
+  UserNotificationInput,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryInput,
+  WebhookInput,
+  WhitelistRequest,
+  WhitelistRequestInput,
+} from '../../types';
+
+export interface Repository<T, TInput> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  create(input: TInput): Promise<T>;
+  update(id: string, changes: Partial<TInput>): Promise<T>;
+  remove(id: string): Promise<void>;
+}
+
+export type NodeOperatorRepository = Repository<NodeOperator, NodeOperatorInput>;
+
+export interface WhitelistRequestRepository
+  extends Repository<WhitelistRequest, WhitelistRequestInput> {
+  // Status changes go through `lib/requestLifecycle` and fail with
+  // `InvalidTransitionError` when the request is in the wrong status. `update`
+  // only accepts edits to pending requests and records the previous values, and
+  // `remove` only deletes closed ones, failing with `RequestNotRemovableError`.
+  // Each change also promotes waitlisted requests that now fit; see `lib/capacity`.
+  // `create` enforces `lib/requestRules`: duplicates, requests within the
+  // rejection cooldown and requests to hidden listings fail with
+  // `RequestRuleError`, and blocklisted ones are stored already rejected.
+  /** Approves the request, or waitlists it when it exceeds the node's remaining capacity. */
+  approve(id: string): Promise<WhitelistRequest>;
+  reject(id: string, rejection: RequestRejection): Promise<WhitelistRequest>;
+  /** Appends to the request's action history and applies the event it implies. */
+  recordAction(id: string, action: RequestActionInput): Promise<WhitelistRequest>;
+  /** The bonder withdraws the request; see `lib/requestLifecycle` for when that is allowed. */
+  cancel(id: string): Promise<WhitelistRequest>;
+  /** The bonder confirms the unbonded RUNE has arrived. */
+  confirmWithdrawal(id: string): Promise<WhitelistRequest>;
+  /** Expires stale pending and approved requests, returning the ones it changed. */
+  expireStale(): Promise<WhitelistRequest[]>;
+  /** Provider slots taken per listing id; public, unlike the requests behind them. */
+  providerSlotsTaken(): Promise<Record<string, number>>;
+}
+
+/** Each listing's blocklist; only its operator reads or changes it. */
+export interface BlocklistRepository {
+  list(nodeOperatorId: string): Promise<BlocklistEntry[]>;
+  add(input: BlocklistEntryInput): Promise<BlocklistEntry>;
+  remove(nodeOperatorId: string, id: string): Promise<void>;
+}
+
+export type WebhookChanges = Partial<Omit<WebhookInput, 'nodeOperatorId'>>;
+
+/** Each listing's outbound webhooks; only its operator reads or changes them. */
+export interface WebhookRepository {
+  list(nodeOperatorId: string): Promise<Webhook[]>;
+  /** Creates the webhook with a new signing secret. */
+  create(input: WebhookInput): Promise<Webhook>;
+  update(nodeOperatorId: string, id: string, changes: WebhookChanges): Promise<Webhook>;
+  /** Removes the webhook and its delivery log. */
+  remove(nodeOperatorId: string, id: string): Promise<void>;
+  /** The listing's most recent deliveries, newest first. */
+  deliveries(nodeOperatorId: string): Promise<WebhookDelivery[]>;
+}
+
+// Deliveries are made and logged by `withAuditTrail`, so the HTTP store can only read the log.
+export interface WebhookStoreRepository extends WebhookRepository {
+  logDelivery(input: WebhookDeliveryInput): Promise<WebhookDelivery>;
+}
+
+/**
+ * Each listing's team, beyond its operator wallet, which always owns it.
+ * Callers check roles; see `lib/team`. `invite` enforces `assertInviteAllowed`.
+ */
+export interface TeamRepository {
+  /** The listing's members and pending invitations. */
+  list(nodeOperatorId: string): Promise<TeamMember[]>;
+  /** `memberAddress`'s memberships and pending invitations, across listings. */
+  memberships(memberAddress: string): Promise<TeamMember[]>;
+  invite(input: TeamMemberInput): Promise<TeamMember>;
+  accept(nodeOperatorId: string, id: string): Promise<TeamMember>;
+  setRole(nodeOperatorId: string, id: string, role: TeamRole): Promise<TeamMember>;
+  /** Revokes or declines an invitation, or removes a member. */
+  remove(nodeOperatorId: string, id: string): Promise<void>;
+}
+
+/**
+ * Abuse reports and the moderators' action log. Callers check that only
+ * moderators read them or act; see `lib/moderation`. `act` enforces
+ * `assertActionAllowed`.
+ */
+export interface ModerationRepository {
+  /** Every report, newest first. */
+  reports(): Promise<AbuseReport[]>;
+  report(input: AbuseReportInput): Promise<AbuseReport>;
+  /** Applies the action to its listing, settles its report, if any, and logs it. */
+  act(input: ModerationActionInput): Promise<ModerationAction>;
+  /** Every action taken, newest first. */
+  log(): Promise<ModerationAction[]>;
+}
+
+/**
+ * Threads between a request's bonder and its listing's operator. Callers check
+ * that the sender or reader takes part in the thread; see `lib/messages`.
+ */
+export interface MessageRepository {
+  /** The request's messages, oldest first. */
+  list(requestId: string): Promise<RequestMessage[]>;
+  send(input: RequestMessageInput): Promise<RequestMessage>;
+  /** Marks the messages `readerAddress` received in the thread as read. */
+  markRead(requestId: string, readerAddress: string): Promise<void>;
+  /** Unread messages addressed to `readerAddress`, counted per request id. */
+  unreadCounts(readerAddress: string): Promise<Record<string, number>>;
+}
+
+/** Each wallet's notifications; callers check the recipient is the signed-in wallet. */
+export interface NotificationFeed {
+  /** `recipientAddress`'s notifications, newest first. */
+  list(recipientAddress: string): Promise<UserNotification[]>;
+  /** Marks `ids`, or all of the recipient's notifications when omitted, as read. */
+  markRead(recipientAddress: string, ids?: string[]): Promise<void>;
+}
+
+// Notifications are raised by `withAuditTrail` from the events it records.
+export interface NotificationRepository extends NotificationFeed {
+  add(inputs: UserNotificationInput[]): Promise<UserNotification[]>;
+}
+
+/** Audit events for one listing or request, oldest first. */
+export interface AuditLogReader {
+  list(subjectType: AuditSubjectType, subjectId: string): Promise<AuditEvent[]>;
+}
+
+// Appending is left to `withAuditTrail`, which wraps a store's repositories, so
+// the HTTP store can only read.
+export interface AuditLogRepository extends AuditLogReader {
+  append(events: AuditEventInput[]): Promise<AuditEvent[]>;
+}
+
+export interface DataStore {
+  nodeOperators: NodeOperatorRepository;
+  whitelistRequests: WhitelistRequestRepository;
+  blocklist: BlocklistRepository;
+  webhooks: WebhookRepository;
+  team: TeamRepository;
+  moderation: ModerationRepository;
+  messages: MessageRepository;
+  notifications: NotificationFeed;
+  auditLog: AuditLogReader;
+}
+
+export class RecordNotFoundError extends Error {
+  constructor(collection: string, id: string) {
+    super(`No ${collection} record with id "${id}"`);
+    this.name = 'RecordNotFoundError';
+  }
+}
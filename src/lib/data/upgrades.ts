@@ -0,0 +1,62 @@
+import { parseRune, RUNE_DECIMALS } from '../rune';
+import { parse, stringify } from './serialization';
+
+// Collections are stored as `{ version, items }`. Whenever stored records change
+// shape, bump the version and add a step that upgrades records from the one
+// before; reads run every step the stored version has not had yet.
+
+/** The version collections are written at. */
+export const STORAGE_VERSION = 2;
+
+type StoredRecord = Record<string, unknown>;
+type Upgrade = (record: StoredRecord) => StoredRecord;
+
+interface StoredCollection {
+  version: number;
+  items: StoredRecord[];
+}
+
+// Amounts used to be whole RUNE as plain numbers.
+const toBaseUnits = (value: unknown) =>
+  typeof value === 'number' ? parseRune(value.toFixed(RUNE_DECIMALS)) : value;
+
+const withDefault = <T>(value: unknown, fallback: T) => (value === undefined ? fallback : value);
+
+// Steps by the version they upgrade to, then by collection key. Each step must
+// also accept records already in the new shape: unversioned collections were
+// written by every release before versions were added.
+const UPGRADES: Record<number, Record<string, Upgrade>> = {
+  2: {
+    nodeOperators: (record) => ({
+      ...record,
+      bondingCapacity: toBaseUnits(record.bondingCapacity),
+      minimumBond: toBaseUnits(record.minimumBond),
+      instantChurnAmount: toBaseUnits(record.instantChurnAmount),
+      rejectionTemplates: withDefault(record.rejectionTemplates, []),
+    }),
+    whitelistRequests: (record) => ({
+      ...record,
+      intendedBondAmount: toBaseUnits(record.intendedBondAmount),
+      actions: withDefault(record.actions, []),
+      transitions: withDefault(record.transitions, []),
+      edits: withDefault(record.edits, []),
+    }),
+  },
+};
+
+/** Parses a stored collection, upgrading its records to the current shape. */
+export function readCollection<T>(key: string, raw: string): T[] {
+  const stored = parse<StoredRecord[] | StoredCollection>(raw);
+  // Collections written before versions were added are bare arrays.
+  let { version, items } = Array.isArray(stored) ? { version: 1, items: stored } : stored;
+  while (version < STORAGE_VERSION) {
+    version += 1;
+    const upgrade = UPGRADES[version]?.[key];
+    if (upgrade) items = items.map(upgrade);
+  }
+  return items as T[];
+}
+
+export function writeCollection<T>(items: T[]): string {
+  return stringify({ version: STORAGE_VERSION, items });
+}
@@ -0,0 +1,53 @@
+import { AuditEvent, NodeOperator, WhitelistRequest } from '../../types';
+import {
+  buildWebhookPayload,
+  deliverWebhook,
+  WebhookDeliveryOptions,
+  webhookEventFor,
+} from '../webhooks';
+import { WebhookStoreRepository } from './types';
+
+/**
+ * Delivers the request events among `events` to the enabled webhooks of their
+ * listings that subscribe to them, and logs each outcome. Resolves once every
+ * delivery, including retries, has finished; failures are logged, not thrown.
+ */
+export async function dispatchWebhooks(
+  webhooks: WebhookStoreRepository,
+  events: AuditEvent[],
+  requests: WhitelistRequest[],
+  nodeOperators: NodeOperator[],
+  options?: WebhookDeliveryOptions
+): Promise<void> {
+  const deliveries = events.map(async (event) => {
+    if (event.subjectType !== 'whitelist-request') return;
+    const request = requests.find((item) => item.id === event.subjectId);
+    const listing = request && nodeOperators.find((op) => op.id === request.nodeOperatorId);
+    const webhookEvent = request && webhookEventFor(event, request);
+    if (!request || !listing || !webhookEvent) return;
+
+    const payload = buildWebhookPayload(webhookEvent, request, listing, event.at);
+    const targets = (await webhooks.list(listing.id)).filter(
+      (webhook) => webhook.enabled && webhook.events.includes(webhookEvent)
+    );
+    await Promise.all(
+      targets.map(async (webhook) => {
+        const createdAt = new Date();
+        const result = await deliverWebhook(webhook, payload, options);
+        await webhooks.logDelivery({
+          ...result,
+          webhookId: webhook.id,
+          nodeOperatorId: listing.id,
+          event: webhookEvent,
+          requestId: request.id,
+          createdAt,
+        });
+      })
+    );
+  });
+
+  const results = await Promise.allSettled(deliveries);
+  for (const result of results) {
+    if (result.status === 'rejected') console.warn('Webhook dispatch failed', result.reason);
+  }
+}
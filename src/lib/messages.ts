@@ -0,0 +1,66 @@
+import { NodeOperator, RequestMessage, TeamMember, WhitelistRequest } from '../types';
+import { hasRole, roleOn } from './team';
+
+export const MESSAGE_MAX_LENGTH = 2000;
+
+/**
+ * A request's thread is shared by the bonder who filed it and its listing's
+ * team from managers up; viewers only read the dashboard. `members` may span listings.
+ */
+export function isThreadParticipant(
+  address: string,
+  request: WhitelistRequest,
+  nodeOperator: NodeOperator | undefined,
+  members: TeamMember[]
+): boolean {
+  return (
+    address === request.walletAddress ||
+    (!!nodeOperator && hasRole(roleOn(address, nodeOperator, members), 'manager'))
+  );
+}
+
+/** A thread has two sides, the bonder and the listing's team; each reads what the other sent. */
+export function isUnreadBy(
+  message: RequestMessage,
+  bonderAddress: string,
+  readerAddress: string
+): boolean {
+  const fromBonder = message.senderAddress === bonderAddress;
+  return message.readAt === null && fromBonder !== (readerAddress === bonderAddress);
+}
+
+/** Unread messages addressed to `readerAddress`, counted per request id. */
+export function countUnread(
+  messages: RequestMessage[],
+  requests: WhitelistRequest[],
+  nodeOperators: NodeOperator[],
+  members: TeamMember[],
+  readerAddress: string
+): Record<string, number> {
+  const threads = new Map(
+    requests
+      .filter((request) =>
+        isThreadParticipant(
+          readerAddress,
+          request,
+          nodeOperators.find((op) => op.id === request.nodeOperatorId),
+          members
+        )
+      )
+      .map((request) => [request.id, request])
+  );
+
+  const counts: Record<string, number> = {};
+  for (const message of messages) {
+    const request = threads.get(message.requestId);
+    if (request && isUnreadBy(message, request.walletAddress, readerAddress)) {
+      counts[message.requestId] = (counts[message.requestId] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+export function totalUnread(counts: Record<string, number>, requestIds?: string[]): number {
+  const ids = requestIds ?? Object.keys(counts);
+  return ids.reduce((total, id) => total + (counts[id] ?? 0), 0);
+}
@@ -1,42 +1,56 @@
 import { NodeOperator, WhitelistRequest, User } from '../types';
+import { DEFAULT_REJECTION_TEMPLATES } from './requestRules';
+import { rune } from './rune';
 
 // Mock node operators
 export const mockNodeOperators: NodeOperator[] = [
   {
     id: '1',
-    address: 'thor1abcdefghijklmnopqrstuvwxyz0123456789abcd',
-    bondingCapacity: 100000,
-    minimumBond: 5000,
+    address: 'thor1xkt3hehfhvpy4z24stlqushqfpy2smd9yazymf',
+    operatorAddress: 'thor1fjgk26rn8tyldu6cssf8ka2l4yyvz030lrd9hn',
+    bondingCapacity: rune(100_000),
+    minimumBond: rune(5_000),
     feePercentage: 16,
-    instantChurnAmount: 20000,
+    instantChurnAmount: rune(20_000),
+    maxBondProviders: null,
+    rejectionTemplates: DEFAULT_REJECTION_TEMPLATES,
     description: 'Reliable node operator with 99.9% uptime. Running since 2021.',
     contactInfo: 'Discord: operator1#1234',
     createdAt: new Date('2023-01-15'),
   },
   {
     id: '2',
-    address: 'thor1defghijklmnopqrstuvwxyz0123456789abcdef',
-    bondingCapacity: 250000,
-    minimumBond: 10000,
+    address: 'thor1zault86d7fgldwq6avy0k549mp9dfmhcrfn0cl',
+    operatorAddress: 'thor1atw7llcelswfccwwyuxzaq76e2ggyzevudtpph',
+    bondingCapacity: rune(250_000),
+    minimumBond: rune(10_000),
     feePercentage: 15,
-    instantChurnAmount: 50000,
+    instantChurnAmount: rune(50_000),
+    maxBondProviders: 4,
+    rejectionTemplates: ['Below minimum bond', 'Node is about to churn out'],
     description: 'Professional node operation service with dedicated support.',
     contactInfo: 'Telegram: @operator2',
     createdAt: new Date('2023-03-22'),
   },
   {
     id: '3',
-    address: 'thor1ghijklmnopqrstuvwxyz0123456789abcdefghi',
-    bondingCapacity: 500000,
-    minimumBond: 20000,
+    address: 'thor14px0az5xxx3xckkpjth4c7qa4ayvvuumsq8fnp',
+    operatorAddress: 'thor12mcdwaxnvtu3pgw8nngjqgx4pvh97prqe0r0y3',
+    bondingCapacity: rune(500_000),
+    minimumBond: rune(20_000),
     feePercentage: 14.5,
-    instantChurnAmount: 100000,
+    instantChurnAmount: rune(100_000),
+    maxBondProviders: null,
+    rejectionTemplates: DEFAULT_REJECTION_TEMPLATES,
     description: 'Enterprise-grade infrastructure with multi-region redundancy.',
     contactInfo: 'X: @operator3',
     createdAt: new Date('2023-05-10'),
   },
 ];
 
+// Requests are dated relative to now so the fixtures never start out expired.
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
 // Mock whitelist requests
 export const mockWhitelistRequests: WhitelistRequest[] = [
   {
@@ -45,10 +59,13 @@ export const mockWhitelistRequests: WhitelistRequest[] = [
     discordUsername: 'user1#5678',
     xUsername: '@user1',
     telegramUsername: '@teleuser1',
-    walletAddress: 'thor1uvwxyz0123456789abcdefghijklmnopqrst',
-    intendedBondAmount: 10000,
+    walletAddress: 'thor19mu9czcluswhjz65jkkv2vdhlhlgs8na6mge2a',
+    intendedBondAmount: rune(10_000),
     status: 'pending',
-    createdAt: new Date('2023-06-15'),
+    actions: [],
+    transitions: [],
+    edits: [{ at: daysAgo(1), previous: { telegramUsername: '@teleuser_1' } }],
+    createdAt: daysAgo(2),
   },
   {
     id: '2',
@@ -56,10 +73,13 @@ export const mockWhitelistRequests: WhitelistRequest[] = [
     discordUsername: 'user2#9012',
     xUsername: '@user2',
     telegramUsername: '@teleuser2',
-    walletAddress: 'thor1xyz0123456789abcdefghijklmnopqrstuvw',
-    intendedBondAmount: 15000,
+    walletAddress: 'thor1kenc3wjfzzhnyythr6z8ethmeny000gh6497v9',
+    intendedBondAmount: rune(15_000),
     status: 'approved',
-    createdAt: new Date('2023-06-10'),
+    actions: [],
+    transitions: [{ from: 'pending', to: 'approved', event: 'approve', at: daysAgo(5) }],
+    edits: [],
+    createdAt: daysAgo(7),
   },
   {
     id: '3',
@@ -67,11 +87,14 @@ export const mockWhitelistRequests: WhitelistRequest[] = [
     discordUsername: 'user3#3456',
     xUsername: '@user3',
     telegramUsername: '@teleuser3',
-    walletAddress: 'thor1z0123456789abcdefghijklmnopqrstuvwxy',
-    intendedBondAmount: 12000,
+    walletAddress: 'thor1yk0aggp74j36wh4uzqz0rjl2yhae37vxds24fn',
+    intendedBondAmount: rune(12_000),
     status: 'rejected',
+    actions: [],
+    transitions: [{ from: 'pending', to: 'rejected', event: 'reject', at: daysAgo(9) }],
+    edits: [],
     rejectionReason: 'Insufficient bond amount',
-    createdAt: new Date('2023-06-05'),
+    createdAt: daysAgo(12),
   },
 ];
 
@@ -79,17 +102,11 @@ export const mockWhitelistRequests: WhitelistRequest[] = [
 export const mockUsers: User[] = [
   {
     id: '1',
-    walletAddress: 'thor1abcdefghijklmnopqrstuvwxyz0123456789abcd',
-    isNodeOperator: true,
+    walletAddress: 'thor1fjgk26rn8tyldu6cssf8ka2l4yyvz030lrd9hn',
   },
   {
     id: '2',
-    walletAddress: 'thor1uvwxyz0123456789abcdefghijklmnopqrst',
-    isNodeOperator: false,
+    walletAddress: 'thor19mu9czcluswhjz65jkkv2vdhlhlgs8na6mge2a',
   },
 ];
 
-// Mock authentication function
-export function mockAuthenticateWallet(address: string): User | null {
-  return mockUsers.find(user => user.walletAddress === address) || null;
-}
@@ -0,0 +1,94 @@
+import {
+  AbuseReport,
+  AbuseReportCategory,
+  ModerationActionInput,
+  ModerationActionKind,
+  NodeOperator,
+} from '../types';
+
+export const ABUSE_REPORT_CATEGORY_LABELS: Record<AbuseReportCategory, string> = {
+  scam: 'Scam',
+  impersonation: 'Impersonation',
+  other: 'Other',
+};
+
+export const ABUSE_REPORT_CATEGORIES = Object.keys(
+  ABUSE_REPORT_CATEGORY_LABELS
+) as AbuseReportCategory[];
+
+export const MODERATION_ACTION_LABELS: Record<ModerationActionKind, string> = {
+  hide: 'Hid listing',
+  unhide: 'Restored listing',
+  verify: 'Verified listing',
+  unverify: 'Removed verification',
+  'dismiss-report': 'Dismissed report',
+};
+
+export const MODERATION_ACTION_KINDS = Object.keys(
+  MODERATION_ACTION_LABELS
+) as ModerationActionKind[];
+
+export const REPORT_DETAILS_MAX_LENGTH = 2000;
+
+/** Moderator wallets from a comma-separated list, as set in the environment. */
+export function parseModeratorAddresses(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+export function isModerator(
+  address: string | null | undefined,
+  moderators: readonly string[]
+): boolean {
+  return !!address && moderators.includes(address);
+}
+
+export const isHidden = (listing: NodeOperator): boolean => listing.moderation?.hidden === true;
+
+export const isVerified = (listing: NodeOperator): boolean =>
+  listing.moderation?.verified === true;
+
+/** `listing` after `kind`; dismissing a report leaves it as it was. */
+export function applyModerationAction(
+  listing: NodeOperator,
+  kind: ModerationActionKind
+): NodeOperator {
+  const moderation = { hidden: isHidden(listing), verified: isVerified(listing) };
+  switch (kind) {
+    case 'hide':
+    case 'unhide':
+      return { ...listing, moderation: { ...moderation, hidden: kind === 'hide' } };
+    case 'verify':
+    case 'unverify':
+      return { ...listing, moderation: { ...moderation, verified: kind === 'verify' } };
+    case 'dismiss-report':
+      return listing;
+  }
+}
+
+export type ModerationRuleViolation = 'report-required' | 'report-closed';
+
+export class ModerationRuleError extends Error {
+  constructor(
+    readonly violation: ModerationRuleViolation,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ModerationRuleError';
+  }
+}
+
+/** Throws `ModerationRuleError` unless `report` is open, or not needed for `input`. */
+export function assertActionAllowed(
+  input: ModerationActionInput,
+  report: AbuseReport | null
+): void {
+  if (input.kind === 'dismiss-report' && !report) {
+    throw new ModerationRuleError('report-required', 'Only reports can be dismissed');
+  }
+  if (report && report.status !== 'open') {
+    throw new ModerationRuleError('report-closed', 'This report was already handled');
+  }
+}
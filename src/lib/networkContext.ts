@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import { isNetworkId, NETWORKS, NetworkConfig, NetworkId } from './networks';
+
+export const NetworkContext = createContext<NetworkConfig>(NETWORKS.mainnet);
+
+export function useNetwork(): NetworkConfig {
+  return useContext(NetworkContext);
+}
+
+const NETWORK_KEY = 'runebond:network';
+
+export function loadNetworkPreference(): NetworkId {
+  const stored = window.localStorage.getItem(NETWORK_KEY);
+  if (stored && isNetworkId(stored)) return stored;
+
+  const configured = import.meta.env.VITE_DEFAULT_NETWORK;
+  if (configured && isNetworkId(configured)) return configured;
+
+  return import.meta.env.DEV ? 'mock' : 'mainnet';
+}
+
+export function saveNetworkPreference(networkId: NetworkId): void {
+  window.localStorage.setItem(NETWORK_KEY, networkId);
+}
@@ -0,0 +1,66 @@
+import { ThorAddressPrefix } from './address';
+
+export type NetworkId = 'mainnet' | 'stagenet' | 'mock';
+
+export interface NetworkConfig {
+  id: NetworkId;
+  name: string;
+  chainId: string;
+  addressPrefix: ThorAddressPrefix;
+  thornodeUrl: string;
+  /** Explorer base URL; `null` for networks no explorer indexes. */
+  explorerUrl: string | null;
+  /** Whether the store for this network starts out with the mock fixtures. */
+  seedWithMockData: boolean;
+}
+
+export const NETWORKS: Record<NetworkId, NetworkConfig> = {
+  mainnet: {
+    id: 'mainnet',
+    name: 'Mainnet',
+    chainId: 'thorchain-1',
+    addressPrefix: 'thor',
+    thornodeUrl: 'https://thornode.ninerealms.com',
+    explorerUrl: 'https://runescan.io',
+    seedWithMockData: false,
+  },
+  stagenet: {
+    id: 'stagenet',
+    name: 'Stagenet',
+    chainId: 'thorchain-stagenet-v2',
+    addressPrefix: 'sthor',
+    thornodeUrl: 'https://stagenet-thornode.ninerealms.com',
+    explorerUrl: 'https://runescan.io',
+    seedWithMockData: false,
+  },
+  // Local development against the THORNode fixture server and mock wallet.
+  mock: {
+    id: 'mock',
+    name: 'Local Mock',
+    chainId: 'thorchain-mocknet',
+    addressPrefix: 'thor',
+    thornodeUrl: 'http://localhost:1317',
+    explorerUrl: null,
+    seedWithMockData: true,
+  },
+};
+
+export const NETWORK_IDS = Object.keys(NETWORKS) as NetworkId[];
+
+// Own keys only, so `toString` or `__proto__` are not networks. `Object.hasOwn`
+// is newer than the app's ES2020 target.
+export function isNetworkId(value: string): value is NetworkId {
+  return Object.prototype.hasOwnProperty.call(NETWORKS, value);
+}
+
+export function explorerAddressUrl(network: NetworkConfig, address: string): string | null {
+  if (!network.explorerUrl) return null;
+  const query = network.id === 'mainnet' ? '' : `?network=${network.id}`;
+  return `${network.explorerUrl}/address/${address}${query}`;
+}
+
+export function explorerTxUrl(network: NetworkConfig, txHash: string): string | null {
+  if (!network.explorerUrl) return null;
+  const query = network.id === 'mainnet' ? '' : `?network=${network.id}`;
+  return `${network.explorerUrl}/tx/${txHash}${query}`;
+}
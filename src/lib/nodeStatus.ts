@@ -0,0 +1,77 @@
+import { RuneAmount, runeFromBaseUnits } from './rune';
+import { ThornodeClient, ThornodeNode } from './thornode';
+
+export type NodeStatus =
+  | 'Active'
+  | 'Standby'
+  | 'Ready'
+  | 'Whitelisted'
+  | 'Disabled'
+  | 'Jailed'
+  | 'Unknown';
+
+export interface NodeStatusSummary {
+  address: string;
+  status: NodeStatus;
+  /** In the active validator set; jailed nodes can still be active. */
+  isActive: boolean;
+  /** Total bond in 1e8 base units, as reported by THORNode. */
+  totalBond: RuneAmount;
+  slashPoints: number;
+  version: string;
+  requestedToLeave: boolean;
+  jailReason?: string;
+}
+
+export type NodeStatusMap = Record<string, NodeStatusSummary>;
+
+// Jailing is reported separately from the churn status, but it is what bonders
+// care about most, so it takes precedence while the release height is ahead.
+export function summarizeNode(node: ThornodeNode, blockHeight: number): NodeStatusSummary {
+  const jailedUntil = node.jail?.release_height ?? 0;
+  const isJailed = jailedUntil > blockHeight;
+
+  return {
+    address: node.node_address,
+    status: isJailed ? 'Jailed' : node.status,
+    isActive: node.status === 'Active',
+    totalBond: runeFromBaseUnits(node.total_bond),
+    slashPoints: node.slash_points,
+    version: node.version,
+    requestedToLeave: node.requested_to_leave,
+    jailReason: isJailed ? node.jail.reason : undefined,
+  };
+}
+
+export interface NodeStatusCache {
+  /** Returns cached statuses, refetching once they are older than the TTL. */
+  getAll(): Promise<NodeStatusMap>;
+}
+
+export function createNodeStatusCache(client: ThornodeClient, ttlMs = 60_000): NodeStatusCache {
+  let cached: { statuses: NodeStatusMap; fetchedAt: number } | null = null;
+  let inFlight: Promise<NodeStatusMap> | null = null;
+
+  const refresh = async (): Promise<NodeStatusMap> => {
+    const [nodes, blockHeight] = await Promise.all([client.getNodes(), client.getBlockHeight()]);
+    const statuses: NodeStatusMap = {};
+    for (const node of nodes) {
+      statuses[node.node_address] = summarizeNode(node, blockHeight);
+    }
+    cached = { statuses, fetchedAt: Date.now() };
+    return statuses;
+  };
+
+  return {
+    getAll() {
+      if (cached && Date.now() - cached.fetchedAt < ttlMs) {
+        return Promise.resolve(cached.statuses);
+      }
+      // Concurrent callers share a single request.
+      inFlight ??= refresh().finally(() => {
+        inFlight = null;
+      });
+      return inFlight;
+    },
+  };
+}
@@ -0,0 +1,154 @@
+import {
+  AuditEvent,
+  NodeOperator,
+  TeamMember,
+  UserNotification,
+  UserNotificationInput,
+  WhitelistRequest,
+} from '../types';
+import { describeChanges, LISTING_TERMS } from './audit';
+import { AWAITING_STATUSES, IN_PROGRESS_STATUSES } from './requestLifecycle';
+import { formatRune } from './rune';
+import { hasRole, roleOn, TEAM_ROLE_LABELS } from './team';
+import { shortenAddress } from './utils';
+
+// Bonders with a request in one of these statuses hear about changes to the listing's terms.
+const OPEN_STATUSES = [...AWAITING_STATUSES, ...IN_PROGRESS_STATUSES];
+
+function requestNotification(
+  event: AuditEvent,
+  request: WhitelistRequest,
+  listing: NodeOperator
+): UserNotificationInput | null {
+  const node = shortenAddress(listing.address);
+  const base = {
+    nodeOperatorId: listing.id,
+    requestId: request.id,
+    createdAt: event.at,
+  };
+
+  switch (event.type) {
+    case 'created':
+      // Blocklisted requests arrive already rejected; the operator has nothing to review.
+      if (!AWAITING_STATUSES.includes(request.status)) return null;
+      return {
+        ...base,
+        recipientAddress: listing.operatorAddress,
+        type: 'request-received',
+        title: `New request for node ${node}`,
+        body: `${shortenAddress(request.walletAddress)} intends to bond ${formatRune(request.intendedBondAmount)} RUNE.`,
+      };
+    case 'approve':
+    case 'promote':
+      return {
+        ...base,
+        recipientAddress: request.walletAddress,
+        type: 'request-approved',
+        title: `Request approved for node ${node}`,
+        body:
+          event.type === 'promote'
+            ? 'A slot opened up, so your waitlisted request was approved.'
+            : undefined,
+      };
+    case 'reject':
+      // Audit notes already leave out private rejection reasons.
+      return {
+        ...base,
+        recipientAddress: request.walletAddress,
+        type: 'request-rejected',
+        title: `Request rejected for node ${node}`,
+        body: event.note,
+      };
+    default:
+      return null;
+  }
+}
+
+function termsNotifications(
+  event: AuditEvent,
+  listing: NodeOperator,
+  requests: WhitelistRequest[]
+): UserNotificationInput[] {
+  const bonders = new Set(
+    requests
+      .filter((request) => request.nodeOperatorId === listing.id && OPEN_STATUSES.includes(request.status))
+      .map((request) => request.walletAddress)
+  );
+  const terms = event.changes.filter(({ field }) =>
+    LISTING_TERMS.includes(field as keyof NodeOperator)
+  );
+  return [...bonders].map((recipientAddress) => ({
+    recipientAddress,
+    type: 'listing-terms-changed',
+    nodeOperatorId: listing.id,
+    title: `Terms changed for node ${shortenAddress(listing.address)}`,
+    body: describeChanges(terms),
+    createdAt: event.at,
+  }));
+}
+
+function eventNotifications(
+  event: AuditEvent,
+  requests: WhitelistRequest[],
+  nodeOperators: NodeOperator[],
+  members: TeamMember[]
+): UserNotificationInput[] {
+  if (event.subjectType === 'node-operator') {
+    const listing = nodeOperators.find((op) => op.id === event.subjectId);
+    return listing && event.type === 'terms-changed'
+      ? termsNotifications(event, listing, requests)
+      : [];
+  }
+
+  const request = requests.find((item) => item.id === event.subjectId);
+  const listing = request && nodeOperators.find((op) => op.id === request.nodeOperatorId);
+  const notification = request && listing && requestNotification(event, request, listing);
+  if (!notification) return [];
+  if (notification.type !== 'request-received') return [notification];
+
+  // Anyone on the team who can act on a new request hears about it.
+  const managers = members
+    .filter(
+      (member) =>
+        member.nodeOperatorId === listing.id &&
+        hasRole(roleOn(member.memberAddress, listing, members), 'manager')
+    )
+    .map((member) => ({ ...notification, recipientAddress: member.memberAddress }));
+  return [notification, ...managers];
+}
+
+/**
+ * Notifications implied by newly appended audit events, given the requests,
+ * listings and team members as they are after the change. Nobody is notified
+ * of their own changes.
+ */
+export function notificationsFor(
+  events: AuditEvent[],
+  requests: WhitelistRequest[],
+  nodeOperators: NodeOperator[],
+  members: TeamMember[]
+): UserNotificationInput[] {
+  return events.flatMap((event) => {
+    const notifications = eventNotifications(event, requests, nodeOperators, members);
+    return notifications.filter(({ recipientAddress }) => recipientAddress !== event.actor);
+  });
+}
+
+/** Team changes are not audited, so invitations are raised straight from the invite. */
+export function teamInviteNotification(
+  member: TeamMember,
+  listing: NodeOperator
+): UserNotificationInput {
+  return {
+    recipientAddress: member.memberAddress,
+    type: 'team-invite',
+    nodeOperatorId: listing.id,
+    title: `Invited to the team for node ${shortenAddress(listing.address)}`,
+    body: `${shortenAddress(member.invitedBy)} invited you as ${TEAM_ROLE_LABELS[member.role].toLowerCase()}. Accept on the Operator Dashboard.`,
+    createdAt: member.createdAt,
+  };
+}
+
+export function countUnreadNotifications(notifications: UserNotification[]): number {
+  return notifications.filter((notification) => notification.readAt === null).length;
+}
@@ -0,0 +1,202 @@
+import {
+  EditableRequestFields,
+  RequestActionInput,
+  RequestEdit,
+  RequestEvent,
+  RequestStatus,
+  WhitelistRequest,
+} from '../types';
+import { recordedBond } from './bond';
+
+// Every status change goes through this table. Statuses without outgoing
+// events are terminal.
+const TRANSITIONS: Record<RequestStatus, Partial<Record<RequestEvent, RequestStatus>>> = {
+  pending: {
+    approve: 'approved',
+    // Approving more than the node's remaining capacity queues the request instead.
+    waitlist: 'waitlisted',
+    reject: 'rejected',
+    cancel: 'cancelled',
+    expire: 'expired',
+  },
+  waitlisted: { promote: 'approved', reject: 'rejected', cancel: 'cancelled' },
+  approved: {
+    whitelist: 'whitelisted',
+    // Operators sometimes whitelist outside the app, so bonding can come first.
+    bond: 'bonded',
+    cancel: 'cancelled',
+    expire: 'expired',
+    remove: 'removed',
+  },
+  whitelisted: { bond: 'bonded', cancel: 'cancelled', remove: 'removed' },
+  bonded: { bond: 'bonded', unbond: 'unbonding', remove: 'removed' },
+  unbonding: { bond: 'bonded', withdraw: 'withdrawn' },
+  // Bonding again takes capacity and a provider slot, so it starts a new request.
+  withdrawn: {},
+  rejected: {},
+  cancelled: {},
+  expired: {},
+  removed: {},
+};
+
+export const REQUEST_STATUSES = Object.keys(TRANSITIONS) as RequestStatus[];
+
+export const REQUEST_STATUS_LABELS: Record<RequestStatus, string> = {
+  pending: 'Pending',
+  waitlisted: 'Waitlisted',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  whitelisted: 'Whitelisted',
+  bonded: 'Bonded',
+  unbonding: 'Unbonding',
+  withdrawn: 'Withdrawn',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+  removed: 'Removed',
+};
+
+/** Requests still waiting on the operator, which the bonder can cancel. */
+export const AWAITING_STATUSES: readonly RequestStatus[] = ['pending', 'waitlisted'];
+
+/** Approved requests that still hold, or are about to take, a share of the node's capacity. */
+export const IN_PROGRESS_STATUSES: readonly RequestStatus[] = [
+  'approved',
+  'whitelisted',
+  'bonded',
+  'unbonding',
+];
+
+export const CLOSED_STATUSES: readonly RequestStatus[] = REQUEST_STATUSES.filter(isTerminal);
+
+/** Pending and approved requests expire after this long without progress. */
+export const REQUEST_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000;
+
+export class InvalidTransitionError extends Error {
+  constructor(
+    readonly from: RequestStatus,
+    readonly event: RequestEvent
+  ) {
+    super(`Cannot ${event} a request that is ${REQUEST_STATUS_LABELS[from].toLowerCase()}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export class RequestNotEditableError extends Error {
+  constructor(readonly status: RequestStatus) {
+    super(`Only pending requests can be edited; this one is ${REQUEST_STATUS_LABELS[status].toLowerCase()}`);
+    this.name = 'RequestNotEditableError';
+  }
+}
+
+export class RequestNotRemovableError extends Error {
+  constructor(readonly status: RequestStatus) {
+    super(`Only closed requests can be deleted; this one is ${REQUEST_STATUS_LABELS[status].toLowerCase()}`);
+    this.name = 'RequestNotRemovableError';
+  }
+}
+
+export function canTransition(status: RequestStatus, event: RequestEvent): boolean {
+  return TRANSITIONS[status][event] !== undefined;
+}
+
+export function isTerminal(status: RequestStatus): boolean {
+  return Object.keys(TRANSITIONS[status]).length === 0;
+}
+
+export function nextStatus(status: RequestStatus, event: RequestEvent): RequestStatus {
+  const next = TRANSITIONS[status][event];
+  if (!next) throw new InvalidTransitionError(status, event);
+  return next;
+}
+
+/** Returns `request` moved along `event`, with the transition timestamped. */
+export function applyTransition(
+  request: WhitelistRequest,
+  event: RequestEvent,
+  at = new Date()
+): WhitelistRequest {
+  const to = nextStatus(request.status, event);
+  return {
+    ...request,
+    status: to,
+    transitions: [...request.transitions, { from: request.status, to, event, at }],
+  };
+}
+
+/** When `request` entered its current status. */
+export function lastTransitionAt(request: WhitelistRequest): Date {
+  const { transitions } = request;
+  return transitions.length > 0 ? transitions[transitions.length - 1].at : request.createdAt;
+}
+
+export function isStale(request: WhitelistRequest, now = new Date()): boolean {
+  return (
+    canTransition(request.status, 'expire') &&
+    now.getTime() - lastTransitionAt(request).getTime() > REQUEST_EXPIRY_MS
+  );
+}
+
+/**
+ * The event a recorded transaction triggers. A partial unbond leaves the request
+ * bonded, so it has no event, but is still only valid from `bonded`.
+ */
+export function actionEvent(
+  request: WhitelistRequest,
+  action: RequestActionInput
+): RequestEvent | null {
+  switch (action.kind) {
+    case 'whitelist':
+      return 'whitelist';
+    case 'bond':
+      return 'bond';
+    case 'remove-provider':
+      return 'remove';
+    case 'unbond':
+      if (!canTransition(request.status, 'unbond')) {
+        throw new InvalidTransitionError(request.status, 'unbond');
+      }
+      return recordedBond(request) - action.amount <= 0n ? 'unbond' : null;
+  }
+}
+
+const EDITABLE_FIELDS: (keyof EditableRequestFields)[] = [
+  'discordUsername',
+  'xUsername',
+  'telegramUsername',
+  'intendedBondAmount',
+];
+
+export function canEdit(status: RequestStatus): boolean {
+  return status === 'pending';
+}
+
+/** Open requests go through the lifecycle, so only closed ones can be deleted outright. */
+export function canRemove(status: RequestStatus): boolean {
+  return CLOSED_STATUSES.includes(status);
+}
+
+/**
+ * Returns `request` with `changes` applied and the previous values kept in its
+ * edit history. Changes that match the current values are not recorded.
+ */
+export function applyEdit(
+  request: WhitelistRequest,
+  changes: Partial<EditableRequestFields>,
+  at = new Date()
+): WhitelistRequest {
+  if (!canEdit(request.status)) throw new RequestNotEditableError(request.status);
+
+  const previous: Partial<EditableRequestFields> = {};
+  const next: Partial<EditableRequestFields> = {};
+  for (const field of EDITABLE_FIELDS) {
+    const value = changes[field];
+    if (value !== undefined && value !== request[field]) {
+      Object.assign(previous, { [field]: request[field] });
+      Object.assign(next, { [field]: value });
+    }
+  }
+  if (Object.keys(next).length === 0) return request;
+
+  const edit: RequestEdit = { at, previous };
+  return { ...request, ...next, edits: [...request.edits, edit] };
+}
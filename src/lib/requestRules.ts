@@ -0,0 +1,122 @@
+import {
+  BlocklistEntry,
+  BlocklistEntryKind,
+  WhitelistRequest,
+  WhitelistRequestInput,
+} from '../types';
+import { CLOSED_STATUSES, lastTransitionAt } from './requestLifecycle';
+
+/** How long a wallet waits after a rejection before asking the same listing again. */
+export const DEFAULT_REJECTION_COOLDOWN_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type RequestRuleViolation = 'duplicate' | 'cooldown' | 'listing-hidden';
+
+export class RequestRuleError extends Error {
+  constructor(
+    readonly violation: RequestRuleViolation,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RequestRuleError';
+  }
+}
+
+/** Rejection reasons new listings start with; operators can change them on the listing. */
+export const DEFAULT_REJECTION_TEMPLATES = [
+  'Below minimum bond',
+  'No slots available',
+  'Contact details could not be verified',
+];
+
+export const BLOCKLIST_KIND_LABELS: Record<BlocklistEntryKind, string> = {
+  wallet: 'Wallet',
+  discord: 'Discord',
+  x: 'X',
+  telegram: 'Telegram',
+};
+
+const sameListing = (
+  input: Pick<WhitelistRequestInput, 'walletAddress' | 'nodeOperatorId'>,
+  request: WhitelistRequest
+) =>
+  request.walletAddress === input.walletAddress && request.nodeOperatorId === input.nodeOperatorId;
+
+/** When a rejected request stops blocking new ones from the same wallet. */
+export function cooldownEndsAt(request: WhitelistRequest, cooldownMs: number): Date {
+  return new Date(lastTransitionAt(request).getTime() + cooldownMs);
+}
+
+/**
+ * Why the wallet may not file a new request to the listing: it already has an
+ * open one, or had one rejected within the cooldown. `null` when it may.
+ */
+export function requestRuleViolation(
+  input: Pick<WhitelistRequestInput, 'walletAddress' | 'nodeOperatorId'>,
+  existing: WhitelistRequest[],
+  cooldownMs: number,
+  now = new Date()
+): RequestRuleError | null {
+  const previous = existing.filter((request) => sameListing(input, request));
+
+  if (previous.some((request) => !CLOSED_STATUSES.includes(request.status))) {
+    return new RequestRuleError(
+      'duplicate',
+      'You already have an open request with this node operator'
+    );
+  }
+
+  const cooling = previous
+    .filter((request) => request.status === 'rejected')
+    .map((request) => cooldownEndsAt(request, cooldownMs))
+    .find((endsAt) => endsAt > now);
+  if (cooling) {
+    return new RequestRuleError(
+      'cooldown',
+      `Your last request was rejected; you can ask again after ${cooling.toLocaleDateString()}`
+    );
+  }
+
+  return null;
+}
+
+export function assertRequestAllowed(
+  input: Pick<WhitelistRequestInput, 'walletAddress' | 'nodeOperatorId'>,
+  existing: WhitelistRequest[],
+  cooldownMs: number,
+  now = new Date()
+): void {
+  const violation = requestRuleViolation(input, existing, cooldownMs, now);
+  if (violation) throw violation;
+}
+
+// Handles are compared without case or a leading "@", as people type them both ways.
+export function normalizeBlocklistValue(kind: BlocklistEntryKind, value: string): string {
+  const trimmed = value.trim();
+  return kind === 'wallet' ? trimmed : trimmed.replace(/^@/, '').toLowerCase();
+}
+
+const requestValue = (input: WhitelistRequestInput, kind: BlocklistEntryKind): string => {
+  switch (kind) {
+    case 'wallet':
+      return input.walletAddress;
+    case 'discord':
+      return input.discordUsername;
+    case 'x':
+      return input.xUsername;
+    case 'telegram':
+      return input.telegramUsername;
+  }
+};
+
+/** The first of the listing's entries that `input` matches, if any. */
+export function matchBlocklist(
+  input: WhitelistRequestInput,
+  entries: BlocklistEntry[]
+): BlocklistEntry | undefined {
+  return entries.find(
+    (entry) =>
+      entry.nodeOperatorId === input.nodeOperatorId &&
+      normalizeBlocklistValue(entry.kind, requestValue(input, entry.kind)) ===
+        normalizeBlocklistValue(entry.kind, entry.value)
+  );
+}
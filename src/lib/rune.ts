@@ -0,0 +1,98 @@
+/** RUNE amount in THORChain base units (1 RUNE = 1e8). */
+export type RuneAmount = bigint;
+
+export const RUNE_DECIMALS = 8;
+export const ONE_RUNE: RuneAmount = 100_000_000n;
+
+/** `step` for numeric inputs so browsers accept all eight decimals. */
+export const RUNE_INPUT_STEP = '0.00000001';
+
+// Either side of the point may be left out (`5.`, `.5`), but not both.
+const DECIMAL_PATTERN = /^(?=\.?\d)(\d*)(?:\.(\d*))?$/;
+
+export class RuneAmountError extends Error {
+  constructor(readonly input: string) {
+    super(`"${input}" is not a valid RUNE amount`);
+    this.name = 'RuneAmountError';
+  }
+}
+
+/**
+ * Parses a decimal RUNE string such as "1500" or "0.25" into base units.
+ * Returns null for anything that is not a non-negative decimal with at most
+ * eight fractional digits.
+ */
+export function tryParseRune(input: string): RuneAmount | null {
+  const match = DECIMAL_PATTERN.exec(input.trim().replace(/,/g, ''));
+  if (!match) return null;
+
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > RUNE_DECIMALS) return null;
+
+  return BigInt(whole || '0') * ONE_RUNE + BigInt(fraction.padEnd(RUNE_DECIMALS, '0'));
+}
+
+export function parseRune(input: string): RuneAmount {
+  const amount = tryParseRune(input);
+  if (amount === null) throw new RuneAmountError(input);
+  return amount;
+}
+
+/** Parses base units as returned by THORNode (e.g. `total_bond`). */
+export function runeFromBaseUnits(baseUnits: string): RuneAmount {
+  return BigInt(baseUnits);
+}
+
+/** Whole-RUNE literal, for fixtures and constants. */
+export function rune(whole: number): RuneAmount {
+  return BigInt(whole) * ONE_RUNE;
+}
+
+/** Full-precision decimal string without grouping, suitable for form inputs. */
+export function toRuneString(amount: RuneAmount): string {
+  const sign = amount < 0n ? '-' : '';
+  const abs = amount < 0n ? -amount : amount;
+  const whole = abs / ONE_RUNE;
+  const fraction = (abs % ONE_RUNE).toString().padStart(RUNE_DECIMALS, '0').replace(/0+$/, '');
+  return `${sign}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+const wholeFormatter = new Intl.NumberFormat('en-US');
+
+/** Grouped display string, rounded half-up to `fractionDigits` decimals (at most RUNE's eight). */
+export function formatRune(amount: RuneAmount, fractionDigits = 2): string {
+  const digits = Math.min(Math.max(Math.trunc(fractionDigits), 0), RUNE_DECIMALS);
+  const sign = amount < 0n ? '-' : '';
+  const abs = amount < 0n ? -amount : amount;
+
+  const step = 10n ** BigInt(RUNE_DECIMALS - digits);
+  const rounded = ((abs + step / 2n) / step) * step;
+
+  const whole = rounded / ONE_RUNE;
+  const fraction = (rounded % ONE_RUNE)
+    .toString()
+    .padStart(RUNE_DECIMALS, '0')
+    .slice(0, digits)
+    .replace(/0+$/, '');
+
+  return `${sign}${wholeFormatter.format(whole)}${fraction ? `.${fraction}` : ''}`;
+}
+
+export function sumRune(amounts: Iterable<RuneAmount>): RuneAmount {
+  let total = 0n;
+  for (const amount of amounts) total += amount;
+  return total;
+}
+
+export function minRune(a: RuneAmount, b: RuneAmount): RuneAmount {
+  return a < b ? a : b;
+}
+
+export function maxRune(a: RuneAmount, b: RuneAmount): RuneAmount {
+  return a > b ? a : b;
+}
+
+/** Ascending comparator for `Array.prototype.sort`. */
+export function compareRune(a: RuneAmount, b: RuneAmount): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,74 @@
+import { NodeOperator, TeamMember, TeamMemberInput, TeamRole } from '../types';
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  viewer: 'Viewer',
+};
+
+export const TEAM_ROLES = Object.keys(TEAM_ROLE_LABELS) as TeamRole[];
+
+export const TEAM_ROLE_DESCRIPTIONS: Record<TeamRole, string> = {
+  owner: 'Everything, including the team, webhooks and deleting the listing',
+  manager: 'Approve and reject requests, edit the listing and its blocklist',
+  viewer: 'See the dashboard and requests without changing anything',
+};
+
+const ROLE_RANKS: Record<TeamRole, number> = { viewer: 0, manager: 1, owner: 2 };
+
+/** Whether `role` includes everything `required` may do; `null` is no role at all. */
+export function hasRole(role: TeamRole | null | undefined, required: TeamRole): boolean {
+  return !!role && ROLE_RANKS[role] >= ROLE_RANKS[required];
+}
+
+/**
+ * `address`'s role on `listing`: the operator wallet always owns it, and
+ * invitees hold their role once they accept. `members` may span listings.
+ */
+export function roleOn(
+  address: string,
+  listing: NodeOperator,
+  members: TeamMember[]
+): TeamRole | null {
+  if (address === listing.operatorAddress) return 'owner';
+  const member = members.find(
+    (item) =>
+      item.nodeOperatorId === listing.id &&
+      item.memberAddress === address &&
+      item.joinedAt !== null
+  );
+  return member?.role ?? null;
+}
+
+export type TeamRuleViolation = 'operator-wallet' | 'already-member';
+
+export class TeamRuleError extends Error {
+  constructor(
+    readonly violation: TeamRuleViolation,
+    message: string
+  ) {
+    super(message);
+    this.name = 'TeamRuleError';
+  }
+}
+
+/** Throws `TeamRuleError` when `input` would invite someone already on the team. */
+export function assertInviteAllowed(
+  input: TeamMemberInput,
+  listing: NodeOperator,
+  members: TeamMember[]
+): void {
+  if (input.memberAddress === listing.operatorAddress) {
+    throw new TeamRuleError('operator-wallet', "The listing's operator wallet already owns it");
+  }
+  const existing = members.find(
+    (member) =>
+      member.nodeOperatorId === input.nodeOperatorId && member.memberAddress === input.memberAddress
+  );
+  if (existing) {
+    throw new TeamRuleError(
+      'already-member',
+      existing.joinedAt ? 'This wallet is already on the team' : 'This wallet is already invited'
+    );
+  }
+}
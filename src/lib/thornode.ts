@@ -0,0 +1,170 @@
+// Minimal typed client for the THORNode REST API. Only the endpoints the app
+// needs are covered; amounts are strings in 1e8 base units, as THORNode returns them.
+
+export const DEFAULT_THORNODE_URL = 'https://thornode.ninerealms.com';
+
+export type ThornodeNodeStatus =
+  | 'Active'
+  | 'Standby'
+  | 'Ready'
+  | 'Whitelisted'
+  | 'Disabled'
+  | 'Unknown';
+
+export interface ThornodeBondProvider {
+  bond_address: string;
+  bond: string;
+}
+
+export interface ThornodeNode {
+  node_address: string;
+  status: ThornodeNodeStatus;
+  node_operator_address: string;
+  total_bond: string;
+  bond_providers: {
+    node_operator_fee: string;
+    providers: ThornodeBondProvider[] | null;
+  };
+  active_block_height: number;
+  requested_to_leave: boolean;
+  forced_to_leave: boolean;
+  leave_height: number;
+  ip_address: string;
+  version: string;
+  slash_points: number;
+  jail: {
+    release_height?: number;
+    reason?: string;
+  };
+  current_award: string;
+  preflight_status: {
+    status: ThornodeNodeStatus;
+    reason: string;
+    code: number;
+  };
+}
+
+export interface ThornodeLastBlock {
+  chain: string;
+  last_observed_in: number;
+  last_signed_out: number;
+  thorchain: number;
+}
+
+export interface ThornodeClient {
+  /** Resolves to `null` when the address is not a registered node. */
+  getNode(address: string): Promise<ThornodeNode | null>;
+  getNodes(): Promise<ThornodeNode[]>;
+  getBlockHeight(): Promise<number>;
+  /** Resolves to `null` when the mimir key is unset. */
+  getMimir(key: string): Promise<number | null>;
+}
+
+export interface ThornodeClientOptions {
+  baseUrl: string;
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+}
+
+export class ThornodeError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ThornodeError';
+  }
+}
+
+export function createThornodeClient({
+  baseUrl,
+  fetch: fetchImpl = (...args) => fetch(...args),
+  timeoutMs = 10_000,
+}: ThornodeClientOptions): ThornodeClient {
+  const root = baseUrl.replace(/\/$/, '');
+
+  const get = async <T>(path: string): Promise<T | null> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetchImpl(`${root}${path}`, {
+        headers: { Accept: 'application/json' },
+        signal: controller.signal,
+      });
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new ThornodeError(`THORNode responded with ${response.status}`, response.status);
+      }
+      return (await response.json()) as T;
+    } catch (error) {
+      if (error instanceof ThornodeError) throw error;
+      throw new ThornodeError(`THORNode request failed: ${(error as Error).message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    async getNode(address) {
+      const node = await get<ThornodeNode>(`/thorchain/node/${encodeURIComponent(address)}`);
+      // Unregistered addresses come back as an empty node rather than a 404.
+      if (!node || !node.node_address || node.status === 'Unknown') return null;
+      return node;
+    },
+    async getNodes() {
+      return (await get<ThornodeNode[]>('/thorchain/nodes')) ?? [];
+    },
+    async getBlockHeight() {
+      const blocks = (await get<ThornodeLastBlock[]>('/thorchain/lastblock')) ?? [];
+      return blocks.reduce((height, block) => Math.max(height, block.thorchain), 0);
+    },
+    async getMimir(key) {
+      const value = await get<number>(`/thorchain/mimir/key/${encodeURIComponent(key)}`);
+      // THORNode reports unset keys as -1.
+      return value === null || value < 0 ? null : value;
+    },
+  };
+}
+
+export type NodeVerification =
+  | { ok: true; node: ThornodeNode }
+  | { ok: false; reason: 'not-registered' | 'operator-mismatch' | 'unavailable'; message: string };
+
+/**
+ * Checks that `nodeAddress` is a registered node whose operator is `walletAddress`.
+ */
+export async function verifyNodeOwnership(
+  client: ThornodeClient,
+  nodeAddress: string,
+  walletAddress: string
+): Promise<NodeVerification> {
+  let node: ThornodeNode | null;
+  try {
+    node = await client.getNode(nodeAddress);
+  } catch (error) {
+    return {
+      ok: false,
+      reason: 'unavailable',
+      message: `Could not reach THORNode to verify the node: ${(error as Error).message}`,
+    };
+  }
+
+  if (!node) {
+    return {
+      ok: false,
+      reason: 'not-registered',
+      message: 'This address is not a registered THORChain node',
+    };
+  }
+
+  if (node.node_operator_address !== walletAddress) {
+    return {
+      ok: false,
+      reason: 'operator-mismatch',
+      message: 'The connected wallet is not the operator of this node',
+    };
+  }
+
+  return { ok: true, node };
+}
@@ -1,12 +1,7 @@
-export function formatRune(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
-    maximumFractionDigits: 2,
-  }).format(amount);
-}
+import { checkThorAddress } from './address';
 
 export function validateThorAddress(address: string): boolean {
-  // Basic validation - in a real app, this would be more sophisticated
-  return address.startsWith('thor') && address.length === 43;
+  return checkThorAddress(address).valid;
 }
 
 export function shortenAddress(address: string): string {
@@ -0,0 +1,23 @@
+import { createKeplrWallet } from './keplr';
+import { createMockWallet } from './mock';
+import { createVultisigWallet } from './vultisig';
+import { createXdefiWallet } from './xdefi';
+import { WalletProvider } from './types';
+import { NetworkConfig } from '../networks';
+
+export * from './types';
+export { createKeplrWallet, createMockWallet, createVultisigWallet, createXdefiWallet };
+
+export function createWalletProviders(
+  network: NetworkConfig,
+  includeMock = network.id === 'mock' ||
+    import.meta.env.DEV ||
+    import.meta.env.VITE_ENABLE_MOCK_WALLET === 'true'
+): WalletProvider[] {
+  return [
+    createKeplrWallet(network.chainId),
+    createXdefiWallet(network.chainId),
+    createVultisigWallet(network.chainId),
+    ...(includeMock ? [createMockWallet(undefined, network.addressPrefix)] : []),
+  ];
+}
@@ -0,0 +1,68 @@
+import { StdSignature } from '../auth/adr036';
+import { THORCHAIN_CHAIN_ID, WalletError, WalletProvider } from './types';
+
+interface KeplrKey {
+  name: string;
+  bech32Address: string;
+  pubKey: Uint8Array;
+}
+
+export interface KeplrSignature {
+  pub_key: { type: string; value: string };
+  signature: string;
+}
+
+/** The Keplr injection API; other wallets expose compatible objects. */
+export interface Keplr {
+  enable(chainId: string): Promise<void>;
+  getKey(chainId: string): Promise<KeplrKey>;
+  signArbitrary(chainId: string, signer: string, data: string): Promise<KeplrSignature>;
+}
+
+declare global {
+  interface Window {
+    keplr?: Keplr;
+  }
+}
+
+export async function signArbitraryWithKeplr(
+  keplr: Keplr,
+  chainId: string,
+  address: string,
+  message: string
+): Promise<StdSignature> {
+  try {
+    const { pub_key, signature } = await keplr.signArbitrary(chainId, address, message);
+    return { pubKey: pub_key.value, signature };
+  } catch (error) {
+    throw new WalletError('rejected', `Signing was rejected: ${(error as Error).message}`);
+  }
+}
+
+// Keplr and wallets that mimic its Cosmos injection (`window.keplr`).
+export function createKeplrWallet(chainId = THORCHAIN_CHAIN_ID): WalletProvider {
+  return {
+    id: 'keplr',
+    name: 'Keplr',
+    isAvailable: () => typeof window !== 'undefined' && !!window.keplr,
+    async connect() {
+      const keplr = window.keplr;
+      if (!keplr) throw new WalletError('not-installed', 'Keplr is not installed');
+
+      try {
+        await keplr.enable(chainId);
+      } catch (error) {
+        throw new WalletError('rejected', `Keplr connection was rejected: ${(error as Error).message}`);
+      }
+
+      const key = await keplr.getKey(chainId);
+      if (!key.bech32Address) throw new WalletError('no-account', 'Keplr returned no THORChain account');
+      return { address: key.bech32Address };
+    },
+    async signArbitrary(address, message) {
+      const keplr = window.keplr;
+      if (!keplr) throw new WalletError('not-installed', 'Keplr is not installed');
+      return signArbitraryWithKeplr(keplr, chainId, address, message);
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import { pubKeyToAddress, signAdr036 } from '../auth/adr036';
+import { WalletError, WalletProvider } from './types';
+
+// The key is derived from a fixed seed, so the mock wallet always has the same
+// address and produces real, verifiable signatures without a browser extension.
+export const MOCK_WALLET_SEED = 'runebond-mock-wallet';
+
+export function createMockWallet(seed = MOCK_WALLET_SEED, prefix = 'thor'): WalletProvider {
+  const privateKey = sha256(new TextEncoder().encode(seed));
+  const address = pubKeyToAddress(secp256k1.getPublicKey(privateKey, true), prefix);
+
+  return {
+    id: 'mock',
+    name: 'Mock Wallet',
+    isAvailable: () => true,
+    async connect() {
+      return { address };
+    },
+    async signArbitrary(signer, message) {
+      if (signer !== address) {
+        throw new WalletError('no-account', `Mock wallet does not hold ${signer}`);
+      }
+      return signAdr036(privateKey, signer, message);
+    },
+    // Nothing is broadcast; the "hash" is derived from the message so it is stable.
+    async deposit(msg) {
+      if (msg.value.signer !== address) {
+        throw new WalletError('no-account', `Mock wallet does not hold ${msg.value.signer}`);
+      }
+      return bytesToHex(sha256(new TextEncoder().encode(JSON.stringify(msg)))).toUpperCase();
+    },
+  };
+}
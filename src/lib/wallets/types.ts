@@ -0,0 +1,35 @@
+import { StdSignature } from '../auth/adr036';
+import { MsgDeposit } from '../bond';
+
+export const THORCHAIN_CHAIN_ID = 'thorchain-1';
+
+export interface WalletAccount {
+  address: string;
+}
+
+export interface WalletProvider {
+  id: string;
+  name: string;
+  /** Whether the wallet's browser extension has injected itself into the page. */
+  isAvailable(): boolean;
+  connect(): Promise<WalletAccount>;
+  /** Signs `message` as an ADR-036 arbitrary message from `address`. */
+  signArbitrary(address: string, message: string): Promise<StdSignature>;
+  /**
+   * Signs and broadcasts a MsgDeposit, resolving to the transaction hash.
+   * Absent for wallets that cannot deposit from the page.
+   */
+  deposit?(msg: MsgDeposit): Promise<string>;
+}
+
+export type WalletErrorCode = 'not-installed' | 'rejected' | 'no-account' | 'unsupported';
+
+export class WalletError extends Error {
+  constructor(
+    readonly code: WalletErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'WalletError';
+  }
+}
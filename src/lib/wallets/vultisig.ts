@@ -0,0 +1,46 @@
+import { Keplr, signArbitraryWithKeplr } from './keplr';
+import { THORCHAIN_CHAIN_ID, WalletError, WalletProvider } from './types';
+
+interface VultisigChainProvider {
+  request<T>(args: { method: string; params?: unknown[] }): Promise<T>;
+}
+
+declare global {
+  interface Window {
+    vultisig?: {
+      thorchain?: VultisigChainProvider;
+      keplr?: Keplr;
+    };
+  }
+}
+
+// Vultisig injects per-chain providers plus a Keplr-compatible object, which is
+// used for message signing.
+export function createVultisigWallet(chainId = THORCHAIN_CHAIN_ID): WalletProvider {
+  return {
+    id: 'vultisig',
+    name: 'Vultisig',
+    isAvailable: () => typeof window !== 'undefined' && !!window.vultisig?.thorchain,
+    async connect() {
+      const provider = window.vultisig?.thorchain;
+      if (!provider) throw new WalletError('not-installed', 'Vultisig is not installed');
+
+      let accounts: string[];
+      try {
+        accounts = await provider.request<string[]>({ method: 'request_accounts' });
+      } catch (error) {
+        throw new WalletError('rejected', `Vultisig connection was rejected: ${(error as Error).message}`);
+      }
+
+      if (!accounts?.[0]) throw new WalletError('no-account', 'Vultisig returned no THORChain account');
+      return { address: accounts[0] };
+    },
+    async signArbitrary(address, message) {
+      const keplr = window.vultisig?.keplr;
+      if (!keplr) {
+        throw new WalletError('unsupported', 'This version of Vultisig cannot sign messages');
+      }
+      return signArbitraryWithKeplr(keplr, chainId, address, message);
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { Keplr, signArbitraryWithKeplr } from './keplr';
+import { RUNE_DECIMALS } from '../rune';
+import { THORCHAIN_CHAIN_ID, WalletError, WalletProvider } from './types';
+
+type XdefiCallback<T> = (error: Error | null, result: T) => void;
+
+interface XdefiChainProvider {
+  request<T>(args: { method: string; params?: unknown[] }, callback: XdefiCallback<T>): void;
+}
+
+declare global {
+  interface Window {
+    xfi?: {
+      thorchain?: XdefiChainProvider;
+      keplr?: Keplr;
+    };
+  }
+}
+
+// XDEFI (now Ctrl) exposes a callback-style provider per chain on `window.xfi`,
+// and a Keplr-compatible object that is used for message signing.
+export function createXdefiWallet(chainId = THORCHAIN_CHAIN_ID): WalletProvider {
+  return {
+    id: 'xdefi',
+    name: 'XDEFI / Ctrl',
+    isAvailable: () => typeof window !== 'undefined' && !!window.xfi?.thorchain,
+    async connect() {
+      const provider = window.xfi?.thorchain;
+      if (!provider) throw new WalletError('not-installed', 'XDEFI / Ctrl is not installed');
+
+      const accounts = await new Promise<string[]>((resolve, reject) => {
+        provider.request<string[]>({ method: 'request_accounts', params: [] }, (error, result) => {
+          if (error) {
+            reject(new WalletError('rejected', `XDEFI connection was rejected: ${error.message}`));
+          } else {
+            resolve(result);
+          }
+        });
+      });
+
+      if (!accounts?.[0]) throw new WalletError('no-account', 'XDEFI returned no THORChain account');
+      return { address: accounts[0] };
+    },
+    async signArbitrary(address, message) {
+      const keplr = window.xfi?.keplr;
+      if (!keplr) {
+        throw new WalletError('unsupported', 'This version of XDEFI / Ctrl cannot sign messages');
+      }
+      return signArbitraryWithKeplr(keplr, chainId, address, message);
+    },
+    async deposit(msg) {
+      const provider = window.xfi?.thorchain;
+      if (!provider) throw new WalletError('not-installed', 'XDEFI / Ctrl is not installed');
+
+      const [coin] = msg.value.coins;
+      const params = {
+        from: msg.value.signer,
+        asset: { chain: 'THOR', symbol: 'RUNE', ticker: 'RUNE' },
+        // XDEFI takes a JS number; bond amounts stay well below 2^53 base units.
+        amount: { amount: Number(coin.amount), decimals: RUNE_DECIMALS },
+        memo: msg.value.memo,
+      };
+
+      return new Promise<string>((resolve, reject) => {
+        provider.request<string>({ method: 'deposit', params: [params] }, (error, txHash) => {
+          if (error) {
+            reject(new WalletError('rejected', `XDEFI deposit was rejected: ${error.message}`));
+          } else {
+            resolve(txHash);
+          }
+        });
+      });
+    },
+  };
+}
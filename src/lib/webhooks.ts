@@ -0,0 +1,364 @@
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, randomBytes, utf8ToBytes } from '@noble/hashes/utils';
+import {
+  AuditEvent,
+  NodeOperator,
+  RequestStatus,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookFormat,
+  WhitelistRequest,
+} from '../types';
+import { AWAITING_STATUSES } from './requestLifecycle';
+import { formatRune } from './rune';
+import { shortenAddress } from './utils';
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'request.created': 'New request',
+  'request.approved': 'Request approved',
+  'request.rejected': 'Request rejected',
+};
+
+export const WEBHOOK_EVENTS = Object.keys(WEBHOOK_EVENT_LABELS) as WebhookEvent[];
+
+export const WEBHOOK_FORMAT_LABELS: Record<WebhookFormat, string> = {
+  json: 'Signed JSON',
+  discord: 'Discord',
+  telegram: 'Telegram bot',
+};
+
+export const SIGNATURE_HEADER = 'X-RUNEBond-Signature';
+export const TIMESTAMP_HEADER = 'X-RUNEBond-Timestamp';
+export const EVENT_HEADER = 'X-RUNEBond-Event';
+
+/** What `json` webhooks receive. Amounts are base units, as decimal strings. */
+export interface WebhookPayload {
+  event: WebhookEvent;
+  occurredAt: string;
+  listing: {
+    id: string;
+    nodeAddress: string;
+    operatorAddress: string;
+  };
+  request: {
+    id: string;
+    walletAddress: string;
+    intendedBondAmount: string;
+    status: RequestStatus;
+    /** Only when the operator shared it with the bonder. */
+    rejectionReason?: string;
+  };
+}
+
+/** Request audit events that webhooks can subscribe to. */
+export function webhookEventFor(event: AuditEvent, request: WhitelistRequest): WebhookEvent | null {
+  switch (event.type) {
+    case 'created':
+      // Blocklisted requests arrive already rejected and only raise `request.rejected`.
+      return AWAITING_STATUSES.includes(request.status) ? 'request.created' : null;
+    case 'approve':
+    case 'promote':
+      return 'request.approved';
+    case 'reject':
+      return 'request.rejected';
+    default:
+      return null;
+  }
+}
+
+export function buildWebhookPayload(
+  event: WebhookEvent,
+  request: WhitelistRequest,
+  listing: NodeOperator,
+  occurredAt = new Date()
+): WebhookPayload {
+  return {
+    event,
+    occurredAt: occurredAt.toISOString(),
+    listing: {
+      id: listing.id,
+      nodeAddress: listing.address,
+      operatorAddress: listing.operatorAddress,
+    },
+    request: {
+      id: request.id,
+      walletAddress: request.walletAddress,
+      intendedBondAmount: request.intendedBondAmount.toString(),
+      status: request.status,
+      rejectionReason:
+        event === 'request.rejected' && !request.rejectionReasonPrivate
+          ? request.rejectionReason || undefined
+          : undefined,
+    },
+  };
+}
+
+// Label/value pairs shared by the chat formatters.
+function payloadFields(payload: WebhookPayload): [string, string][] {
+  const fields: [string, string][] = [
+    ['Node', payload.listing.nodeAddress],
+    ['Bonder', payload.request.walletAddress],
+    ['Intended bond', `${formatRune(BigInt(payload.request.intendedBondAmount))} RUNE`],
+  ];
+  if (payload.request.rejectionReason) fields.push(['Reason', payload.request.rejectionReason]);
+  return fields;
+}
+
+const EMBED_COLORS: Record<WebhookEvent, number> = {
+  'request.created': 0x2563eb,
+  'request.approved': 0x16a34a,
+  'request.rejected': 0xdc2626,
+};
+
+/** Body for Discord's Execute Webhook endpoint. */
+export interface DiscordWebhookMessage {
+  username: string;
+  embeds: {
+    title: string;
+    color: number;
+    fields: { name: string; value: string; inline?: boolean }[];
+    footer: { text: string };
+    timestamp: string;
+  }[];
+}
+
+export function formatDiscordMessage(payload: WebhookPayload): DiscordWebhookMessage {
+  return {
+    username: 'RUNEBond',
+    embeds: [
+      {
+        title: `${WEBHOOK_EVENT_LABELS[payload.event]} for node ${shortenAddress(payload.listing.nodeAddress)}`,
+        color: EMBED_COLORS[payload.event],
+        fields: payloadFields(payload).map(([name, value]) => ({
+          name,
+          value,
+          inline: name !== 'Reason',
+        })),
+        footer: { text: `Request ${payload.request.id}` },
+        timestamp: payload.occurredAt,
+      },
+    ],
+  };
+}
+
+/** Body for the Telegram Bot API's `sendMessage` method. */
+export interface TelegramSendMessage {
+  chat_id: string;
+  text: string;
+  parse_mode: 'HTML';
+  disable_web_page_preview: boolean;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function formatTelegramMessage(payload: WebhookPayload, chatId: string): TelegramSendMessage {
+  const title = `${WEBHOOK_EVENT_LABELS[payload.event]} for node ${shortenAddress(payload.listing.nodeAddress)}`;
+  const lines = payloadFields(payload).map(
+    ([label, value]) => `${escapeHtml(label)}: <code>${escapeHtml(value)}</code>`
+  );
+  return {
+    chat_id: chatId,
+    text: [`<b>${escapeHtml(title)}</b>`, ...lines].join('\n'),
+    parse_mode: 'HTML',
+    disable_web_page_preview: true,
+  };
+}
+
+/** The body `webhook` receives for `payload`. */
+export function formatWebhookBody(webhook: Webhook, payload: WebhookPayload): unknown {
+  switch (webhook.format) {
+    case 'json':
+      return payload;
+    case 'discord':
+      return formatDiscordMessage(payload);
+    case 'telegram':
+      return formatTelegramMessage(payload, webhook.telegramChatId ?? '');
+  }
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${bytesToHex(randomBytes(24))}`;
+}
+
+/**
+ * Signature sent in `X-RUNEBond-Signature`: an HMAC-SHA256 over
+ * `<timestamp>.<body>`, keyed with the webhook's secret.
+ */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  const mac = hmac(sha256, utf8ToBytes(secret), utf8ToBytes(`${timestamp}.${body}`));
+  return `sha256=${bytesToHex(mac)}`;
+}
+
+/** For receivers: checks a delivery's signature without leaking timing. */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string
+): boolean {
+  const expected = signWebhookBody(secret, timestamp, body);
+  if (expected.length !== signature.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export type WebhookUrlCheck = { valid: true } | { valid: false; reason: string };
+
+// [first address, prefix length] of IPv4 ranges that are not on the public internet.
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+];
+
+const ipv4ToNumber = (address: string) =>
+  address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+/**
+ * Whether `address`, an IPv4 or IPv6 literal, is loopback, link-local,
+ * private, shared or otherwise not publicly routable.
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (IPV4_PATTERN.test(address)) {
+    const value = ipv4ToNumber(address);
+    return PRIVATE_IPV4_RANGES.some(([start, bits]) => {
+      const size = 2 ** (32 - bits);
+      return value >= ipv4ToNumber(start) && value < ipv4ToNumber(start) + size;
+    });
+  }
+
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+  // IPv4-mapped addresses, in dotted (::ffff:127.0.0.1) or hex (::ffff:7f00:1) form.
+  const mapped = ip.match(/^::ffff:(.+)$/);
+  if (mapped) {
+    if (IPV4_PATTERN.test(mapped[1])) return isPrivateAddress(mapped[1]);
+    const [high, low] = mapped[1].split(':').map((group) => parseInt(group, 16));
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+  return (
+    ip === '::' ||
+    ip === '::1' ||
+    /^f[cd]/.test(ip) || // unique local, fc00::/7
+    /^fe[89ab]/.test(ip) || // link-local, fe80::/10
+    ip.startsWith('ff') // multicast
+  );
+}
+
+const isLocalHostname = (hostname: string) =>
+  hostname === 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname);
+
+/**
+ * Webhooks must use HTTPS and point outside the server's own network; plain
+ * HTTP and local hosts are only for local stand-ins. Names that resolve to
+ * local addresses are caught by the server when it delivers.
+ */
+export function checkWebhookUrl(url: string, allowHttp = false): WebhookUrlCheck {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { valid: false, reason: 'Enter a full URL, starting with https://' };
+  }
+  if (parsed.protocol !== 'https:' && !(allowHttp && parsed.protocol === 'http:')) {
+    return { valid: false, reason: 'Webhook URLs must use https://' };
+  }
+  if (!allowHttp && isLocalHostname(parsed.hostname)) {
+    return { valid: false, reason: 'Webhook URLs must point to a public host' };
+  }
+  return { valid: true };
+}
+
+/** The URL for display, with Telegram bot tokens masked. */
+export function displayWebhookUrl(url: string): string {
+  return url.replace(/\/bot[^/]+\//, '/bot…/');
+}
+
+export const DEFAULT_WEBHOOK_RETRY_DELAYS_MS = [1_000, 10_000, 60_000];
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export interface WebhookDeliveryOptions {
+  /** Wait before each retry; its length is the number of retries. */
+  retryDelaysMs?: number[];
+  fetch?: typeof fetch;
+}
+
+export type WebhookDeliveryResult = Pick<
+  WebhookDelivery,
+  'status' | 'attempts' | 'responseStatus' | 'error'
+>;
+
+// Other 4xx responses mean the webhook is misconfigured; retrying will not help.
+const isRetryable = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** POSTs `payload` to `webhook`, retrying network errors and server-side failures. */
+export async function deliverWebhook(
+  webhook: Webhook,
+  payload: WebhookPayload,
+  options: WebhookDeliveryOptions = {}
+): Promise<WebhookDeliveryResult> {
+  const send = options.fetch ?? fetch;
+  const retryDelaysMs = options.retryDelaysMs ?? DEFAULT_WEBHOOK_RETRY_DELAYS_MS;
+  const body = JSON.stringify(formatWebhookBody(webhook, payload));
+
+  for (let attempt = 1; ; attempt++) {
+    // Chat APIs cannot check signatures, and the extra headers would need a CORS preflight.
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> =
+      webhook.format === 'json'
+        ? {
+            'Content-Type': 'application/json',
+            [EVENT_HEADER]: payload.event,
+            [TIMESTAMP_HEADER]: timestamp,
+            [SIGNATURE_HEADER]: signWebhookBody(webhook.secret, timestamp, body),
+          }
+        : { 'Content-Type': 'application/json' };
+
+    let result: WebhookDeliveryResult;
+    try {
+      const response = await send(webhook.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (response.ok) {
+        return { status: 'delivered', attempts: attempt, responseStatus: response.status };
+      }
+      result = {
+        status: 'failed',
+        attempts: attempt,
+        responseStatus: response.status,
+        error: `HTTP ${response.status}`,
+      };
+      if (!isRetryable(response.status)) return result;
+    } catch (error) {
+      result = {
+        status: 'failed',
+        attempts: attempt,
+        responseStatus: null,
+        error: (error as Error).message,
+      };
+    }
+
+    if (attempt > retryDelaysMs.length) return result;
+    await sleep(retryDelaysMs[attempt - 1]);
+  }
+}
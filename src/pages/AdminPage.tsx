@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { EyeOff, Flag, Server, Users } from 'lucide-react';
+import { Card, CardContent } from '../components/ui/Card';
+import Alert from '../components/ui/Alert';
+import Tabs from '../components/ui/Tabs';
+import StatCard from '../components/dashboard/StatCard';
+import RequestList from '../components/requests/RequestList';
+import AbuseReportList from '../components/admin/AbuseReportList';
+import ModerationListingTable from '../components/admin/ModerationListingTable';
+import ModerationLog from '../components/admin/ModerationLog';
+import ModerationActionDialog, {
+  PendingModeration,
+} from '../components/admin/ModerationActionDialog';
+import {
+  AbuseReport,
+  AuditLogLoader,
+  ModerationAction,
+  ModerationActionInput,
+  NodeOperator,
+  WhitelistRequest,
+} from '../types';
+import { isHidden } from '../lib/moderation';
+
+interface AdminPageProps {
+  isAuthenticated: boolean;
+  isModerator: boolean;
+  /** Every listing on the network, hidden ones included. */
+  nodeOperators: NodeOperator[];
+  requests: WhitelistRequest[];
+  reports: AbuseReport[];
+  actions: ModerationAction[];
+  /** The moderator is taken from the session. */
+  onModerate: (action: Omit<ModerationActionInput, 'moderatorAddress'>) => Promise<void>;
+  loadAuditLog: AuditLogLoader;
+}
+
+const AdminPage: React.FC<AdminPageProps> = ({
+  isAuthenticated,
+  isModerator,
+  nodeOperators,
+  requests,
+  reports,
+  actions,
+  onModerate,
+  loadAuditLog,
+}) => {
+  const [pending, setPending] = useState<PendingModeration | null>(null);
+
+  if (!isAuthenticated || !isModerator) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <Alert variant="warning" title={isAuthenticated ? 'Moderators Only' : 'Authentication Required'}>
+          {isAuthenticated
+            ? 'The connected wallet is not a platform moderator.'
+            : 'Please connect a moderator wallet to access the moderation console.'}
+        </Alert>
+      </div>
+    );
+  }
+
+  const openReports = reports.filter((report) => report.status === 'open');
+  const hiddenCount = nodeOperators.filter(isHidden).length;
+  const nodeAddresses = Object.fromEntries(nodeOperators.map((op) => [op.id, op.address]));
+
+  const tabs = [
+    {
+      id: 'reports',
+      label: `Reports (${openReports.length} open)`,
+      content: <AbuseReportList reports={reports} nodeOperators={nodeOperators} onModerate={setPending} />,
+    },
+    {
+      id: 'listings',
+      label: 'Listings',
+      content: (
+        <ModerationListingTable
+          nodeOperators={nodeOperators}
+          requests={requests}
+          reports={reports}
+          onModerate={setPending}
+        />
+      ),
+    },
+    {
+      id: 'requests',
+      label: 'Requests',
+      content: (
+        <RequestList
+          requests={requests}
+          isNodeOperator={true}
+          nodeAddresses={nodeAddresses}
+          loadAuditLog={loadAuditLog}
+        />
+      ),
+    },
+    {
+      id: 'log',
+      label: 'Action Log',
+      content: <ModerationLog actions={actions} nodeOperators={nodeOperators} />,
+    },
+  ];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Moderation</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Review reported listings, hide scams and impersonators, and verify genuine operators.
+          Every action is logged with your wallet address and its reason.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatCard title="Open Reports" value={openReports.length} icon={Flag} />
+        <StatCard title="Listings" value={nodeOperators.length} icon={Server} />
+        <StatCard title="Hidden Listings" value={hiddenCount} icon={EyeOff} />
+        <StatCard title="Requests" value={requests.length} icon={Users} />
+      </div>
+
+      <Card>
+        <CardContent>
+          <Tabs tabs={tabs} />
+        </CardContent>
+      </Card>
+
+      {pending && (
+        <ModerationActionDialog
+          pending={pending}
+          onConfirm={(reason) =>
+            onModerate({
+              kind: pending.kind,
+              nodeOperatorId: pending.nodeOperatorId,
+              reportId: pending.report?.id,
+              reason,
+            })
+          }
+          onClose={() => setPending(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AdminPage;
@@ -1,37 +1,80 @@
 import React, { useState } from 'react';
 import NodeOperatorList from '../components/node-operators/NodeOperatorList';
-import WhitelistRequestForm from '../components/node-operators/WhitelistRequestForm';
-import { NodeOperator } from '../types';
+import WhitelistRequestForm, { RequestFormData } from '../components/node-operators/WhitelistRequestForm';
+import ReportListingDialog from '../components/node-operators/ReportListingDialog';
+import Alert from '../components/ui/Alert';
+import { AbuseReportCategory, AuditLogLoader, NodeOperator, WhitelistRequest } from '../types';
+import { NodeStatusMap } from '../lib/nodeStatus';
+import { requestRuleViolation } from '../lib/requestRules';
 
 interface NodeOperatorsPageProps {
   nodeOperators: NodeOperator[];
+  nodeStatuses: NodeStatusMap;
+  /** The signed-in wallet's own requests, checked before the form opens. */
+  requests: WhitelistRequest[];
+  providerSlotsTaken: Record<string, number>;
+  networkMaxBondProviders: number;
+  rejectionCooldownMs: number;
   isAuthenticated: boolean;
-  onRequestWhitelist: (nodeOperatorId: string, formData: any) => void;
+  walletAddress?: string;
+  onRequestWhitelist: (nodeOperatorId: string, formData: RequestFormData) => Promise<void>;
+  onReportListing: (
+    nodeOperatorId: string,
+    category: AbuseReportCategory,
+    details: string
+  ) => Promise<void>;
+  loadAuditLog: AuditLogLoader;
 }
 
 const NodeOperatorsPage: React.FC<NodeOperatorsPageProps> = ({
   nodeOperators,
+  nodeStatuses,
+  requests,
+  providerSlotsTaken,
+  networkMaxBondProviders,
+  rejectionCooldownMs,
   isAuthenticated,
+  walletAddress,
   onRequestWhitelist,
+  onReportListing,
+  loadAuditLog,
 }) => {
   const [selectedNodeOperator, setSelectedNodeOperator] = useState<NodeOperator | null>(null);
+  const [reportedNodeOperator, setReportedNodeOperator] = useState<NodeOperator | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
 
   const handleRequestWhitelist = (nodeOperatorId: string) => {
-    if (!isAuthenticated) {
+    if (!isAuthenticated || !walletAddress) {
       alert('Please connect your wallet to request whitelisting.');
       return;
     }
+
+    // The store enforces the same rules; checking here saves filling in the form.
+    const violation = requestRuleViolation(
+      { walletAddress, nodeOperatorId },
+      requests,
+      rejectionCooldownMs
+    );
+    if (violation) {
+      alert(violation.message);
+      return;
+    }
     
+    setSubmitError(null);
     const operator = nodeOperators.find(op => op.id === nodeOperatorId);
     if (operator) {
       setSelectedNodeOperator(operator);
     }
   };
 
-  const handleSubmitRequest = (formData: any) => {
+  const handleSubmitRequest = async (formData: RequestFormData) => {
     if (selectedNodeOperator) {
-      onRequestWhitelist(selectedNodeOperator.id, formData);
-      setSelectedNodeOperator(null);
+      try {
+        await onRequestWhitelist(selectedNodeOperator.id, formData);
+        setSelectedNodeOperator(null);
+      } catch (error) {
+        setSubmitError((error as Error).message);
+      }
     }
   };
 
@@ -39,9 +82,18 @@ const NodeOperatorsPage: React.FC<NodeOperatorsPageProps> = ({
     setSelectedNodeOperator(null);
   };
 
+  // Reports are tied to the reporting wallet, which keeps anonymous spam out of the queue.
+  const handleReport = (nodeOperatorId: string) => {
+    if (!isAuthenticated) {
+      alert('Please connect your wallet to report a listing.');
+      return;
+    }
+    setReportedNodeOperator(nodeOperators.find(op => op.id === nodeOperatorId) ?? null);
+  };
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
-      {selectedNodeOperator ? (
+      {selectedNodeOperator && walletAddress ? (
         <div>
           <button
             onClick={handleCancelRequest}
@@ -49,8 +101,14 @@ const NodeOperatorsPage: React.FC<NodeOperatorsPageProps> = ({
           >
             ← Back to Node Operators
           </button>
+          {submitError && (
+            <Alert variant="error" title="Request not sent" className="max-w-2xl mx-auto mb-6">
+              {submitError}
+            </Alert>
+          )}
           <WhitelistRequestForm
             nodeOperator={selectedNodeOperator}
+            walletAddress={walletAddress}
             onSubmit={handleSubmitRequest}
             onCancel={handleCancelRequest}
           />
@@ -63,10 +121,25 @@ const NodeOperatorsPage: React.FC<NodeOperatorsPageProps> = ({
           </p>
           <NodeOperatorList
             nodeOperators={nodeOperators}
+            nodeStatuses={nodeStatuses}
+            providerSlotsTaken={providerSlotsTaken}
+            networkMaxBondProviders={networkMaxBondProviders}
             onRequestWhitelist={handleRequestWhitelist}
+            loadAuditLog={loadAuditLog}
+            onReport={handleReport}
           />
         </div>
       )}
+
+      {reportedNodeOperator && (
+        <ReportListingDialog
+          nodeOperator={reportedNodeOperator}
+          onSubmit={(category, details) =>
+            onReportListing(reportedNodeOperator.id, category, details)
+          }
+          onClose={() => setReportedNodeOperator(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,35 +1,119 @@
 import React, { useState } from 'react';
 import OperatorDashboard from '../components/dashboard/OperatorDashboard';
-import NodeOperatorForm from '../components/node-operators/NodeOperatorForm';
+import OperatorOverview from '../components/dashboard/OperatorOverview';
+import TeamInvitations, { TeamInvitation } from '../components/dashboard/TeamInvitations';
+import NodeOperatorForm, { NodeOperatorFormData } from '../components/node-operators/NodeOperatorForm';
 import Alert from '../components/ui/Alert';
-import { NodeOperator, WhitelistRequest } from '../types';
+import {
+  AuditLogLoader,
+  BlocklistEntry,
+  BlocklistEntryInput,
+  NodeOperator,
+  RequestMessaging,
+  RequestRejection,
+  TeamMember,
+  TeamRole,
+  Webhook,
+  WebhookDelivery,
+  WebhookInput,
+  WhitelistRequest,
+} from '../types';
+import { NodeStatusMap } from '../lib/nodeStatus';
+import { toRuneString } from '../lib/rune';
+import { BondTransaction } from '../lib/bond';
 
 interface OperatorDashboardPageProps {
-  nodeOperator: NodeOperator | null;
+  /** Listings the signed-in wallet operates or is on the team of, one per node. */
+  nodeOperators: NodeOperator[];
+  /** The signed-in wallet's role on each of `nodeOperators`, by listing id. */
+  roles: Record<string, TeamRole>;
+  /** `null` with several listings shows the overview across all of them. */
+  selectedNodeOperator: NodeOperator | null;
+  nodeStatuses: NodeStatusMap;
+  /** Requests to any of `nodeOperators`. */
   requests: WhitelistRequest[];
+  networkMaxBondProviders: number;
+  blocklist: BlocklistEntry[];
+  webhooks: Webhook[];
+  webhookDeliveries: WebhookDelivery[];
   isAuthenticated: boolean;
-  isNodeOperator: boolean;
-  onCreateListing: (formData: any) => void;
-  onUpdateListing: (formData: any) => void;
-  onDeleteListing: () => void;
+  walletAddress?: string;
+  /** The selected listing's team. */
+  teamMembers: TeamMember[];
+  invitations: TeamInvitation[];
+  onSelectNodeOperator: (nodeOperatorId: string | null) => void;
+  /** `nodeOperatorId` is set when editing that listing. */
+  onVerifyNodeAddress: (address: string, nodeOperatorId?: string) => Promise<string | null>;
+  onCreateListing: (formData: NodeOperatorFormData) => Promise<void>;
+  onUpdateListing: (nodeOperatorId: string, formData: NodeOperatorFormData) => Promise<void>;
+  onDeleteListing: (nodeOperatorId: string) => void;
   onApproveRequest: (requestId: string) => void;
-  onRejectRequest: (requestId: string, reason: string) => void;
+  onRejectRequest: (requestId: string, rejection: RequestRejection) => void;
+  onApproveRequests: (requestIds: string[]) => void;
+  onRejectRequests: (requestIds: string[], rejection: RequestRejection) => void;
+  onSignDeposit?: (transaction: BondTransaction) => Promise<string>;
+  onRecordAction: (requestId: string, transaction: BondTransaction, txHash?: string) => Promise<void>;
+  onAddBlocklistEntry: (entry: Omit<BlocklistEntryInput, 'nodeOperatorId'>) => Promise<void>;
+  onRemoveBlocklistEntry: (entryId: string) => Promise<void>;
+  onAddWebhook: (webhook: Omit<WebhookInput, 'nodeOperatorId'>) => Promise<void>;
+  onSetWebhookEnabled: (webhookId: string, enabled: boolean) => Promise<void>;
+  onRemoveWebhook: (webhookId: string) => Promise<void>;
+  onRefreshWebhookDeliveries: () => Promise<void>;
+  onInviteTeamMember: (memberAddress: string, role: TeamRole) => Promise<void>;
+  onSetTeamRole: (memberId: string, role: TeamRole) => Promise<void>;
+  onRemoveTeamMember: (memberId: string) => Promise<void>;
+  onAcceptInvitation: (member: TeamMember) => void;
+  onDeclineInvitation: (member: TeamMember) => void;
+  loadAuditLog: AuditLogLoader;
+  messaging?: RequestMessaging;
+  unreadCounts: Record<string, number>;
 }
 
 const OperatorDashboardPage: React.FC<OperatorDashboardPageProps> = ({
-  nodeOperator,
+  nodeOperators,
+  roles,
+  selectedNodeOperator,
+  nodeStatuses,
   requests,
+  networkMaxBondProviders,
+  blocklist,
+  webhooks,
+  webhookDeliveries,
   isAuthenticated,
-  isNodeOperator,
+  walletAddress,
+  teamMembers,
+  invitations,
+  onSelectNodeOperator,
+  onVerifyNodeAddress,
   onCreateListing,
   onUpdateListing,
   onDeleteListing,
   onApproveRequest,
   onRejectRequest,
+  onApproveRequests,
+  onRejectRequests,
+  onSignDeposit,
+  onRecordAction,
+  onAddBlocklistEntry,
+  onRemoveBlocklistEntry,
+  onAddWebhook,
+  onSetWebhookEnabled,
+  onRemoveWebhook,
+  onRefreshWebhookDeliveries,
+  onInviteTeamMember,
+  onSetTeamRole,
+  onRemoveTeamMember,
+  onAcceptInvitation,
+  onDeclineInvitation,
+  loadAuditLog,
+  messaging,
+  unreadCounts,
 }) => {
-  const [isEditing, setIsEditing] = useState(false);
+  // Whether the listing form is open, to add a node or edit the selected one.
+  const [editing, setEditing] = useState<'create' | 'edit' | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
 
-  if (!isAuthenticated) {
+  if (!isAuthenticated || !walletAddress) {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
         <Alert variant="warning" title="Authentication Required">
@@ -39,16 +123,27 @@ const OperatorDashboardPage: React.FC<OperatorDashboardPageProps> = ({
     );
   }
 
-  if (!isNodeOperator && !isEditing) {
+  const invitationsCard = invitations.length > 0 && (
+    <div className="mb-6">
+      <TeamInvitations
+        invitations={invitations}
+        onAccept={onAcceptInvitation}
+        onDecline={onDeclineInvitation}
+      />
+    </div>
+  );
+
+  if (nodeOperators.length === 0 && editing === null) {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {invitationsCard}
         <div className="text-center py-12 bg-white rounded-lg shadow-sm">
           <h2 className="text-2xl font-bold text-gray-900 mb-4">Become a Node Operator</h2>
           <p className="text-gray-600 mb-8 max-w-2xl mx-auto">
             Create your node operator listing to publish bonding opportunities for users.
           </p>
           <button
-            onClick={() => setIsEditing(true)}
+            onClick={() => setEditing('create')}
             className="inline-flex items-center px-4 py-2 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
           >
             Create Node Operator Listing
@@ -58,31 +153,83 @@ const OperatorDashboardPage: React.FC<OperatorDashboardPageProps> = ({
     );
   }
 
-  if (isEditing || !nodeOperator) {
+  const nodeOperator = editing === 'edit' ? selectedNodeOperator : null;
+
+  // The form stays open when saving fails, so nothing typed is lost.
+  const handleSubmitListing = async (formData: NodeOperatorFormData) => {
+    setFormError(null);
+    try {
+      if (nodeOperator) {
+        await onUpdateListing(nodeOperator.id, formData);
+      } else {
+        await onCreateListing(formData);
+      }
+      setEditing(null);
+    } catch (error) {
+      setFormError((error as Error).message);
+    }
+  };
+
+  const handleCancelListing = () => {
+    setEditing(null);
+    setFormError(null);
+  };
+
+  if (editing !== null) {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
         <h1 className="text-3xl font-bold text-gray-900 mb-6">
           {nodeOperator ? 'Edit Node Operator Listing' : 'Create Node Operator Listing'}
         </h1>
+        {formError && (
+          <Alert
+            variant="error"
+            title={nodeOperator ? 'Listing not saved' : 'Listing not created'}
+            className="max-w-2xl mx-auto mb-6"
+          >
+            {formError}
+          </Alert>
+        )}
         <NodeOperatorForm
           initialData={nodeOperator ? {
             address: nodeOperator.address,
-            bondingCapacity: nodeOperator.bondingCapacity.toString(),
-            minimumBond: nodeOperator.minimumBond.toString(),
+            bondingCapacity: toRuneString(nodeOperator.bondingCapacity),
+            minimumBond: toRuneString(nodeOperator.minimumBond),
             feePercentage: nodeOperator.feePercentage.toString(),
-            instantChurnAmount: nodeOperator.instantChurnAmount.toString(),
+            instantChurnAmount: toRuneString(nodeOperator.instantChurnAmount),
+            maxBondProviders: nodeOperator.maxBondProviders?.toString() ?? '',
+            rejectionTemplates: nodeOperator.rejectionTemplates.join('\n'),
             description: nodeOperator.description,
             contactInfo: nodeOperator.contactInfo,
           } : undefined}
-          onSubmit={(formData) => {
-            if (nodeOperator) {
-              onUpdateListing(formData);
-            } else {
-              onCreateListing(formData);
-            }
-            setIsEditing(false);
-          }}
-          onCancel={() => setIsEditing(false)}
+          networkMaxBondProviders={networkMaxBondProviders}
+          onVerifyAddress={(address) => onVerifyNodeAddress(address, nodeOperator?.id)}
+          onSubmit={handleSubmitListing}
+          onCancel={handleCancelListing}
+        />
+      </div>
+    );
+  }
+
+  if (!selectedNodeOperator) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {invitationsCard}
+        <OperatorOverview
+          nodeOperators={nodeOperators}
+          roles={roles}
+          nodeStatuses={nodeStatuses}
+          requests={requests}
+          networkMaxBondProviders={networkMaxBondProviders}
+          onSelectNodeOperator={onSelectNodeOperator}
+          onAddNode={() => setEditing('create')}
+          onApproveRequest={onApproveRequest}
+          onRejectRequest={onRejectRequest}
+          onApproveRequests={onApproveRequests}
+          onRejectRequests={onRejectRequests}
+          loadAuditLog={loadAuditLog}
+          messaging={messaging}
+          unreadCounts={unreadCounts}
         />
       </div>
     );
@@ -90,13 +237,41 @@ const OperatorDashboardPage: React.FC<OperatorDashboardPageProps> = ({
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      {invitationsCard}
       <OperatorDashboard
-        nodeOperator={nodeOperator}
-        requests={requests}
+        nodeOperator={selectedNodeOperator}
+        nodeOperators={nodeOperators}
+        role={roles[selectedNodeOperator.id]}
+        walletAddress={walletAddress}
+        teamMembers={teamMembers}
+        nodeStatus={nodeStatuses[selectedNodeOperator.address]}
+        requests={requests.filter((req) => req.nodeOperatorId === selectedNodeOperator.id)}
+        networkMaxBondProviders={networkMaxBondProviders}
+        blocklist={blocklist}
+        webhooks={webhooks}
+        webhookDeliveries={webhookDeliveries}
         onApproveRequest={onApproveRequest}
         onRejectRequest={onRejectRequest}
-        onEditListing={() => setIsEditing(true)}
-        onDeleteListing={onDeleteListing}
+        onApproveRequests={onApproveRequests}
+        onRejectRequests={onRejectRequests}
+        onSignDeposit={onSignDeposit}
+        onRecordAction={onRecordAction}
+        onAddBlocklistEntry={onAddBlocklistEntry}
+        onRemoveBlocklistEntry={onRemoveBlocklistEntry}
+        onAddWebhook={onAddWebhook}
+        onSetWebhookEnabled={onSetWebhookEnabled}
+        onRemoveWebhook={onRemoveWebhook}
+        onRefreshWebhookDeliveries={onRefreshWebhookDeliveries}
+        onInviteTeamMember={onInviteTeamMember}
+        onSetTeamRole={onSetTeamRole}
+        onRemoveTeamMember={onRemoveTeamMember}
+        loadAuditLog={loadAuditLog}
+        messaging={messaging}
+        unreadCounts={unreadCounts}
+        onSelectNodeOperator={onSelectNodeOperator}
+        onAddNode={() => setEditing('create')}
+        onEditListing={() => setEditing('edit')}
+        onDeleteListing={() => onDeleteListing(selectedNodeOperator.id)}
       />
     </div>
   );
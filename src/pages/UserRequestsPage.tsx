@@ -1,17 +1,44 @@
-import React from 'react';
+import React, { useState } from 'react';
 import UserDashboard from '../components/dashboard/UserDashboard';
+import WhitelistRequestForm, { RequestFormData } from '../components/node-operators/WhitelistRequestForm';
 import Alert from '../components/ui/Alert';
-import { WhitelistRequest } from '../types';
+import { AuditLogLoader, NodeOperator, RequestMessaging, WhitelistRequest } from '../types';
+import { BondTransaction } from '../lib/bond';
+import { NodeStatusMap } from '../lib/nodeStatus';
+import { toRuneString } from '../lib/rune';
 
 interface UserRequestsPageProps {
   requests: WhitelistRequest[];
+  nodeOperators: NodeOperator[];
+  nodeStatuses: NodeStatusMap;
   isAuthenticated: boolean;
+  onSignDeposit?: (transaction: BondTransaction) => Promise<string>;
+  onRecordAction: (requestId: string, transaction: BondTransaction, txHash?: string) => Promise<void>;
+  onConfirmWithdrawal: (requestId: string) => Promise<void>;
+  onEditRequest: (requestId: string, formData: RequestFormData) => Promise<void>;
+  onCancelRequest: (requestId: string) => Promise<void>;
+  loadAuditLog: AuditLogLoader;
+  messaging?: RequestMessaging;
+  unreadCounts: Record<string, number>;
 }
 
 const UserRequestsPage: React.FC<UserRequestsPageProps> = ({
   requests,
+  nodeOperators,
+  nodeStatuses,
   isAuthenticated,
+  onSignDeposit,
+  onRecordAction,
+  onConfirmWithdrawal,
+  onEditRequest,
+  onCancelRequest,
+  loadAuditLog,
+  messaging,
+  unreadCounts,
 }) => {
+  const [editingRequestId, setEditingRequestId] = useState<string | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+
   if (!isAuthenticated) {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
@@ -22,9 +49,71 @@ const UserRequestsPage: React.FC<UserRequestsPageProps> = ({
     );
   }
 
+  const editingRequest = requests.find(req => req.id === editingRequestId);
+  const editingOperator = editingRequest
+    ? nodeOperators.find(op => op.id === editingRequest.nodeOperatorId)
+    : undefined;
+
+  const handleSubmitEdit = async (formData: RequestFormData) => {
+    if (editingRequest) {
+      setEditError(null);
+      try {
+        await onEditRequest(editingRequest.id, formData);
+        setEditingRequestId(null);
+      } catch (error) {
+        setEditError((error as Error).message);
+      }
+    }
+  };
+
+  const handleCancelEdit = () => {
+    setEditingRequestId(null);
+    setEditError(null);
+  };
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
-      <UserDashboard requests={requests} />
+      {editingRequest && editingOperator ? (
+        <div>
+          <button
+            onClick={handleCancelEdit}
+            className="mb-6 text-blue-600 hover:text-blue-800 flex items-center"
+          >
+            ← Back to My Requests
+          </button>
+          {editError && (
+            <Alert variant="error" title="Changes not saved" className="max-w-2xl mx-auto mb-6">
+              {editError}
+            </Alert>
+          )}
+          <WhitelistRequestForm
+            nodeOperator={editingOperator}
+            walletAddress={editingRequest.walletAddress}
+            initialData={{
+              discordUsername: editingRequest.discordUsername,
+              xUsername: editingRequest.xUsername,
+              telegramUsername: editingRequest.telegramUsername,
+              intendedBondAmount: toRuneString(editingRequest.intendedBondAmount),
+            }}
+            onSubmit={handleSubmitEdit}
+            onCancel={handleCancelEdit}
+          />
+        </div>
+      ) : (
+        <UserDashboard
+          requests={requests}
+          nodeOperators={nodeOperators}
+          nodeStatuses={nodeStatuses}
+          onSignDeposit={onSignDeposit}
+          onRecordAction={onRecordAction}
+          onConfirmWithdrawal={onConfirmWithdrawal}
+          onEditRequest={(request) => setEditingRequestId(request.id)}
+          onCancelRequest={onCancelRequest}
+          loadAuditLog={loadAuditLog}
+          messaging={messaging}
+          unreadCounts={unreadCounts}
+        />
+      )}
     </div>
   );
 };
@@ -1,15 +1,96 @@
+import { RuneAmount } from '../lib/rune';
+
 export interface NodeOperator {
   id: string;
   address: string;
-  bondingCapacity: number;
-  minimumBond: number;
+  operatorAddress: string;
+  bondingCapacity: RuneAmount;
+  minimumBond: RuneAmount;
   feePercentage: number;
-  instantChurnAmount: number;
+  instantChurnAmount: RuneAmount;
+  /** Overrides the network's bond provider limit; `null` follows the network. */
+  maxBondProviders: number | null;
+  /** Reasons the operator picks from when rejecting a request. */
+  rejectionTemplates: string[];
   description?: string;
   contactInfo?: string;
+  /** Set by platform moderators; unset until one acts on the listing. */
+  moderation?: ListingModeration;
   createdAt: Date;
 }
 
+export interface ListingModeration {
+  /** Hidden listings are left out of the public list and take no new requests. */
+  hidden: boolean;
+  /** A moderator checked that the listing is run by who it claims to be. */
+  verified: boolean;
+}
+
+/** On-chain steps taken for a request, in the order they were recorded. */
+export type RequestActionKind = 'whitelist' | 'bond' | 'unbond' | 'remove-provider';
+
+export interface RequestAction {
+  id: string;
+  kind: RequestActionKind;
+  memo: string;
+  amount: RuneAmount;
+  /** Set when the transaction was signed in-app; manual sends have none. */
+  txHash?: string;
+  createdAt: Date;
+}
+
+export type RequestStatus =
+  | 'pending'
+  | 'waitlisted'
+  | 'approved'
+  | 'rejected'
+  | 'whitelisted'
+  | 'bonded'
+  | 'unbonding'
+  | 'withdrawn'
+  | 'cancelled'
+  | 'expired'
+  | 'removed';
+
+/** What moved a request between statuses; see `lib/requestLifecycle`. */
+export type RequestEvent =
+  | 'approve'
+  | 'waitlist'
+  | 'promote'
+  | 'reject'
+  | 'cancel'
+  | 'expire'
+  | 'whitelist'
+  | 'bond'
+  | 'unbond'
+  | 'withdraw'
+  | 'remove';
+
+export interface RequestTransition {
+  from: RequestStatus;
+  to: RequestStatus;
+  event: RequestEvent;
+  at: Date;
+}
+
+/** How an operator turns a request down. */
+export interface RequestRejection {
+  reason: string;
+  shareWithBonder: boolean;
+}
+
+/** Fields a bonder may change while the request is still pending. */
+export type EditableRequestFields = Pick<
+  WhitelistRequest,
+  'discordUsername' | 'xUsername' | 'telegramUsername' | 'intendedBondAmount'
+>;
+
+export interface RequestEdit {
+  at: Date;
+  /** Values before the edit, for the fields it changed. */
+  previous: Partial<EditableRequestFields>;
+}
+
 export interface WhitelistRequest {
   id: string;
   nodeOperatorId: string;
@@ -17,14 +98,224 @@ export interface WhitelistRequest {
   xUsername: string;
   telegramUsername: string;
   walletAddress: string;
-  intendedBondAmount: number;
-  status: 'pending' | 'approved' | 'rejected';
+  intendedBondAmount: RuneAmount;
+  status: RequestStatus;
   rejectionReason?: string;
+  /** Set when the operator kept the reason from the bonder; only they can read it. */
+  rejectionReasonPrivate?: boolean;
+  actions: RequestAction[];
+  transitions: RequestTransition[];
+  edits: RequestEdit[];
   createdAt: Date;
 }
 
+/** A message in the thread between a request's bonder and its listing's operator. */
+export interface RequestMessage {
+  id: string;
+  requestId: string;
+  senderAddress: string;
+  body: string;
+  createdAt: Date;
+  /** When the other party first opened the thread after it arrived. */
+  readAt: Date | null;
+}
+
+export type NotificationType =
+  | 'request-received'
+  | 'request-approved'
+  | 'request-rejected'
+  | 'listing-terms-changed'
+  | 'team-invite';
+
+/** An in-app notification for one wallet, raised by a change to a request, listing or team. */
+export interface UserNotification {
+  id: string;
+  recipientAddress: string;
+  type: NotificationType;
+  nodeOperatorId: string;
+  /** Set for request notifications. */
+  requestId?: string;
+  title: string;
+  body?: string;
+  createdAt: Date;
+  readAt: Date | null;
+}
+
 export interface User {
   id: string;
+  /** Address proven by a signed sign-in challenge. */
   walletAddress: string;
-  isNodeOperator: boolean;
+}
+
+/** What a blocklist entry matches on a new request. */
+export type BlocklistEntryKind = 'wallet' | 'discord' | 'x' | 'telegram';
+
+/** Requests to the listing that match are rejected on arrival with `reason`. */
+export interface BlocklistEntry {
+  id: string;
+  nodeOperatorId: string;
+  kind: BlocklistEntryKind;
+  value: string;
+  reason: string;
+  createdAt: Date;
+}
+
+export type WebhookEvent = 'request.created' | 'request.approved' | 'request.rejected';
+
+/** `json` posts the signed payload as is; the others post a chat message built from it. */
+export type WebhookFormat = 'json' | 'discord' | 'telegram';
+
+/** An operator's endpoint for request events on their listing. */
+export interface Webhook {
+  id: string;
+  nodeOperatorId: string;
+  /** For `telegram`, the bot's `sendMessage` URL, which includes its token. */
+  url: string;
+  format: WebhookFormat;
+  events: WebhookEvent[];
+  /** Only set for `telegram`. */
+  telegramChatId?: string;
+  /** Key for the HMAC signature sent with every delivery. */
+  secret: string;
+  enabled: boolean;
+  createdAt: Date;
+}
+
+/** The outcome of delivering one event to one webhook, after any retries. */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  nodeOperatorId: string;
+  event: WebhookEvent;
+  requestId: string;
+  status: 'delivered' | 'failed';
+  attempts: number;
+  /** HTTP status of the last attempt; `null` when it got no response. */
+  responseStatus: number | null;
+  error?: string;
+  createdAt: Date;
+}
+
+/**
+ * What a team member may do on a listing: owners everything, managers approve,
+ * reject and edit the listing, viewers only look.
+ */
+export type TeamRole = 'owner' | 'manager' | 'viewer';
+
+/** A wallet invited to help run a listing. The listing's operator wallet is always an owner. */
+export interface TeamMember {
+  id: string;
+  nodeOperatorId: string;
+  memberAddress: string;
+  role: TeamRole;
+  invitedBy: string;
+  /** `null` while the invitation is pending. */
+  joinedAt: Date | null;
+  createdAt: Date;
+}
+
+export type AbuseReportCategory = 'scam' | 'impersonation' | 'other';
+
+export type AbuseReportStatus = 'open' | 'actioned' | 'dismissed';
+
+/** A user's report of a listing to the platform's moderators. */
+export interface AbuseReport {
+  id: string;
+  nodeOperatorId: string;
+  reporterAddress: string;
+  category: AbuseReportCategory;
+  details: string;
+  status: AbuseReportStatus;
+  createdAt: Date;
+  /** When a moderator acted on or dismissed the report. */
+  resolvedAt: Date | null;
+}
+
+export type ModerationActionKind = 'hide' | 'unhide' | 'verify' | 'unverify' | 'dismiss-report';
+
+/** An entry in the moderators' append-only action log. */
+export interface ModerationAction {
+  id: string;
+  kind: ModerationActionKind;
+  moderatorAddress: string;
+  nodeOperatorId: string;
+  /** The report the action settles, when it was taken on one. */
+  reportId?: string;
+  reason: string;
+  at: Date;
+}
+
+export type AuditSubjectType = 'node-operator' | 'whitelist-request';
+
+/** Lifecycle events keep their `RequestEvent` names; the rest describe record changes. */
+export type AuditEventType = 'created' | 'edited' | 'terms-changed' | 'deleted' | RequestEvent;
+
+/** One changed field, with both values as display strings. */
+export interface AuditChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+/** An entry in a listing's or request's append-only audit log. */
+export interface AuditEvent {
+  id: string;
+  subjectType: AuditSubjectType;
+  subjectId: string;
+  type: AuditEventType;
+  /** Wallet that made the change; `null` for automatic ones such as expiry. */
+  actor: string | null;
+  changes: AuditChange[];
+  note?: string;
+  at: Date;
+}
+
+export type NodeOperatorInput = Omit<NodeOperator, 'id' | 'moderation' | 'createdAt'>;
+
+export type AuditEventInput = Omit<AuditEvent, 'id'>;
+
+export type AuditLogLoader = (
+  subjectType: AuditSubjectType,
+  subjectId: string
+) => Promise<AuditEvent[]>;
+
+export type BlocklistEntryInput = Omit<BlocklistEntry, 'id' | 'createdAt'>;
+
+export type WhitelistRequestInput = Omit<
+  WhitelistRequest,
+  | 'id'
+  | 'status'
+  | 'rejectionReason'
+  | 'rejectionReasonPrivate'
+  | 'actions'
+  | 'transitions'
+  | 'edits'
+  | 'createdAt'
+>;
+
+export type RequestActionInput = Omit<RequestAction, 'id' | 'createdAt'>;
+
+export type UserNotificationInput = Omit<UserNotification, 'id' | 'readAt'>;
+
+export type WebhookInput = Omit<Webhook, 'id' | 'secret' | 'createdAt'>;
+
+export type WebhookDeliveryInput = Omit<WebhookDelivery, 'id'>;
+
+export type TeamMemberInput = Omit<TeamMember, 'id' | 'joinedAt' | 'createdAt'>;
+
+export type AbuseReportInput = Pick<
+  AbuseReport,
+  'nodeOperatorId' | 'reporterAddress' | 'category' | 'details'
+>;
+
+export type ModerationActionInput = Omit<ModerationAction, 'id' | 'at'>;
+
+export type RequestMessageInput = Pick<RequestMessage, 'requestId' | 'senderAddress' | 'body'>;
+
+/** Message threads as seen by the signed-in wallet; built in `App`. */
+export interface RequestMessaging {
+  viewerAddress: string;
+  load(requestId: string): Promise<RequestMessage[]>;
+  send(requestId: string, body: string): Promise<RequestMessage>;
+  markRead(requestId: string): Promise<void>;
 }
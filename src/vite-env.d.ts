@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_BACKEND?: 'local' | 'memory' | 'http';
+  readonly VITE_API_URL?: string;
+  readonly VITE_THORNODE_URL?: string;
+  readonly VITE_ENABLE_MOCK_WALLET?: 'true' | 'false';
+  readonly VITE_DEFAULT_NETWORK?: string;
+  readonly VITE_REJECTION_COOLDOWN_DAYS?: string;
+  /** Comma-separated moderator wallets; the API server reads `MODERATOR_ADDRESSES`. */
+  readonly VITE_MODERATOR_ADDRESSES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
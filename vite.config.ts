@@ -7,4 +7,9 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  server: {
+    proxy: {
+      '/api': `http://localhost:${process.env.API_PORT ?? 8787}`,
+    },
+  },
 })